@@ -0,0 +1,315 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { MnemonicProvider } from "./provider";
+import { useMnemonicKey } from "./use";
+import { withBroadcastSync, type BroadcastSyncStorage } from "./broadcast-sync";
+import type { StorageLike } from "./types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A Map-backed storage; sharing one between wrappers simulates a shared backend. */
+function createMapStorage(store = new Map<string, string>()): StorageLike & { store: Map<string, string> } {
+    return {
+        store,
+        getItem: (key) => store.get(key) ?? null,
+        setItem: (key, value) => {
+            store.set(key, value);
+        },
+        removeItem: (key) => {
+            store.delete(key);
+        },
+        get length() {
+            return store.size;
+        },
+        key: (index) => Array.from(store.keys())[index] ?? null,
+    };
+}
+
+const opened: BroadcastSyncStorage[] = [];
+let channelCounter = 0;
+
+/**
+ * Creates two wrappers ("tabs") on a fresh channel, over one shared store or,
+ * like `sessionStorage`, a replicated store per tab.
+ */
+function createTabs({ shared = true }: { shared?: boolean } = {}) {
+    const channel = `broadcast-sync-test-${channelCounter++}`;
+    const storeA = new Map<string, string>();
+    const storeB = shared ? storeA : new Map<string, string>();
+    const innerB = createMapStorage(storeB);
+    const options = { replicate: !shared };
+    const tabA = withBroadcastSync(createMapStorage(storeA), channel, options);
+    const tabB = withBroadcastSync(innerB, channel, options);
+    opened.push(tabA, tabB);
+    return { channel, tabA, tabB, innerB, storeA, storeB };
+}
+
+/** Posts a raw message on a channel, as a tab with the given id would. */
+function post(channel: string, tab: string, changes: [string, string | null, number][]) {
+    const bc = new BroadcastChannel(channel);
+    bc.postMessage({ tab, changes });
+    bc.close();
+}
+
+afterEach(() => {
+    while (opened.length > 0) opened.pop()!.close();
+});
+
+// ---------------------------------------------------------------------------
+// withBroadcastSync
+// ---------------------------------------------------------------------------
+
+describe("withBroadcastSync", () => {
+    it("forwards reads, writes, and enumeration to the wrapped storage", () => {
+        const inner = createMapStorage();
+        const storage = withBroadcastSync(inner, "forward-test");
+        opened.push(storage);
+
+        storage.setItem("a", "1");
+        expect(inner.store.get("a")).toBe("1");
+        expect(storage.getItem("a")).toBe("1");
+        expect(storage.length).toBe(1);
+        expect(storage.key!(0)).toBe("a");
+        storage.removeItem("a");
+        expect(inner.store.has("a")).toBe(false);
+    });
+
+    it("omits key() when the wrapped storage does not enumerate", () => {
+        const storage = withBroadcastSync({ getItem: () => null, setItem: () => {}, removeItem: () => {} }, "no-key");
+        opened.push(storage);
+        expect(storage.key).toBeUndefined();
+        expect(storage.length).toBeUndefined();
+    });
+
+    it("notifies other tabs with the written keys", async () => {
+        const { tabA, tabB } = createTabs();
+        const changes: (string[] | undefined)[] = [];
+        tabB.onExternalChange((keys) => changes.push(keys));
+
+        tabA.setItem("ns.a", "1");
+        await vi.waitFor(() => expect(changes).toEqual([["ns.a"]]));
+
+        tabA.removeItem("ns.a");
+        await vi.waitFor(() => expect(changes).toEqual([["ns.a"], ["ns.a"]]));
+    });
+
+    it("coalesces writes made in the same tick into one message", async () => {
+        const { tabA, tabB } = createTabs();
+        const changes: (string[] | undefined)[] = [];
+        tabB.onExternalChange((keys) => changes.push(keys));
+
+        tabA.setItem("ns.a", "1");
+        tabA.setItem("ns.b", "2");
+        tabA.setItem("ns.a", "3");
+        await vi.waitFor(() => expect(changes.length).toBe(1));
+        expect(changes[0]).toEqual(["ns.a", "ns.b"]);
+    });
+
+    it("applies the written values to per-tab backends", async () => {
+        const { tabA, tabB, storeB } = createTabs({ shared: false });
+        const changes: (string[] | undefined)[] = [];
+        tabB.onExternalChange((keys) => changes.push(keys));
+
+        tabA.setItem("ns.a", "1");
+        tabA.setItem("ns.b", "2");
+        await vi.waitFor(() => expect(changes).toEqual([["ns.a", "ns.b"]]));
+        expect(storeB.get("ns.a")).toBe("1");
+        expect(storeB.get("ns.b")).toBe("2");
+
+        tabA.removeItem("ns.a");
+        await vi.waitFor(() => expect(changes.length).toBe(2));
+        expect(storeB.has("ns.a")).toBe(false);
+    });
+
+    it("does not write to a shared backend", async () => {
+        const { tabA, tabB, innerB } = createTabs();
+        const setItem = vi.spyOn(innerB, "setItem");
+        const received = vi.fn();
+        tabB.onExternalChange(received);
+
+        tabA.setItem("ns.a", "1");
+        await vi.waitFor(() => expect(received).toHaveBeenCalledWith(["ns.a"]));
+        expect(setItem).not.toHaveBeenCalled();
+    });
+
+    it("keeps a newer local write when a stale message arrives on a shared backend", async () => {
+        const { channel, tabB, storeB } = createTabs();
+        const received = vi.fn();
+        tabB.onExternalChange(received);
+
+        tabB.setItem("ns.a", "new");
+        post(channel, "other", [["ns.a", "stale", 1]]);
+        await vi.waitFor(() => expect(received).toHaveBeenCalled());
+        expect(storeB.get("ns.a")).toBe("new");
+    });
+
+    it("skips replicated writes older than the last one seen for the key", async () => {
+        const { channel, tabB, storeB } = createTabs({ shared: false });
+        const received = vi.fn();
+        tabB.onExternalChange(received);
+
+        post(channel, "other", [["ns.a", "first", 1]]);
+        await vi.waitFor(() => expect(storeB.get("ns.a")).toBe("first"));
+        // A newer local write, then a delayed copy of the older message.
+        tabB.setItem("ns.a", "local");
+        post(channel, "other", [["ns.a", "first", 1]]);
+        post(channel, "other", [["ns.b", "later", 1]]);
+        await vi.waitFor(() => expect(storeB.get("ns.b")).toBe("later"));
+
+        expect(storeB.get("ns.a")).toBe("local");
+        expect(received).toHaveBeenCalledTimes(2);
+        expect(received).toHaveBeenLastCalledWith(["ns.b"]);
+    });
+
+    it("does not notify the tab that made the write", async () => {
+        const { tabA, tabB } = createTabs();
+        const own = vi.fn();
+        const other = vi.fn();
+        tabA.onExternalChange(own);
+        tabB.onExternalChange(other);
+
+        tabA.setItem("ns.a", "1");
+        await vi.waitFor(() => expect(other).toHaveBeenCalled());
+        expect(own).not.toHaveBeenCalled();
+    });
+
+    it("does not announce a write the wrapped storage rejected", async () => {
+        const channel = `broadcast-sync-test-${channelCounter++}`;
+        const failing = withBroadcastSync(
+            {
+                getItem: () => null,
+                setItem: () => {
+                    throw new Error("QuotaExceededError");
+                },
+                removeItem: () => {},
+            },
+            channel,
+        );
+        const tabB = withBroadcastSync(createMapStorage(), channel);
+        opened.push(failing, tabB);
+        const other = vi.fn();
+        tabB.onExternalChange(other);
+
+        expect(() => failing.setItem("ns.a", "1")).toThrow("QuotaExceededError");
+        failing.removeItem("ns.b");
+        await vi.waitFor(() => expect(other).toHaveBeenCalled());
+        expect(other).toHaveBeenCalledTimes(1);
+        expect(other).toHaveBeenCalledWith(["ns.b"]);
+    });
+
+    it("forwards notifications from the wrapped storage", () => {
+        let innerCallback: ((changedKeys?: string[]) => void) | undefined;
+        const unsubscribeInner = vi.fn();
+        const inner: StorageLike = {
+            ...createMapStorage(),
+            onExternalChange: (cb) => {
+                innerCallback = cb;
+                return unsubscribeInner;
+            },
+        };
+        const storage = withBroadcastSync(inner, "inner-forward");
+        opened.push(storage);
+        const callback = vi.fn();
+        const unsubscribe = storage.onExternalChange(callback);
+
+        innerCallback!(["ns.x"]);
+        expect(callback).toHaveBeenCalledWith(["ns.x"]);
+
+        unsubscribe();
+        expect(unsubscribeInner).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops announcing and receiving after close()", async () => {
+        const { tabA, tabB } = createTabs();
+        const fromA = vi.fn();
+        const fromB = vi.fn();
+        tabA.onExternalChange(fromB);
+        tabB.onExternalChange(fromA);
+
+        tabA.close();
+        tabA.setItem("ns.a", "1");
+        tabB.setItem("ns.b", "2");
+
+        // Let any in-flight messages arrive.
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(fromA).not.toHaveBeenCalled();
+        expect(fromB).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Provider integration
+// ---------------------------------------------------------------------------
+
+describe("withBroadcastSync with MnemonicProvider", () => {
+    it("updates hooks in other tabs", async () => {
+        const { tabA, tabB } = createTabs();
+        let setInA: ((value: number) => void) | undefined;
+        function Writer() {
+            setInA = useMnemonicKey("count", { defaultValue: 0 }).set;
+            return null;
+        }
+        const seenInB: number[] = [];
+        function Reader() {
+            seenInB.push(useMnemonicKey("count", { defaultValue: 0 }).value);
+            return null;
+        }
+        render(
+            <>
+                <MnemonicProvider namespace="app" storage={tabA}>
+                    <Writer />
+                </MnemonicProvider>
+                <MnemonicProvider namespace="app" storage={tabB}>
+                    <Reader />
+                </MnemonicProvider>
+            </>,
+        );
+        expect(seenInB[seenInB.length - 1]).toBe(0);
+
+        const received = vi.fn();
+        tabB.onExternalChange(received);
+        await act(async () => {
+            setInA!(5);
+            await vi.waitFor(() => expect(received).toHaveBeenCalledWith(["app.count"]));
+        });
+        expect(seenInB[seenInB.length - 1]).toBe(5);
+    });
+
+    it("updates hooks in tabs with their own backend", async () => {
+        const { tabA, tabB, storeB } = createTabs({ shared: false });
+        let setInA: ((value: number) => void) | undefined;
+        function Writer() {
+            setInA = useMnemonicKey("count", { defaultValue: 0 }).set;
+            return null;
+        }
+        let seenInB: number | undefined;
+        function Reader() {
+            seenInB = useMnemonicKey("count", { defaultValue: 0 }).value;
+            return null;
+        }
+        render(
+            <>
+                <MnemonicProvider namespace="app" storage={tabA}>
+                    <Writer />
+                </MnemonicProvider>
+                <MnemonicProvider namespace="app" storage={tabB}>
+                    <Reader />
+                </MnemonicProvider>
+            </>,
+        );
+
+        const received = vi.fn();
+        tabB.onExternalChange(received);
+        await act(async () => {
+            setInA!(7);
+            await vi.waitFor(() => expect(received).toHaveBeenCalledWith(["app.count"]));
+        });
+        expect(seenInB).toBe(7);
+        expect(storeB.has("app.count")).toBe(true);
+    });
+});
@@ -0,0 +1,215 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+/**
+ * @fileoverview BroadcastChannel-based cross-tab notifications for any
+ * {@link StorageLike}.
+ *
+ * This module exports `withBroadcastSync`, a wrapper that announces the writes
+ * made through a storage adapter on a `BroadcastChannel` and surfaces the keys
+ * written by other tabs through `onExternalChange`, optionally replicating
+ * their values into a per-tab backend.
+ */
+
+import type { StorageLike } from "./types";
+
+/**
+ * Message posted on the channel by {@link withBroadcastSync}.
+ */
+type BroadcastSyncMessage = {
+    /** Identifies the sending tab; breaks ties between equal sequence numbers. */
+    tab: string;
+    /** Written keys, their new raw values (`null` for removals), and each write's per-key sequence number. */
+    changes: [key: string, value: string | null, seq: number][];
+};
+
+/**
+ * Position of a write in a key's history, as seen by one tab.
+ */
+type WriteStamp = { seq: number; tab: string };
+
+/**
+ * Configuration options for {@link withBroadcastSync}.
+ */
+export type BroadcastSyncOptions = {
+    /**
+     * Write the values announced by other tabs into the wrapped storage.
+     *
+     * Enable this for backends that are not shared between tabs, such as
+     * `sessionStorage` or an in-memory store. Each write carries a per-key
+     * sequence number, so a delayed message never overwrites a newer write
+     * of the same key (last writer wins). Leave it off for shared backends
+     * like `localStorage`, which already hold the other tab's value.
+     *
+     * @default false
+     */
+    replicate?: boolean;
+};
+
+/**
+ * A {@link StorageLike} returned by {@link withBroadcastSync}.
+ */
+export type BroadcastSyncStorage = StorageLike & {
+    onExternalChange: (callback: (changedKeys?: string[]) => void) => () => void;
+
+    /**
+     * Close the underlying `BroadcastChannel`.
+     *
+     * Writes made afterwards are still applied to the wrapped storage but
+     * are no longer announced, and messages from other tabs are ignored.
+     */
+    close(): void;
+};
+
+/**
+ * Wraps a {@link StorageLike} so that writes are announced to other tabs.
+ *
+ * Every `setItem` and `removeItem` is forwarded to the wrapped storage. The
+ * written keys and values are then collected for the current microtask and
+ * posted on a `BroadcastChannel` as one message. Every other tab using the
+ * same channel name invokes its `onExternalChange` subscribers with exactly
+ * those keys, so `MnemonicProvider` only re-reads the keys that changed.
+ * The receiving tab never writes to a shared backend.
+ *
+ * With `replicate`, the receiving tab also writes the announced values into
+ * its own wrapped storage, so backends that are not shared between tabs,
+ * such as `sessionStorage`, stay in sync while the tabs are open. Writes
+ * older than the last one the tab has seen for a key are skipped. A tab
+ * opened later starts from its own backend's contents.
+ *
+ * The keys are fully-qualified storage keys (including the provider
+ * namespace prefix).
+ *
+ * If the wrapped storage already implements `onExternalChange`, its
+ * notifications are forwarded as well.
+ *
+ * When `BroadcastChannel` is unavailable (e.g. during SSR), the wrapper
+ * forwards calls to the wrapped storage and never notifies.
+ *
+ * @param storage - The storage adapter to wrap
+ * @param channelName - Name of the `BroadcastChannel` shared by all tabs
+ * @param options - Whether to replicate other tabs' writes
+ * @returns A storage adapter that announces its writes to other tabs
+ *
+ * @example
+ * ```tsx
+ * const storage = withBroadcastSync(window.sessionStorage, "my-app-sync", { replicate: true });
+ *
+ * <MnemonicProvider namespace="app" storage={storage}>
+ *   <App />
+ * </MnemonicProvider>
+ * ```
+ *
+ * @see {@link StorageLike.onExternalChange} - How the provider consumes the notifications
+ */
+export function withBroadcastSync(
+    storage: StorageLike,
+    channelName: string,
+    options: BroadcastSyncOptions = {},
+): BroadcastSyncStorage {
+    const { replicate = false } = options;
+    const listeners = new Set<(changedKeys?: string[]) => void>();
+    const unsent = new Map<string, [value: string | null, seq: number]>();
+    const tab = Math.random().toString(36).slice(2);
+    /** Latest write seen per key, from this tab or another. */
+    const stamps = new Map<string, WriteStamp>();
+    let closed = false;
+
+    /** Whether `stamp` is newer than the latest write seen for `key`. */
+    const isNewer = (key: string, stamp: WriteStamp): boolean => {
+        const seen = stamps.get(key);
+        return !seen || stamp.seq > seen.seq || (stamp.seq === seen.seq && stamp.tab > seen.tab);
+    };
+
+    const bc = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(channelName) : null;
+
+    const notify = (changedKeys?: string[]) => {
+        for (const fn of listeners) {
+            try {
+                fn(changedKeys);
+            } catch {
+                // Subscriber errors must not break the adapter.
+            }
+        }
+    };
+
+    if (bc) {
+        bc.onmessage = (e: MessageEvent<BroadcastSyncMessage>) => {
+            const { tab: from, changes } = e.data ?? {};
+            if (!Array.isArray(changes) || changes.length === 0) return;
+            if (!replicate) {
+                // A shared backend already holds the latest value; subscribers re-read it.
+                notify(changes.map(([key]) => key));
+                return;
+            }
+            const changedKeys: string[] = [];
+            for (const [key, value, seq] of changes) {
+                const stamp = { seq, tab: from };
+                if (!isNewer(key, stamp)) continue;
+                stamps.set(key, stamp);
+                changedKeys.push(key);
+                try {
+                    if (value === null) storage.removeItem(key);
+                    else storage.setItem(key, value);
+                } catch {
+                    // A rejected write leaves the old value; subscribers re-read it.
+                }
+            }
+            if (changedKeys.length > 0) notify(changedKeys);
+        };
+    }
+
+    const announce = (key: string, value: string | null) => {
+        if (!bc || closed) return;
+        const seq = (stamps.get(key)?.seq ?? 0) + 1;
+        stamps.set(key, { seq, tab });
+        const first = unsent.size === 0;
+        unsent.set(key, [value, seq]);
+        if (!first) return;
+        queueMicrotask(() => {
+            if (closed) return;
+            const message: BroadcastSyncMessage = {
+                tab,
+                changes: Array.from(unsent, ([k, [v, s]]) => [k, v, s]),
+            };
+            unsent.clear();
+            bc.postMessage(message);
+        });
+    };
+
+    const wrapped: BroadcastSyncStorage = {
+        getItem(key: string): string | null {
+            return storage.getItem(key);
+        },
+        setItem(key: string, value: string): void {
+            storage.setItem(key, value);
+            announce(key, value);
+        },
+        removeItem(key: string): void {
+            storage.removeItem(key);
+            announce(key, null);
+        },
+        onExternalChange(callback: (changedKeys?: string[]) => void): () => void {
+            listeners.add(callback);
+            const unsubscribeInner = storage.onExternalChange?.(callback);
+            return () => {
+                listeners.delete(callback);
+                unsubscribeInner?.();
+            };
+        },
+        close(): void {
+            if (closed) return;
+            closed = true;
+            unsent.clear();
+            bc?.close();
+        },
+    };
+    // Enumeration is optional; only expose it when the wrapped storage does.
+    if (typeof storage.key === "function") {
+        wrapped.key = (index: number) => storage.key!(index);
+    }
+    if (typeof storage.length === "number") {
+        Object.defineProperty(wrapped, "length", { get: () => storage.length, enumerable: true });
+    }
+    return wrapped;
+}
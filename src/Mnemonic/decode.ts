@@ -0,0 +1,492 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+/**
+ * @fileoverview Schema-aware decoding of stored envelopes.
+ *
+ * This module turns a raw stored string into a decoded value by parsing the
+ * envelope, validating the payload against its schema, and running
+ * migrations or autoschema inference. It is shared by `MnemonicProvider`,
+ * which memoizes the results per key, and by the hooks, which apply their
+ * own default values to failed or missing reads.
+ */
+
+import { CodecError } from "./codecs";
+import { SchemaError, type MnemonicEnvelope } from "./schema";
+import {
+    applyJsonSchemaDefaults,
+    compileSchema,
+    inferJsonSchema,
+    mergeInferredSchemas,
+    type InferJsonSchemaOptions,
+    type JsonSchema,
+    type JsonSchemaValidationError,
+} from "./json-schema";
+import { isStandardSchema, standardIssuesToErrors } from "./standard-schema";
+import type { AutoschemaOptions, Codec, KeySchema, MigrationPath, SchemaMode, SchemaRegistry } from "./types";
+
+/**
+ * Outcome of decoding a raw stored string, before a default value is applied.
+ *
+ * - `ok: true` — The stored value decoded successfully. `rewriteRaw` is set
+ *   when the value should be written back in an upgraded form (after a
+ *   migration, autoschema inference, or filling in schema defaults), and `pendingSchema` when an inferred
+ *   schema should be registered.
+ * - `ok: false` — The key is absent, or `error` explains why decoding failed.
+ *
+ * `expiresAt` is copied from the envelope when present.
+ *
+ * @template T - The decoded value type
+ */
+export type DecodeOutcome<T> =
+    | { ok: true; value: T; rewriteRaw?: string; pendingSchema?: KeySchema; expiresAt?: number }
+    | { ok: false; error?: CodecError | SchemaError; expiresAt?: number };
+
+/**
+ * Registry lookups for a single key.
+ */
+export type SchemaLookup = {
+    getSchema(version: number): KeySchema | undefined;
+    getLatestSchema(): KeySchema | undefined;
+    getMigrationPath(fromVersion: number, toVersion: number): MigrationPath | null;
+};
+
+/**
+ * Everything {@link decodeRaw} needs besides the raw string.
+ */
+export type DecodeContext<T> = {
+    key: string;
+    codec: Codec<T>;
+    schemaMode: SchemaMode;
+    schemaRegistry?: SchemaRegistry;
+    lookup: SchemaLookup;
+    /** Write back payloads that had schema defaults filled in. */
+    persistDefaults?: boolean;
+    /** Strictness of schemas inferred in autoschema mode. */
+    inferOptions?: InferJsonSchemaOptions;
+};
+
+/**
+ * Creates registry lookups for one key.
+ *
+ * With `memoize`, results are cached for the lifetime of the returned object.
+ * Autoschema mode registers schemas at runtime, so callers disable memoizing
+ * there.
+ *
+ * @param key - Unprefixed key
+ * @param schemaRegistry - Registry to query, if any
+ * @param memoize - Whether lookups may be cached
+ * @returns Lookup functions for the key
+ */
+export function createSchemaLookup(
+    key: string,
+    schemaRegistry: SchemaRegistry | undefined,
+    memoize: boolean,
+): SchemaLookup {
+    if (!schemaRegistry) {
+        return { getSchema: () => undefined, getLatestSchema: () => undefined, getMigrationPath: () => null };
+    }
+    if (!memoize) {
+        return {
+            getSchema: (version) => schemaRegistry.getSchema(key, version),
+            getLatestSchema: () => schemaRegistry.getLatestSchema(key),
+            getMigrationPath: (from, to) => schemaRegistry.getMigrationPath(key, from, to) ?? null,
+        };
+    }
+    let latestSchema: KeySchema | undefined;
+    let latestSchemaSet = false;
+    const schemaByVersion = new Map<number, KeySchema | undefined>();
+    const migrationPaths = new Map<string, MigrationPath | null>();
+    return {
+        getSchema(version) {
+            if (!schemaByVersion.has(version)) schemaByVersion.set(version, schemaRegistry.getSchema(key, version));
+            return schemaByVersion.get(version);
+        },
+        getLatestSchema() {
+            if (!latestSchemaSet) {
+                latestSchema = schemaRegistry.getLatestSchema(key);
+                latestSchemaSet = true;
+            }
+            return latestSchema;
+        },
+        getMigrationPath(from, to) {
+            const cacheKey = `${from}->${to}`;
+            if (!migrationPaths.has(cacheKey)) {
+                migrationPaths.set(cacheKey, schemaRegistry.getMigrationPath(key, from, to) ?? null);
+            }
+            return migrationPaths.get(cacheKey) ?? null;
+        },
+    };
+}
+
+/** One `$ref` resolver per registry, so compiled validators stay cached. */
+const registryResolvers = new WeakMap<SchemaRegistry, (uri: string) => JsonSchema | undefined>();
+
+/**
+ * Resolves `$ref` documents against a schema registry: `"key"` names the
+ * latest schema registered for a key and `"key@2"` a specific version.
+ * Standard Schema validators cannot be referenced.
+ */
+function registryResolver(schemaRegistry: SchemaRegistry): (uri: string) => JsonSchema | undefined {
+    let resolver = registryResolvers.get(schemaRegistry);
+    if (!resolver) {
+        resolver = (uri) => {
+            const pinned = /^(.*)@(\d+)$/.exec(uri);
+            const keySchema = pinned
+                ? schemaRegistry.getSchema(pinned[1]!, Number(pinned[2]))
+                : schemaRegistry.getLatestSchema(uri);
+            return keySchema && !isStandardSchema(keySchema.schema) ? keySchema.schema : undefined;
+        };
+        registryResolvers.set(schemaRegistry, resolver);
+    }
+    return resolver;
+}
+
+/**
+ * Validate a value against a key schema, throwing SchemaError on failure.
+ * The thrown error carries the individual validation failures.
+ *
+ * JSON Schemas return the value unchanged. Standard Schema validators
+ * return their output, which may differ from the input when the validator
+ * transforms it.
+ *
+ * `$ref`s naming another document (`"key"` or `"key@version"`) resolve to
+ * that key's schema in `schemaRegistry`.
+ *
+ * @param key - Unprefixed key, used in the error message
+ * @param value - Value to validate
+ * @param keySchema - Schema to validate against
+ * @param schemaRegistry - Registry that resolves cross-schema `$ref`s, if any
+ * @returns The validated value
+ * @throws {SchemaError} With code `TYPE_MISMATCH` when validation fails or
+ *   a Standard Schema validator is asynchronous
+ */
+export function validateAgainstSchema(
+    key: string,
+    value: unknown,
+    keySchema: KeySchema,
+    schemaRegistry?: SchemaRegistry,
+): unknown {
+    const details = { key, version: keySchema.version };
+    let errors: JsonSchemaValidationError[];
+    if (isStandardSchema(keySchema.schema)) {
+        const { validate, vendor } = keySchema.schema["~standard"];
+        const result = validate(value);
+        if ("then" in result) {
+            throw new SchemaError(
+                "TYPE_MISMATCH",
+                `Schema for key "${key}" validates asynchronously; only synchronous validators are supported`,
+                undefined,
+                details,
+            );
+        }
+        if (!result.issues) return result.value;
+        errors = standardIssuesToErrors(result.issues, vendor);
+    } else {
+        const validate = schemaRegistry
+            ? compileSchema(keySchema.schema, { resolveSchema: registryResolver(schemaRegistry) })
+            : compileSchema(keySchema.schema);
+        errors = validate(value);
+        if (errors.length === 0) return value;
+    }
+    const message = errors.map((e) => `${e.path || "/"}: ${e.message}`).join("; ");
+    throw new SchemaError("TYPE_MISMATCH", `Schema validation failed for key "${key}": ${message}`, undefined, {
+        ...details,
+        validationErrors: errors,
+    });
+}
+
+/**
+ * Fill a payload's missing properties from its JSON Schema's `default`
+ * values. Standard Schema validators apply their own defaults, so their
+ * payloads are returned unchanged.
+ */
+function withSchemaDefaults(value: unknown, keySchema: KeySchema, schemaRegistry: SchemaRegistry | undefined): unknown {
+    if (isStandardSchema(keySchema.schema)) return value;
+    return applyJsonSchemaDefaults(
+        value,
+        keySchema.schema,
+        schemaRegistry ? { resolveSchema: registryResolver(schemaRegistry) } : {},
+    );
+}
+
+/**
+ * Infer the next schema version for a key whose latest schema rejected a
+ * write, following the autoschema evolution policy. Nothing is registered;
+ * see {@link registerEvolvedSchema}.
+ *
+ * @param key - Unprefixed key being written
+ * @param value - The rejected value, in its stored form
+ * @param latest - The key's latest schema, which must be a JSON Schema
+ * @param options - The provider's autoschema options; `evolution` must be set
+ * @returns The next schema version
+ */
+export function evolveSchema(
+    key: string,
+    value: unknown,
+    latest: KeySchema & { schema: JsonSchema },
+    options: AutoschemaOptions,
+): KeySchema {
+    const inferred = inferJsonSchema(value, options.inference);
+    return {
+        key,
+        version: latest.version + 1,
+        schema: options.evolution === "replace" ? inferred : mergeInferredSchemas(latest.schema, inferred),
+    };
+}
+
+/**
+ * Register a schema produced by {@link evolveSchema}, together with an
+ * identity migration from the version it evolved from.
+ *
+ * @param next - The evolved schema
+ * @param fromVersion - The version `next` evolved from
+ * @param schemaRegistry - Registry implementing `registerSchema` and `registerMigration`
+ * @throws {SchemaError} With code `SCHEMA_REGISTRATION_CONFLICT` when the
+ *   registry already holds a different schema for the next version
+ */
+export function registerEvolvedSchema(next: KeySchema, fromVersion: number, schemaRegistry: SchemaRegistry): void {
+    schemaRegistry.registerSchema?.(next);
+    schemaRegistry.registerMigration?.({
+        key: next.key,
+        fromVersion,
+        toVersion: next.version,
+        migrate: (stored) => stored,
+    });
+}
+
+/**
+ * Parse a raw stored string into an envelope.
+ */
+function parseEnvelope(
+    key: string,
+    rawText: string,
+): { ok: true; envelope: MnemonicEnvelope } | { ok: false; error: SchemaError } {
+    try {
+        const parsed = JSON.parse(rawText) as MnemonicEnvelope;
+        if (
+            typeof parsed !== "object" ||
+            parsed == null ||
+            !Number.isInteger(parsed.version) ||
+            parsed.version < 0 ||
+            !Object.prototype.hasOwnProperty.call(parsed, "payload") ||
+            (parsed.expiresAt !== undefined && !Number.isFinite(parsed.expiresAt))
+        ) {
+            return { ok: false, error: new SchemaError("INVALID_ENVELOPE", `Invalid envelope for key "${key}"`) };
+        }
+        return { ok: true, envelope: parsed };
+    } catch (err) {
+        return {
+            ok: false,
+            error: new SchemaError("INVALID_ENVELOPE", `Invalid envelope for key "${key}"`, err),
+        };
+    }
+}
+
+/**
+ * Decode a string payload using a codec (for codec-managed / no-schema keys).
+ */
+function decodeStringPayload<V>(key: string, payload: unknown, codec: { decode: (encoded: string) => V }): V {
+    if (typeof payload !== "string") {
+        throw new SchemaError("INVALID_ENVELOPE", `Envelope payload must be a string for codec-managed key "${key}"`);
+    }
+    try {
+        return codec.decode(payload);
+    } catch (err) {
+        throw err instanceof CodecError ? err : new CodecError(`Codec decode failed for key "${key}"`, err);
+    }
+}
+
+/**
+ * Decode a parsed envelope, applying schema validation and migrations.
+ */
+function decodeEnvelope<T>(
+    envelope: MnemonicEnvelope,
+    { key, codec, schemaMode, schemaRegistry, lookup, persistDefaults = false, inferOptions }: DecodeContext<T>,
+): DecodeOutcome<T> {
+    const failed = (error: CodecError | SchemaError): DecodeOutcome<T> => ({ ok: false, error });
+
+    // Read-time rewrites keep the stored expiry.
+    const expiry = envelope.expiresAt !== undefined ? { expiresAt: envelope.expiresAt } : {};
+
+    const schemaForVersion = lookup.getSchema(envelope.version);
+    const latestSchema = lookup.getLatestSchema();
+
+    // Strict mode always requires schema for the stored version.
+    if (schemaMode === "strict" && !schemaForVersion) {
+        return failed(new SchemaError("SCHEMA_NOT_FOUND", `No schema for key "${key}" v${envelope.version}`));
+    }
+
+    // Autoschema only infers when no schema exists yet for this key.
+    if (schemaMode === "autoschema" && !schemaForVersion) {
+        if (latestSchema) {
+            return failed(new SchemaError("SCHEMA_NOT_FOUND", `No schema for key "${key}" v${envelope.version}`));
+        }
+        if (!schemaRegistry || typeof schemaRegistry.registerSchema !== "function") {
+            return failed(
+                new SchemaError(
+                    "MODE_CONFIGURATION_INVALID",
+                    `Autoschema mode requires schema registry registration for key "${key}"`,
+                ),
+            );
+        }
+        try {
+            // Payload may be a codec string or already a JSON value (seeded data).
+            const decoded =
+                typeof envelope.payload === "string"
+                    ? decodeStringPayload<T>(key, envelope.payload, codec)
+                    : (envelope.payload as T);
+            const inferredJsonSchema = inferJsonSchema(decoded, inferOptions);
+            const inferred: KeySchema = {
+                key,
+                version: 1,
+                schema: inferredJsonSchema,
+            };
+            // Rewrite as a schema-managed envelope (payload is JSON value directly)
+            const rewriteEnvelope: MnemonicEnvelope = {
+                version: inferred.version,
+                payload: decoded,
+                ...expiry,
+            };
+            return {
+                ok: true,
+                value: decoded,
+                pendingSchema: inferred,
+                rewriteRaw: JSON.stringify(rewriteEnvelope),
+            };
+        } catch (err) {
+            const typedErr =
+                err instanceof SchemaError || err instanceof CodecError
+                    ? err
+                    : new SchemaError("TYPE_MISMATCH", `Autoschema inference failed for key "${key}"`, err);
+            return failed(typedErr);
+        }
+    }
+
+    // No schema found: default mode ignores version and uses hook codec.
+    if (!schemaForVersion) {
+        // If payload is already a non-string JSON value (e.g. seeded data,
+        // or previously schema-managed data whose schema was removed),
+        // return it directly without codec decoding.
+        if (typeof envelope.payload !== "string") {
+            return { ok: true, value: envelope.payload as T };
+        }
+        try {
+            return { ok: true, value: decodeStringPayload<T>(key, envelope.payload, codec) };
+        } catch (err) {
+            const typedErr =
+                err instanceof SchemaError || err instanceof CodecError
+                    ? err
+                    : new CodecError(`Codec decode failed for key "${key}"`, err);
+            return failed(typedErr);
+        }
+    }
+
+    // Schema exists for stored version.
+    // Payload is a JSON value directly (no codec decoding needed).
+    // Defaults are filled before validating, so required properties with a
+    // default accept payloads stored before the property existed.
+    const current = withSchemaDefaults(envelope.payload, schemaForVersion, schemaRegistry);
+    let validated: unknown;
+    try {
+        validated = validateAgainstSchema(key, current, schemaForVersion, schemaRegistry);
+    } catch (err) {
+        const typedErr =
+            err instanceof SchemaError || err instanceof CodecError
+                ? err
+                : new SchemaError("TYPE_MISMATCH", `Schema decode failed for key "${key}"`, err);
+        return failed(typedErr);
+    }
+
+    // No migration needed.
+    if (!latestSchema || envelope.version >= latestSchema.version) {
+        if (persistDefaults && current !== envelope.payload) {
+            const rewriteEnvelope: MnemonicEnvelope = { version: envelope.version, payload: current, ...expiry };
+            return { ok: true, value: validated as T, rewriteRaw: JSON.stringify(rewriteEnvelope) };
+        }
+        return { ok: true, value: validated as T };
+    }
+
+    const path = lookup.getMigrationPath(envelope.version, latestSchema.version);
+    if (!path) {
+        return failed(
+            new SchemaError(
+                "MIGRATION_PATH_NOT_FOUND",
+                `No migration path for key "${key}" from v${envelope.version} to v${latestSchema.version}`,
+            ),
+        );
+    }
+
+    try {
+        // Migrations operate on stored payloads, not on validator output.
+        let migrated = current;
+        for (const step of path) {
+            migrated = step.migrate(migrated);
+        }
+        migrated = withSchemaDefaults(migrated, latestSchema, schemaRegistry);
+        const value = validateAgainstSchema(key, migrated, latestSchema, schemaRegistry);
+        // Rewrite as schema-managed envelope (payload is JSON value)
+        const rewriteEnvelope: MnemonicEnvelope = {
+            version: latestSchema.version,
+            payload: migrated,
+            ...expiry,
+        };
+        return {
+            ok: true,
+            value: value as T,
+            rewriteRaw: JSON.stringify(rewriteEnvelope),
+        };
+    } catch (err) {
+        const typedErr =
+            err instanceof SchemaError || err instanceof CodecError
+                ? err
+                : new SchemaError("MIGRATION_FAILED", `Migration failed for key "${key}"`, err);
+        return failed(typedErr);
+    }
+}
+
+/**
+ * Decode a raw stored string.
+ *
+ * Expiry is reported but not enforced, so outcomes stay valid as time passes
+ * and can be memoized; see {@link readOutcome}.
+ *
+ * @param rawText - Raw stored string, or null when the key is absent
+ * @param context - Key, codec, and schema configuration
+ * @returns The decode outcome
+ */
+export function decodeRaw<T>(rawText: string | null, context: DecodeContext<T>): DecodeOutcome<T> {
+    if (rawText == null) return { ok: false };
+
+    const parsed = parseEnvelope(context.key, rawText);
+    if (!parsed.ok) return { ok: false, error: parsed.error };
+
+    const { expiresAt } = parsed.envelope;
+    const outcome = decodeEnvelope(parsed.envelope, context);
+    return expiresAt === undefined ? outcome : { ...outcome, expiresAt };
+}
+
+/**
+ * Identifies a read error by its class, code, and message, so the same
+ * failure decoded again (for example through another codec instance) can
+ * be reported once.
+ *
+ * @param error - A read-time decode, validation, or migration error
+ * @returns A string equal for errors describing the same failure
+ */
+export function readErrorSignature(error: Error): string {
+    const code = (error as { code?: unknown }).code;
+    return `${error.name}:${typeof code === "string" ? code : ""}:${error.message}`;
+}
+
+/**
+ * Treats an expired outcome as an absent key.
+ *
+ * @param outcome - Outcome from {@link decodeRaw}
+ * @param now - Current time in milliseconds since the Unix epoch
+ * @returns The outcome, or an absent-key outcome carrying `expiresAt`
+ */
+export function readOutcome<T>(outcome: DecodeOutcome<T>, now: number): DecodeOutcome<T> {
+    if (outcome.expiresAt === undefined || outcome.expiresAt > now) return outcome;
+    return { ok: false, expiresAt: outcome.expiresAt };
+}
@@ -0,0 +1,305 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { MnemonicProvider } from "./provider";
+import { useMnemonicHistory } from "./history";
+import { SchemaError } from "./schema";
+import { createSchemaRegistry } from "./schema-registry";
+import type { StorageLike, UseMnemonicHistoryOptions } from "./types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createMockStorage(): StorageLike & { store: Map<string, string> } {
+    const store = new Map<string, string>();
+    return {
+        store,
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            store.set(key, value);
+        },
+        removeItem: (key: string) => {
+            store.delete(key);
+        },
+    };
+}
+
+function env(payload: string, version = 0): string {
+    return JSON.stringify({ version, payload });
+}
+
+type HistoryResult<T> = ReturnType<typeof useMnemonicHistory<T>>;
+
+/** Renders useMnemonicHistory inside a provider; `count` instances share the provider. */
+function renderHistory<T>(
+    storage: StorageLike,
+    options: UseMnemonicHistoryOptions<T>,
+    providerProps: Partial<React.ComponentProps<typeof MnemonicProvider>> = {},
+    count = 1,
+): { current: HistoryResult<T> }[] {
+    const refs = Array.from({ length: count }, () => ({ current: undefined as unknown as HistoryResult<T> }));
+    function Probe({ index }: { index: number }) {
+        refs[index]!.current = useMnemonicHistory<T>("doc", options);
+        return null;
+    }
+    render(
+        <MnemonicProvider namespace="ns" storage={storage} {...providerProps}>
+            {refs.map((_, i) => (
+                <Probe key={i} index={i} />
+            ))}
+        </MnemonicProvider>,
+    );
+    return refs;
+}
+
+// ---------------------------------------------------------------------------
+// Undo / redo
+// ---------------------------------------------------------------------------
+
+describe("useMnemonicHistory", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    it("starts with empty history", () => {
+        const [result] = renderHistory(storage, { defaultValue: "" });
+        expect(result!.current.value).toBe("");
+        expect(result!.current.canUndo).toBe(false);
+        expect(result!.current.canRedo).toBe(false);
+    });
+
+    it("undoes and redoes writes", () => {
+        const [result] = renderHistory(storage, { defaultValue: "" });
+        act(() => result!.current.set("a"));
+        act(() => result!.current.set("b"));
+        expect(result!.current.canUndo).toBe(true);
+
+        act(() => result!.current.undo());
+        expect(result!.current.value).toBe("a");
+        expect(result!.current.canRedo).toBe(true);
+
+        act(() => result!.current.undo());
+        expect(result!.current.value).toBe("");
+        expect(result!.current.canUndo).toBe(false);
+        expect(storage.store.has("ns.doc")).toBe(false);
+
+        act(() => result!.current.redo());
+        act(() => result!.current.redo());
+        expect(result!.current.value).toBe("b");
+        expect(result!.current.canRedo).toBe(false);
+        expect(storage.store.get("ns.doc")).toBe(env(JSON.stringify("b")));
+    });
+
+    it("supports updater functions and back-to-back calls", () => {
+        const [result] = renderHistory(storage, { defaultValue: 0 });
+        act(() => {
+            result!.current.set((n) => n + 1);
+            result!.current.set((n) => n + 1);
+            result!.current.undo();
+        });
+        expect(result!.current.value).toBe(1);
+    });
+
+    it("clears the redo stack on a new write", () => {
+        const [result] = renderHistory(storage, { defaultValue: "" });
+        act(() => result!.current.set("a"));
+        act(() => result!.current.undo());
+        act(() => result!.current.set("b"));
+        expect(result!.current.canRedo).toBe(false);
+    });
+
+    it("records reset and remove", () => {
+        storage.store.set("ns.doc", env(JSON.stringify("stored")));
+        const [result] = renderHistory(storage, { defaultValue: "default" });
+        act(() => result!.current.reset());
+        act(() => result!.current.remove());
+        expect(result!.current.value).toBe("default");
+        expect(storage.store.has("ns.doc")).toBe(false);
+
+        act(() => result!.current.undo());
+        expect(storage.store.get("ns.doc")).toBe(env(JSON.stringify("default")));
+        act(() => result!.current.undo());
+        expect(result!.current.value).toBe("stored");
+    });
+
+    it("ignores writes that do not change the stored value", () => {
+        const [result] = renderHistory(storage, { defaultValue: "" });
+        act(() => result!.current.set("a"));
+        act(() => result!.current.set("a"));
+        act(() => result!.current.undo());
+        expect(result!.current.value).toBe("");
+    });
+
+    it("limits history to the configured depth", () => {
+        const [result] = renderHistory(storage, { defaultValue: 0, depth: 2 });
+        for (let i = 1; i <= 5; i++) act(() => result!.current.set(i));
+        act(() => result!.current.undo());
+        act(() => result!.current.undo());
+        expect(result!.current.value).toBe(3);
+        expect(result!.current.canUndo).toBe(false);
+    });
+
+    it("records nothing with depth 0", () => {
+        const [result] = renderHistory(storage, { defaultValue: 0, depth: 0 });
+        act(() => result!.current.set(1));
+        expect(result!.current.value).toBe(1);
+        expect(result!.current.canUndo).toBe(false);
+    });
+
+    it("clearHistory drops all entries", () => {
+        const [result] = renderHistory(storage, { defaultValue: "" });
+        act(() => result!.current.set("a"));
+        act(() => result!.current.clearHistory());
+        expect(result!.current.canUndo).toBe(false);
+        expect(result!.current.value).toBe("a");
+    });
+
+    it("undo returns to the value a write replaced, including external changes", () => {
+        const [editor, other] = renderHistory<string>(storage, { defaultValue: "" }, {}, 2);
+        act(() => editor!.current.set("mine"));
+        // Another component (or tab) changes the value.
+        act(() => other!.current.set("theirs"));
+        act(() => editor!.current.set("mine again"));
+
+        act(() => editor!.current.undo());
+        expect(editor!.current.value).toBe("theirs");
+    });
+
+    it("leaves history unchanged when a restored value fails validation", () => {
+        const onError = vi.fn();
+        const registry = createSchemaRegistry({
+            schemas: [{ key: "doc", version: 1, schema: { type: "string", minLength: 3 } }],
+        });
+        storage.store.set("ns.doc", JSON.stringify({ version: 1, payload: "abc" }));
+        // An entry recorded before the schema required three characters.
+        storage.store.set(
+            "ns.doc:history",
+            JSON.stringify({ version: 0, payload: { past: [env(JSON.stringify("x"))], future: [] } }),
+        );
+        const [result] = renderHistory<string>(
+            storage,
+            { defaultValue: "", onError, persistHistory: true },
+            { schemaRegistry: registry },
+        );
+
+        act(() => result!.current.undo());
+
+        expect(result!.current.error).toBeInstanceOf(SchemaError);
+        expect(onError).toHaveBeenCalledWith(expect.any(SchemaError));
+        expect(result!.current.value).toBe("abc");
+        expect(result!.current.canUndo).toBe(true);
+        expect(result!.current.canRedo).toBe(false);
+    });
+
+    /** Seeds a stored value and one persisted undo entry. */
+    function seedUndoEntry(entry: string) {
+        storage.store.set("ns.doc", env(JSON.stringify("current")));
+        storage.store.set("ns.doc:history", JSON.stringify({ version: 0, payload: { past: [entry], future: [] } }));
+    }
+
+    it("writes nothing when a restored entry does not decode", () => {
+        const onError = vi.fn();
+        seedUndoEntry("not json");
+        const [result] = renderHistory<string>(storage, { defaultValue: "default", onError, persistHistory: true });
+
+        act(() => result!.current.undo());
+
+        expect(result!.current.error).toBeInstanceOf(SchemaError);
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(storage.store.get("ns.doc")).toBe(env(JSON.stringify("current")));
+        expect(result!.current.canUndo).toBe(true);
+        expect(result!.current.canRedo).toBe(false);
+    });
+
+    it("writes nothing when a restored entry has expired", () => {
+        const onError = vi.fn();
+        seedUndoEntry(JSON.stringify({ version: 0, payload: JSON.stringify("old"), expiresAt: Date.now() - 1 }));
+        const [result] = renderHistory<string>(storage, { defaultValue: "default", onError, persistHistory: true });
+
+        act(() => result!.current.undo());
+
+        expect(result!.current.error).toBeInstanceOf(Error);
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(result!.current.value).toBe("current");
+        expect(storage.store.get("ns.doc")).toBe(env(JSON.stringify("current")));
+        expect(result!.current.canUndo).toBe(true);
+    });
+
+    it("keeps a restored entry's expiry instead of applying ttl again", () => {
+        const expiresAt = Date.now() + 60_000;
+        seedUndoEntry(JSON.stringify({ version: 0, payload: JSON.stringify("old"), expiresAt }));
+        const [result] = renderHistory<string>(storage, { defaultValue: "", ttl: 1000, persistHistory: true });
+
+        act(() => result!.current.undo());
+
+        expect(result!.current.value).toBe("old");
+        expect(JSON.parse(storage.store.get("ns.doc")!).expiresAt).toBe(expiresAt);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Persisted history
+// ---------------------------------------------------------------------------
+
+describe("useMnemonicHistory with persistHistory", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    it("stores the stacks under the history key", () => {
+        const [result] = renderHistory(storage, { defaultValue: "", persistHistory: true });
+        act(() => result!.current.set("a"));
+        expect(JSON.parse(storage.store.get("ns.doc:history")!)).toEqual({
+            version: 0,
+            payload: { past: [null], future: [] },
+        });
+    });
+
+    it("supports a custom history key", () => {
+        const [result] = renderHistory(storage, { defaultValue: "", persistHistory: true, historyKey: "doc-undo" });
+        act(() => result!.current.set("a"));
+        expect(storage.store.has("ns.doc-undo")).toBe(true);
+    });
+
+    it("restores history after remounting", () => {
+        const [first] = renderHistory(storage, { defaultValue: "", persistHistory: true });
+        act(() => first!.current.set("a"));
+        act(() => first!.current.set("b"));
+
+        const [second] = renderHistory(storage, { defaultValue: "", persistHistory: true });
+        expect(second!.current.canUndo).toBe(true);
+        act(() => second!.current.undo());
+        expect(second!.current.value).toBe("a");
+    });
+
+    it("shares history between hooks on the same key", () => {
+        const [a, b] = renderHistory<string>(storage, { defaultValue: "", persistHistory: true }, {}, 2);
+        act(() => a!.current.set("x"));
+        expect(b!.current.canUndo).toBe(true);
+        act(() => b!.current.undo());
+        expect(a!.current.value).toBe("");
+        expect(a!.current.canRedo).toBe(true);
+    });
+
+    it("removes the history key when the stacks are empty", () => {
+        const [result] = renderHistory(storage, { defaultValue: "", persistHistory: true });
+        act(() => result!.current.set("a"));
+        act(() => result!.current.clearHistory());
+        expect(storage.store.has("ns.doc:history")).toBe(false);
+    });
+
+    it("treats corrupt persisted history as empty", () => {
+        storage.store.set("ns.doc:history", "not json");
+        const [result] = renderHistory(storage, { defaultValue: "", persistHistory: true });
+        expect(result!.current.canUndo).toBe(false);
+        act(() => result!.current.set("a"));
+        expect(result!.current.canUndo).toBe(true);
+    });
+});
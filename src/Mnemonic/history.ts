@@ -0,0 +1,317 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+/**
+ * @fileoverview Undo/redo history for persisted keys.
+ *
+ * This module exports the `useMnemonicHistory` hook, which wraps
+ * `useMnemonicKey` and records the stored value before each write so it
+ * can be restored with `undo` and re-applied with `redo`.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { useMnemonic } from "./provider";
+import { useMnemonicKeyState } from "./use";
+import { resolveMnemonicKey } from "./key-definition";
+import type {
+    MnemonicKeyDescriptor,
+    MnemonicRegisteredValue,
+    RegisteredKey,
+    UnregisteredKey,
+    UseMnemonicHistoryOptions,
+} from "./types";
+
+/**
+ * Undo and redo stacks, oldest entry first.
+ *
+ * Entries are the raw strings the key held in storage, or `null` when the
+ * key was absent. Restoring an entry decodes it and writes it back through
+ * the hook's codec and schema validation.
+ */
+type HistoryStacks = {
+    past: (string | null)[];
+    future: (string | null)[];
+};
+
+const EMPTY_STACKS: HistoryStacks = { past: [], future: [] };
+
+/**
+ * Tests whether a value is a list of history entries.
+ */
+function isEntryList(value: unknown): value is (string | null)[] {
+    return Array.isArray(value) && value.every((e) => e === null || typeof e === "string");
+}
+
+/**
+ * Parses persisted stacks from their stored envelope. Missing or corrupt
+ * data reads as empty history.
+ */
+function parseStacks(raw: string | null): HistoryStacks {
+    if (raw == null) return EMPTY_STACKS;
+    try {
+        const payload = (JSON.parse(raw) as { payload?: Partial<HistoryStacks> } | null)?.payload;
+        if (payload && isEntryList(payload.past) && isEntryList(payload.future)) {
+            return { past: payload.past, future: payload.future };
+        }
+    } catch {
+        // Fall through to empty history.
+    }
+    return EMPTY_STACKS;
+}
+
+/**
+ * Value returned by {@link useMnemonicHistory}.
+ */
+type MnemonicHistoryResult<T> = ReturnType<typeof useMnemonicKeyState<T>>["result"] & {
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    clearHistory: () => void;
+};
+
+/**
+ * Undo/redo for a key defined with `defineMnemonicKey`.
+ *
+ * @template T - The TypeScript type of the stored value
+ *
+ * @param descriptor - Key and options shared by every hook using the key
+ * @param overrides - History settings and options for this hook only
+ *
+ * @returns The {@link useMnemonicKey} result plus `undo`, `redo`, `canUndo`,
+ *   `canRedo`, and `clearHistory`
+ *
+ * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @see {@link defineMnemonicKey} - Creating descriptors
+ */
+export function useMnemonicHistory<T>(
+    descriptor: MnemonicKeyDescriptor<T>,
+    overrides?: Partial<UseMnemonicHistoryOptions<T>>,
+): MnemonicHistoryResult<T>;
+/**
+ * Undo/redo for a key in the schema registry registered on
+ * `MnemonicRegister`, with the value type inferred from the key's latest
+ * JSON Schema.
+ *
+ * @template K - A key of the registered schema registry
+ *
+ * @param key - The storage key (unprefixed, namespace is applied automatically)
+ * @param options - Key options plus history depth and persistence settings
+ *
+ * @returns The {@link useMnemonicKey} result plus `undo`, `redo`, `canUndo`,
+ *   `canRedo`, and `clearHistory`
+ *
+ * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @see {@link MnemonicRegister} - Registering a schema registry for inference
+ */
+export function useMnemonicHistory<const K>(
+    key: RegisteredKey<K>,
+    options: UseMnemonicHistoryOptions<MnemonicRegisteredValue<K>>,
+): MnemonicHistoryResult<MnemonicRegisteredValue<K>>;
+/**
+ * React hook for persistent state with undo and redo.
+ *
+ * Works like {@link useMnemonicKey} and accepts the same options. Every
+ * `set`, `reset`, and `remove` that changes the stored value records the
+ * previous value, up to `depth` entries. `undo` restores the previous value
+ * and `redo` re-applies an undone one. A new write clears the redo stack.
+ *
+ * History always records the value as it is in storage at the moment of
+ * the write, so changes that arrive from other components or tabs are never
+ * lost: undoing a local write returns to whatever value it replaced.
+ *
+ * Restored values are written through the same codec, schema validation,
+ * and write-time migrations as `set`, and keep the expiry they were stored
+ * with. If a restored value no longer decodes (it is invalid, has expired,
+ * or has no migration path) or fails validation, nothing is written,
+ * `error` is set, and the history is left unchanged.
+ *
+ * @template T - The TypeScript type of the stored value
+ * @template K - The storage key, inferred. Keys of a registered schema
+ *   registry are rejected unless `T` is given explicitly.
+ *
+ * @param key - The storage key (unprefixed, namespace is applied automatically)
+ * @param options - Key options plus history depth and persistence settings
+ *
+ * @returns The {@link useMnemonicKey} result plus `undo`, `redo`, `canUndo`,
+ *   `canRedo`, and `clearHistory`
+ *
+ * @example
+ * ```tsx
+ * function TitleEditor() {
+ *   const { value, set, undo, redo, canUndo, canRedo } = useMnemonicHistory("title", {
+ *     defaultValue: "",
+ *     depth: 50,
+ *   });
+ *
+ *   return (
+ *     <>
+ *       <input value={value} onChange={(e) => set(e.target.value)} />
+ *       <button onClick={undo} disabled={!canUndo}>Undo</button>
+ *       <button onClick={redo} disabled={!canRedo}>Redo</button>
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @see {@link useMnemonicKey} - The underlying hook
+ * @see {@link UseMnemonicHistoryOptions} - History configuration
+ */
+export function useMnemonicHistory<T, K extends string = string>(
+    key: UnregisteredKey<K>,
+    options: UseMnemonicHistoryOptions<T>,
+): MnemonicHistoryResult<T>;
+export function useMnemonicHistory<T>(
+    keyOrDescriptor: string | MnemonicKeyDescriptor<T>,
+    historyOptions?: Partial<UseMnemonicHistoryOptions<T>>,
+): MnemonicHistoryResult<T> {
+    const { key, options } = resolveMnemonicKey(keyOrDescriptor, historyOptions);
+    const { depth = 100, persistHistory = false, historyKey = `${key}:history`, ...keyOptions } = options;
+    const api = useMnemonic();
+    const { result, decode, write, restore: restoreRaw } = useMnemonicKeyState<T>(key, keyOptions);
+
+    /**
+     * In-memory stacks used when history is not persisted. The ref holds the
+     * latest stacks for back-to-back calls; the state triggers re-renders.
+     */
+    const memoryRef = useRef<HistoryStacks>(EMPTY_STACKS);
+    const [memoryStacks, setMemoryStacks] = useState<HistoryStacks>(EMPTY_STACKS);
+
+    // In-memory history belongs to a single key.
+    useEffect(() => {
+        memoryRef.current = EMPTY_STACKS;
+        setMemoryStacks(EMPTY_STACKS);
+    }, [key]);
+
+    const persistedRaw = useSyncExternalStore(
+        (listener) => (persistHistory ? api.subscribeRaw(historyKey, listener) : () => {}),
+        () => (persistHistory ? api.getRawSnapshot(historyKey) : null),
+        () => null,
+    );
+    const persistedStacks = useMemo(() => parseStacks(persistedRaw), [persistedRaw]);
+    const stacks = persistHistory ? persistedStacks : memoryStacks;
+
+    // Persisted history follows the value across tabs.
+    useEffect(() => {
+        if (!persistHistory || !keyOptions.listenCrossTab) return;
+        return api.subscribeCrossTab(historyKey);
+    }, [api, historyKey, persistHistory, keyOptions.listenCrossTab]);
+
+    const readStacks = useCallback(
+        (): HistoryStacks => (persistHistory ? parseStacks(api.getRawSnapshot(historyKey)) : memoryRef.current),
+        [api, historyKey, persistHistory],
+    );
+
+    const writeStacks = useCallback(
+        (next: HistoryStacks) => {
+            if (!persistHistory) {
+                memoryRef.current = next;
+                setMemoryStacks(next);
+            } else if (next.past.length === 0 && next.future.length === 0) {
+                api.removeRaw(historyKey);
+            } else {
+                api.setRaw(historyKey, JSON.stringify({ version: 0, payload: next }));
+            }
+        },
+        [api, historyKey, persistHistory],
+    );
+
+    /**
+     * Runs a write and, if it changed the stored value, pushes the value it
+     * replaced onto the undo stack and clears the redo stack.
+     */
+    const record = useCallback(
+        (mutate: () => boolean) => {
+            const before = api.getRawSnapshot(key);
+            if (!mutate() || depth <= 0) return;
+            if (api.getRawSnapshot(key) === before) return;
+            const { past } = readStacks();
+            writeStacks({ past: [...past, before].slice(-depth), future: [] });
+        },
+        [api, key, depth, readStacks, writeStacks],
+    );
+
+    /**
+     * Restores a history entry through the normal write path, keeping its
+     * expiry. An entry that no longer decodes is not written.
+     *
+     * @returns True if the entry was written
+     */
+    const restore = useCallback(
+        (entry: string | null): boolean => {
+            if (entry === null) {
+                result.remove();
+                return true;
+            }
+            return restoreRaw(entry);
+        },
+        [result, restoreRaw],
+    );
+
+    const set = useCallback(
+        (next: T | ((cur: T) => T)) => {
+            record(() =>
+                write(typeof next === "function" ? (next as (c: T) => T)(decode(api.getRawSnapshot(key))) : next),
+            );
+        },
+        [api, key, decode, write, record],
+    );
+
+    const reset = useCallback(() => {
+        record(() => write(decode(null)));
+    }, [decode, write, record]);
+
+    const remove = useCallback(() => {
+        record(() => {
+            result.remove();
+            return true;
+        });
+    }, [result, record]);
+
+    const undo = useCallback(() => {
+        const { past, future } = readStacks();
+        if (past.length === 0) return;
+        const before = api.getRawSnapshot(key);
+        if (!restore(past[past.length - 1] ?? null)) return;
+        writeStacks({ past: past.slice(0, -1), future: [...future, before] });
+    }, [api, key, readStacks, writeStacks, restore]);
+
+    const redo = useCallback(() => {
+        const { past, future } = readStacks();
+        if (future.length === 0) return;
+        const before = api.getRawSnapshot(key);
+        if (!restore(future[future.length - 1] ?? null)) return;
+        writeStacks({ past: [...past, before].slice(-Math.max(depth, 1)), future: future.slice(0, -1) });
+    }, [api, key, depth, readStacks, writeStacks, restore]);
+
+    const clearHistory = useCallback(() => {
+        writeStacks(EMPTY_STACKS);
+    }, [writeStacks]);
+
+    return useMemo(
+        () => ({
+            ...result,
+            /** Persist a new value (direct or updater function) and record the previous one. */
+            set,
+            /** Reset to `defaultValue`, persist it, and record the previous value. */
+            reset,
+            /** Delete the key from storage and record the previous value. */
+            remove,
+            /** Restore the value before the last recorded write. */
+            undo,
+            /** Re-apply the last undone write. */
+            redo,
+            /** Whether `undo` has an entry to restore. */
+            canUndo: stacks.past.length > 0,
+            /** Whether `redo` has an entry to re-apply. */
+            canRedo: stacks.future.length > 0,
+            /** Drop all undo and redo entries. */
+            clearHistory,
+        }),
+        [result, set, reset, remove, undo, redo, stacks, clearHistory],
+    );
+}
@@ -0,0 +1,251 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { IDBFactory, IDBDatabase } from "fake-indexeddb";
+import { MnemonicProvider } from "./provider";
+import { useMnemonicKey } from "./use";
+import { createIdbStorage, type IdbStorage, type IdbFlushStatus } from "./idb-storage";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Reads a raw value straight from IndexedDB, bypassing any adapter. */
+function readIdb(factory: IDBFactory, key: string, dbName = "react-mnemonic", storeName = "kv"): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const open = factory.open(dbName);
+        open.onsuccess = () => {
+            const db = open.result;
+            const req = db.transaction(storeName, "readonly").objectStore(storeName).get(key);
+            req.onsuccess = () => {
+                db.close();
+                resolve(req.result);
+            };
+            req.onerror = () => reject(req.error);
+        };
+        open.onerror = () => reject(open.error);
+    });
+}
+
+/** Waits until a condition holds, polling across macrotasks. */
+async function until(check: () => boolean): Promise<void> {
+    await vi.waitFor(() => expect(check()).toBe(true));
+}
+
+let factory: IDBFactory;
+const opened: IdbStorage[] = [];
+
+async function open(options: Parameters<typeof createIdbStorage>[0] = {}): Promise<IdbStorage> {
+    const storage = await createIdbStorage({ indexedDB: factory, ...options });
+    opened.push(storage);
+    return storage;
+}
+
+beforeEach(() => {
+    factory = new IDBFactory();
+});
+
+afterEach(async () => {
+    while (opened.length > 0) await opened.pop()!.close();
+});
+
+// ---------------------------------------------------------------------------
+// StorageLike contract
+// ---------------------------------------------------------------------------
+
+describe("createIdbStorage", () => {
+    it("starts empty on a fresh database", async () => {
+        const storage = await open();
+        expect(storage.getItem("missing")).toBeNull();
+        expect(storage.length).toBe(0);
+        expect(storage.flushStatus).toBe("idle");
+    });
+
+    it("reads are synchronous and reflect writes immediately", async () => {
+        const storage = await open();
+        storage.setItem("a", "1");
+        expect(storage.getItem("a")).toBe("1");
+        expect(storage.length).toBe(1);
+        expect(storage.key(0)).toBe("a");
+        storage.removeItem("a");
+        expect(storage.getItem("a")).toBeNull();
+    });
+
+    it("enumerates keys in insertion order as keys are added and removed", async () => {
+        const storage = await open();
+        const keys = () => Array.from({ length: storage.length }, (_, i) => storage.key(i));
+        storage.setItem("a", "1");
+        storage.setItem("b", "2");
+        expect(keys()).toEqual(["a", "b"]);
+        storage.setItem("a", "3");
+        storage.setItem("c", "4");
+        expect(keys()).toEqual(["a", "b", "c"]);
+        storage.removeItem("a");
+        storage.removeItem("missing");
+        expect(keys()).toEqual(["b", "c"]);
+        expect(storage.key(2)).toBeNull();
+    });
+
+    it("flushes writes to IndexedDB", async () => {
+        const storage = await open();
+        storage.setItem("a", "1");
+        storage.setItem("b", "2");
+        storage.removeItem("b");
+        await storage.flush();
+        expect(await readIdb(factory, "a")).toBe("1");
+        expect(await readIdb(factory, "b")).toBeUndefined();
+    });
+
+    it("preloads existing entries on open", async () => {
+        const first = await open();
+        first.setItem("persisted", "yes");
+        await first.close();
+        opened.length = 0;
+
+        const second = await open();
+        expect(second.getItem("persisted")).toBe("yes");
+    });
+
+    it("uses the configured database and store names", async () => {
+        const storage = await open({ dbName: "custom-db", storeName: "custom-store" });
+        storage.setItem("a", "1");
+        await storage.flush();
+        expect(await readIdb(factory, "a", "custom-db", "custom-store")).toBe("1");
+    });
+
+    it("adds a missing object store to an existing database", async () => {
+        const first = await open({ dbName: "shared", storeName: "one" });
+        // Adding a store needs a version upgrade, which open connections block.
+        await first.close();
+        opened.length = 0;
+        const storage = await open({ dbName: "shared", storeName: "two" });
+        storage.setItem("a", "1");
+        await storage.flush();
+        expect(await readIdb(factory, "a", "shared", "two")).toBe("1");
+    });
+
+    it("reports flush status transitions", async () => {
+        const statuses: IdbFlushStatus[] = [];
+        const storage = await open({ onFlushStatusChange: (s) => statuses.push(s) });
+        storage.setItem("a", "1");
+        expect(storage.flushStatus).toBe("pending");
+        await until(() => storage.flushStatus === "idle");
+        expect(statuses).toEqual(["pending", "flushing", "idle"]);
+    });
+
+    it("reports flush failures through onError and resyncs", async () => {
+        const onError = vi.fn();
+        const storage = await open({ onError });
+        storage.setItem("keep", "1");
+        await storage.flush();
+
+        // Break the next transaction.
+        const spy = vi.spyOn(IDBDatabase.prototype, "transaction").mockImplementationOnce(() => {
+            throw new DOMException("boom", "InvalidStateError");
+        });
+        storage.setItem("lost", "2");
+        await until(() => storage.flushStatus === "error");
+        spy.mockRestore();
+
+        expect(onError).toHaveBeenCalledWith(expect.any(DOMException));
+        await until(() => storage.getItem("lost") === null);
+        expect(storage.getItem("keep")).toBe("1");
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Cross-tab behaviour
+// ---------------------------------------------------------------------------
+
+describe("createIdbStorage cross-tab sync", () => {
+    it("notifies other adapters with the changed keys", async () => {
+        const tabA = await open();
+        const tabB = await open();
+        const changes: (string[] | undefined)[] = [];
+        tabB.onExternalChange((keys) => changes.push(keys));
+
+        tabA.setItem("a", "1");
+        await tabA.flush();
+
+        await until(() => changes.length > 0);
+        expect(changes[0]).toEqual(["a"]);
+        expect(tabB.getItem("a")).toBe("1");
+    });
+
+    it("enumerates keys added by other adapters after resyncing", async () => {
+        const tabA = await open();
+        const tabB = await open();
+        tabB.setItem("b", "1");
+        expect(tabB.key(0)).toBe("b");
+        await tabB.flush();
+        const changes: (string[] | undefined)[] = [];
+        tabB.onExternalChange((keys) => changes.push(keys));
+
+        tabA.setItem("a", "1");
+        await tabA.flush();
+
+        await until(() => changes.length > 0);
+        expect(tabB.length).toBe(2);
+        expect([tabB.key(0), tabB.key(1)].sort()).toEqual(["a", "b"]);
+    });
+
+    it("resyncs and retries its writes when another adapter committed first", async () => {
+        const tabA = await open({ channelName: "isolated-a" });
+        const tabB = await open({ channelName: "isolated-b" });
+        const changes: (string[] | undefined)[] = [];
+        tabB.onExternalChange((keys) => changes.push(keys));
+
+        tabA.setItem("a", "from-a");
+        await tabA.flush();
+
+        // tabB still holds the old revision, so its commit loses the CAS.
+        tabB.setItem("b", "from-b");
+        await tabB.flush();
+
+        expect(changes).toEqual([["a"]]);
+        expect(tabB.getItem("a")).toBe("from-a");
+        expect(tabB.getItem("b")).toBe("from-b");
+        expect(tabB.flushStatus).toBe("idle");
+        expect(await readIdb(factory, "a")).toBe("from-a");
+        expect(await readIdb(factory, "b")).toBe("from-b");
+    });
+
+    it("keeps the later write of a key after losing the CAS", async () => {
+        const tabA = await open({ channelName: "isolated-a" });
+        const tabB = await open({ channelName: "isolated-b" });
+
+        tabA.setItem("k", "from-a");
+        await tabA.flush();
+
+        tabB.setItem("k", "from-b");
+        await tabB.flush();
+
+        expect(tabB.getItem("k")).toBe("from-b");
+        expect(await readIdb(factory, "k")).toBe("from-b");
+    });
+
+    it("drives MnemonicProvider updates across adapters", async () => {
+        const tabA = await open();
+        const tabB = await open();
+        const seen: number[] = [];
+        function Probe() {
+            seen.push(useMnemonicKey("count", { defaultValue: 0 }).value);
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="app" storage={tabB}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(seen[seen.length - 1]).toBe(0);
+
+        await act(async () => {
+            tabA.setItem("app.count", JSON.stringify({ version: 0, payload: "7" }));
+            await tabA.flush();
+            await until(() => tabB.getItem("app.count") !== null);
+        });
+        expect(seen[seen.length - 1]).toBe(7);
+    });
+});
@@ -0,0 +1,412 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+/**
+ * @fileoverview IndexedDB storage adapter for Mnemonic.
+ *
+ * This module exports `createIdbStorage`, a dependency-free {@link StorageLike}
+ * backed by IndexedDB. All entries are preloaded into memory so reads stay
+ * synchronous; writes are flushed to IndexedDB in batches with a
+ * compare-and-swap revision check, and other tabs are notified over a
+ * `BroadcastChannel`.
+ */
+
+import type { StorageLike } from "./types";
+
+/**
+ * Reserved IndexedDB key holding the monotonic revision counter.
+ * Stored in the same object store as user data.
+ */
+const REV_KEY = "__mnemonic_idb_rev__";
+
+/**
+ * Flush state reported by an {@link IdbStorage} adapter.
+ *
+ * - `"idle"` — Every write has been committed to IndexedDB.
+ * - `"pending"` — Writes are buffered in memory and a flush is scheduled.
+ * - `"flushing"` — A flush transaction is in progress.
+ * - `"error"` — The last flush failed. The adapter resynced from IndexedDB,
+ *   so the failed writes were discarded.
+ */
+export type IdbFlushStatus = "idle" | "pending" | "flushing" | "error";
+
+/**
+ * Configuration options for {@link createIdbStorage}.
+ */
+export type IdbStorageOptions = {
+    /**
+     * IndexedDB database name.
+     *
+     * @default "react-mnemonic"
+     */
+    dbName?: string;
+
+    /**
+     * Object store name inside the database. Created on first use.
+     *
+     * @default "kv"
+     */
+    storeName?: string;
+
+    /**
+     * `BroadcastChannel` name used to notify other tabs of committed writes.
+     *
+     * @default `mnemonic-idb:${dbName}:${storeName}`
+     */
+    channelName?: string;
+
+    /**
+     * IndexedDB factory to use instead of the global `indexedDB`.
+     *
+     * Useful in workers, tests, or when wrapping IndexedDB with an
+     * instrumentation layer.
+     */
+    indexedDB?: IDBFactory;
+
+    /**
+     * Callback invoked when a flush fails or a cross-tab resync fails.
+     *
+     * When omitted, failures are logged via `console.warn`.
+     *
+     * @param error - The underlying IndexedDB error
+     */
+    onError?: (error: unknown) => void;
+
+    /**
+     * Callback invoked whenever the flush status changes.
+     *
+     * @param status - The new flush status
+     */
+    onFlushStatusChange?: (status: IdbFlushStatus) => void;
+};
+
+/**
+ * A {@link StorageLike} backed by IndexedDB, returned by {@link createIdbStorage}.
+ */
+export type IdbStorage = StorageLike & {
+    key(index: number): string | null;
+    readonly length: number;
+    onExternalChange: (callback: (changedKeys?: string[]) => void) => () => void;
+
+    /**
+     * The current flush status.
+     */
+    readonly flushStatus: IdbFlushStatus;
+
+    /**
+     * Commit buffered writes immediately.
+     *
+     * @returns Promise that resolves once all writes made before the call
+     *   have been committed (or discarded after a failed flush)
+     */
+    flush(): Promise<void>;
+
+    /**
+     * Close the database connection and the `BroadcastChannel`.
+     *
+     * Buffered writes are flushed first. The adapter must not be used
+     * afterwards.
+     *
+     * @returns Promise that resolves once the adapter is closed
+     */
+    close(): Promise<void>;
+};
+
+/**
+ * Wraps an `IDBRequest` in a promise.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Opens the database, creating the object store if it does not exist yet.
+ * When the database exists without the store, it is reopened at the next
+ * version so the store can be added.
+ */
+async function openDatabase(factory: IDBFactory, dbName: string, storeName: string): Promise<IDBDatabase> {
+    const open = (version?: number) => {
+        const request = version === undefined ? factory.open(dbName) : factory.open(dbName, version);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(storeName)) {
+                request.result.createObjectStore(storeName);
+            }
+        };
+        return requestToPromise(request);
+    };
+    const db = await open();
+    if (db.objectStoreNames.contains(storeName)) return db;
+    const nextVersion = db.version + 1;
+    db.close();
+    return open(nextVersion);
+}
+
+/**
+ * Reads every entry from the object store.
+ *
+ * @returns The stored entries and the revision counter
+ */
+async function readAllEntries(
+    db: IDBDatabase,
+    storeName: string,
+): Promise<{ entries: Map<string, string>; rev: number }> {
+    const tx = db.transaction(storeName, "readonly");
+    const os = tx.objectStore(storeName);
+    const [keys, values] = await Promise.all([requestToPromise(os.getAllKeys()), requestToPromise(os.getAll())]);
+    const entries = new Map<string, string>();
+    let rev = 0;
+    keys.forEach((k, i) => {
+        if (k === REV_KEY) {
+            rev = Number(values[i]) || 0;
+        } else if (typeof k === "string" && typeof values[i] === "string") {
+            entries.set(k, values[i]);
+        }
+    });
+    return { entries, rev };
+}
+
+/**
+ * Creates a {@link StorageLike} adapter backed by IndexedDB.
+ *
+ * All entries are preloaded into an in-memory `Map` before the promise
+ * resolves, so `getItem` (which `MnemonicProvider` calls synchronously)
+ * returns instantly.
+ *
+ * **Write path** — `setItem` and `removeItem` update the in-memory map
+ * immediately, then buffer the change for a batched flush in a microtask.
+ * The flush is a compare-and-swap: it only commits if the revision counter
+ * in IndexedDB still matches the adapter's, then bumps the revision and
+ * broadcasts the changed keys. If another tab committed first, the adapter
+ * resyncs from IndexedDB, notifies the provider of that tab's changes, and
+ * retries the batch on top of them, so the later write of a key wins.
+ *
+ * **Receive path** — When a `BroadcastChannel` message arrives with a newer
+ * revision, the adapter re-reads all entries and reports exactly the keys
+ * whose values changed through `onExternalChange`, so the provider only
+ * reloads those keys.
+ *
+ * @param options - Database, channel, and callback configuration
+ * @returns Promise resolving to the ready-to-use adapter
+ *
+ * @throws If IndexedDB is unavailable or the database cannot be opened
+ *
+ * @example
+ * ```tsx
+ * const storage = await createIdbStorage({
+ *   dbName: "my-app",
+ *   onFlushStatusChange: (status) => setSaving(status !== "idle"),
+ *   onError: (err) => reportError(err),
+ * });
+ *
+ * root.render(
+ *   <MnemonicProvider namespace="app" storage={storage}>
+ *     <App />
+ *   </MnemonicProvider>,
+ * );
+ * ```
+ *
+ * @see {@link StorageLike} - The interface this adapter implements
+ * @see {@link IdbFlushStatus} - Flush states reported by the adapter
+ */
+export async function createIdbStorage(options: IdbStorageOptions = {}): Promise<IdbStorage> {
+    const {
+        dbName = "react-mnemonic",
+        storeName = "kv",
+        channelName = `mnemonic-idb:${dbName}:${storeName}`,
+        onError,
+        onFlushStatusChange,
+    } = options;
+    const factory = options.indexedDB ?? (typeof indexedDB !== "undefined" ? indexedDB : undefined);
+    if (!factory) {
+        throw new Error("createIdbStorage requires IndexedDB");
+    }
+
+    const db = await openDatabase(factory, dbName, storeName);
+    const initial = await readAllEntries(db, storeName);
+
+    const map = initial.entries;
+    /** Keys of `map` in order for `key(index)`; null until rebuilt after a key is added or removed. */
+    let keyList: string[] | null = null;
+    let localRev = initial.rev;
+    let pendingWrites = new Map<string, string | null>();
+    let flushPromise: Promise<void> | null = null;
+    let flushStatus: IdbFlushStatus = "idle";
+    const externalListeners = new Set<(changedKeys?: string[]) => void>();
+
+    const bc = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(channelName) : null;
+
+    const setFlushStatus = (status: IdbFlushStatus) => {
+        if (flushStatus === status) return;
+        flushStatus = status;
+        onFlushStatusChange?.(status);
+    };
+
+    const reportError = (err: unknown) => {
+        if (onError) {
+            onError(err);
+        } else {
+            console.warn("[Mnemonic] IndexedDB storage error:", err);
+        }
+    };
+
+    const notifyExternal = (changedKeys: string[]) => {
+        if (changedKeys.length === 0) return;
+        for (const fn of externalListeners) {
+            try {
+                fn(changedKeys);
+            } catch {
+                // Subscriber errors must not break the adapter.
+            }
+        }
+    };
+
+    /**
+     * Replaces the in-memory map with the contents of IndexedDB.
+     * Buffered writes that have not been flushed yet are kept on top.
+     *
+     * @returns Keys whose visible value changed
+     */
+    const resyncFromIdb = async (): Promise<string[]> => {
+        const fresh = await readAllEntries(db, storeName);
+        localRev = fresh.rev;
+        for (const [k, v] of pendingWrites) {
+            if (v === null) fresh.entries.delete(k);
+            else fresh.entries.set(k, v);
+        }
+        const changed: string[] = [];
+        for (const [k, v] of fresh.entries) {
+            if (map.get(k) !== v) changed.push(k);
+        }
+        for (const k of map.keys()) {
+            if (!fresh.entries.has(k)) changed.push(k);
+        }
+        map.clear();
+        for (const [k, v] of fresh.entries) map.set(k, v);
+        keyList = null;
+        return changed;
+    };
+
+    /**
+     * Commits one batch of buffered writes with a revision compare-and-swap.
+     *
+     * @returns True if committed, false if another writer got there first
+     */
+    const commit = (batch: Map<string, string | null>): Promise<boolean> =>
+        new Promise<boolean>((resolve, reject) => {
+            const tx = db.transaction(storeName, "readwrite");
+            const os = tx.objectStore(storeName);
+            let committed = false;
+            const revReq = os.get(REV_KEY);
+            revReq.onsuccess = () => {
+                const currentRev = Number(revReq.result) || 0;
+                if (currentRev !== localRev) return;
+                for (const [key, value] of batch) {
+                    if (value === null) os.delete(key);
+                    else os.put(value, key);
+                }
+                os.put(String(currentRev + 1), REV_KEY);
+                committed = true;
+            };
+            tx.oncomplete = () => resolve(committed);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+
+    const runFlush = async (): Promise<void> => {
+        while (pendingWrites.size > 0) {
+            const batch = pendingWrites;
+            pendingWrites = new Map();
+            setFlushStatus("flushing");
+            try {
+                if (await commit(batch)) {
+                    localRev += 1;
+                    bc?.postMessage({ rev: localRev, keys: Array.from(batch.keys()) });
+                } else {
+                    // Another tab committed first: adopt its state and retry this batch on
+                    // top of it. Writes buffered since the batch was taken are newer and win.
+                    pendingWrites = new Map([...batch, ...pendingWrites]);
+                    notifyExternal(await resyncFromIdb());
+                }
+            } catch (err) {
+                reportError(err);
+                setFlushStatus("error");
+                try {
+                    notifyExternal(await resyncFromIdb());
+                } catch (resyncErr) {
+                    reportError(resyncErr);
+                }
+                return;
+            }
+        }
+        setFlushStatus("idle");
+    };
+
+    const flush = (): Promise<void> => {
+        if (!flushPromise) {
+            if (pendingWrites.size === 0) return Promise.resolve();
+            flushPromise = runFlush().finally(() => {
+                flushPromise = null;
+                // Writes made after the last batch was taken need another pass.
+                if (pendingWrites.size > 0) void flush();
+            });
+        }
+        return flushPromise;
+    };
+
+    const scheduleFlush = () => {
+        setFlushStatus("pending");
+        if (flushPromise) return;
+        queueMicrotask(() => {
+            void flush();
+        });
+    };
+
+    if (bc) {
+        bc.onmessage = (e: MessageEvent<{ rev: number; keys?: string[] }>) => {
+            if (e.data.rev <= localRev) return;
+            resyncFromIdb().then(notifyExternal, reportError);
+        };
+    }
+
+    return {
+        getItem(key: string): string | null {
+            return map.get(key) ?? null;
+        },
+        setItem(key: string, value: string): void {
+            if (!map.has(key)) keyList = null;
+            map.set(key, value);
+            pendingWrites.set(key, value);
+            scheduleFlush();
+        },
+        removeItem(key: string): void {
+            if (map.delete(key)) keyList = null;
+            pendingWrites.set(key, null);
+            scheduleFlush();
+        },
+        get length(): number {
+            return map.size;
+        },
+        key(index: number): string | null {
+            keyList ??= Array.from(map.keys());
+            return keyList[index] ?? null;
+        },
+        onExternalChange(callback: (changedKeys?: string[]) => void): () => void {
+            externalListeners.add(callback);
+            return () => {
+                externalListeners.delete(callback);
+            };
+        },
+        get flushStatus(): IdbFlushStatus {
+            return flushStatus;
+        },
+        flush,
+        async close(): Promise<void> {
+            await flush();
+            bc?.close();
+            db.close();
+        },
+    };
+}
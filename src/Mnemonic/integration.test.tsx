@@ -415,6 +415,55 @@ describe("cross-tab sync – listener lifecycle", () => {
 
         expect(addedHandler).toBe(removedHandler);
     });
+
+    it("installs a single listener for many opted-in hooks", () => {
+        function Keyed({ k }: { k: string }) {
+            useMnemonicKey(k, { defaultValue: "x", listenCrossTab: true });
+            return null;
+        }
+        const { unmount } = render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                {Array.from({ length: 50 }, (_, i) => (
+                    <Keyed key={i} k={`key${i}`} />
+                ))}
+            </MnemonicProvider>,
+        );
+
+        expect(addSpy.mock.calls.filter((c) => c[0] === "storage")).toHaveLength(1);
+        unmount();
+        expect(removeSpy.mock.calls.filter((c) => c[0] === "storage")).toHaveLength(1);
+    });
+
+    it("keeps the listener until the last opted-in hook unmounts", () => {
+        function Keyed() {
+            useMnemonicKey("key", { defaultValue: "x", listenCrossTab: true });
+            return null;
+        }
+        const { rerender } = render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Keyed />
+                <Keyed />
+            </MnemonicProvider>,
+        );
+        rerender(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Keyed />
+            </MnemonicProvider>,
+        );
+        expect(removeSpy.mock.calls.filter((c) => c[0] === "storage")).toHaveLength(0);
+    });
+
+    it("provider listenCrossTab installs the listener without any hooks", () => {
+        const { unmount } = render(
+            <MnemonicProvider namespace="ns" storage={storage} listenCrossTab>
+                <div />
+            </MnemonicProvider>,
+        );
+
+        expect(addSpy.mock.calls.filter((c) => c[0] === "storage")).toHaveLength(1);
+        unmount();
+        expect(removeSpy.mock.calls.filter((c) => c[0] === "storage")).toHaveLength(1);
+    });
 });
 
 // ============================================================================
@@ -439,6 +488,7 @@ describe("cross-tab sync – data flow integration", () => {
         );
 
         act(() => {
+            storage.store.set("ns.theme", env(JSON.stringify("dark")));
             window.dispatchEvent(
                 new StorageEvent("storage", { key: "ns.theme", newValue: env(JSON.stringify("dark")) }),
             );
@@ -456,6 +506,7 @@ describe("cross-tab sync – data flow integration", () => {
         );
 
         act(() => {
+            storage.store.set("ns.count", env("42"));
             window.dispatchEvent(new StorageEvent("storage", { key: "ns.count", newValue: env("42") }));
         });
 
@@ -473,6 +524,7 @@ describe("cross-tab sync – data flow integration", () => {
         );
 
         act(() => {
+            storage.store.set("ns.count", env("not-a-number"));
             window.dispatchEvent(new StorageEvent("storage", { key: "ns.count", newValue: env("not-a-number") }));
         });
 
@@ -512,6 +564,7 @@ describe("cross-tab sync – data flow integration", () => {
 
         act(() => {
             for (let i = 1; i <= 10; i++) {
+                storage.store.set("ns.count", env(String(i)));
                 window.dispatchEvent(
                     new StorageEvent("storage", {
                         key: "ns.count",
@@ -556,6 +609,7 @@ describe("cross-tab sync – data flow integration", () => {
         expect(v2).toBe("a");
 
         act(() => {
+            storage.store.set("ns.shared", env(JSON.stringify("b")));
             window.dispatchEvent(new StorageEvent("storage", { key: "ns.shared", newValue: env(JSON.stringify("b")) }));
         });
 
@@ -581,6 +635,74 @@ describe("cross-tab sync – data flow integration", () => {
         }).not.toThrow();
     });
 
+    it("keys without listenCrossTab ignore storage events", () => {
+        let synced: string | undefined;
+        let local: string | undefined;
+        function Synced() {
+            synced = useMnemonicKey("synced", { defaultValue: "a", listenCrossTab: true }).value;
+            return null;
+        }
+        function Local() {
+            local = useMnemonicKey("local", { defaultValue: "a" }).value;
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Synced />
+                <Local />
+            </MnemonicProvider>,
+        );
+
+        act(() => {
+            storage.store.set("ns.synced", env(JSON.stringify("b")));
+            storage.store.set("ns.local", env(JSON.stringify("b")));
+            window.dispatchEvent(new StorageEvent("storage", { key: "ns.synced" }));
+            window.dispatchEvent(new StorageEvent("storage", { key: "ns.local" }));
+        });
+
+        expect(synced).toBe("b");
+        expect(local).toBe("a");
+    });
+
+    it("provider listenCrossTab syncs keys without the hook option", () => {
+        let value: string | undefined;
+        function Reader() {
+            value = useMnemonicKey("theme", { defaultValue: "light" }).value;
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} listenCrossTab>
+                <Reader />
+            </MnemonicProvider>,
+        );
+
+        act(() => {
+            storage.store.set("ns.theme", env(JSON.stringify("dark")));
+            window.dispatchEvent(new StorageEvent("storage", { key: "ns.theme" }));
+        });
+        expect(value).toBe("dark");
+
+        act(() => {
+            storage.store.clear();
+            window.dispatchEvent(new StorageEvent("storage", { key: null }));
+        });
+        expect(value).toBe("light");
+    });
+
+    it("does not write incoming values back to storage", () => {
+        const setItem = vi.spyOn(storage, "setItem");
+        renderHookWithStore(storage, "ns", () =>
+            useMnemonicKey("theme", { defaultValue: "light", listenCrossTab: true }),
+        );
+
+        act(() => {
+            storage.store.set("ns.theme", env(JSON.stringify("dark")));
+            window.dispatchEvent(new StorageEvent("storage", { key: "ns.theme" }));
+        });
+
+        expect(setItem).not.toHaveBeenCalled();
+    });
+
     it("simulates full Tab A write → Tab B read flow", () => {
         // Tab B: component listening for cross-tab updates
         const onChangeTabB = vi.fn();
@@ -1,9 +1,18 @@
 // SPDX-License-Identifier: MIT
 // Copyright Scott Dixon
 
-import { describe, it, expect } from "vitest";
-import { validateJsonSchema, inferJsonSchema, jsonDeepEqual, compileSchema } from "./json-schema";
-import type { JsonSchema, CompiledValidator } from "./json-schema";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import {
+    validateJsonSchema,
+    inferJsonSchema,
+    jsonDeepEqual,
+    compileSchema,
+    registerJsonSchemaFormat,
+    applyJsonSchemaDefaults,
+    mergeInferredSchemas,
+    checkSchemaCompatibility,
+} from "./json-schema";
+import type { JsonSchema, CompiledValidator, FromJsonSchema } from "./json-schema";
 
 describe("jsonDeepEqual", () => {
     it("compares primitives", () => {
@@ -608,14 +617,555 @@ describe("compileSchema", () => {
     });
 });
 
+describe("composition keywords", () => {
+    const viewState: JsonSchema = {
+        type: "object",
+        oneOf: [
+            {
+                type: "object",
+                properties: {
+                    mode: { const: "list" },
+                    sortBy: { type: "string" },
+                    pageSize: { type: "integer", minimum: 1 },
+                },
+                required: ["mode", "sortBy", "pageSize"],
+            },
+            {
+                type: "object",
+                properties: {
+                    mode: { const: "map" },
+                    center: { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 },
+                    zoom: { type: "number" },
+                },
+                required: ["mode", "center", "zoom"],
+            },
+        ],
+    };
+
+    it("allOf requires every schema", () => {
+        const schema: JsonSchema = { allOf: [{ type: "number" }, { minimum: 0 }, { maximum: 10 }] };
+        expect(validateJsonSchema(5, schema)).toEqual([]);
+        const errors = validateJsonSchema(11, schema);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]!.keyword).toBe("maximum");
+    });
+
+    it("anyOf accepts a value matching any schema", () => {
+        const schema: JsonSchema = { anyOf: [{ type: "string" }, { type: "number", minimum: 0 }] };
+        expect(validateJsonSchema("x", schema)).toEqual([]);
+        expect(validateJsonSchema(3, schema)).toEqual([]);
+        expect(validateJsonSchema(-1, schema)[0]).toEqual({
+            path: "",
+            message: "Value does not match any schema in anyOf; closest match is anyOf[1]",
+            keyword: "anyOf",
+        });
+    });
+
+    it("oneOf accepts a value matching exactly one schema", () => {
+        expect(validateJsonSchema({ mode: "list", sortBy: "name", pageSize: 20 }, viewState)).toEqual([]);
+        expect(validateJsonSchema({ mode: "map", center: [0, 0], zoom: 3 }, viewState)).toEqual([]);
+    });
+
+    it("oneOf rejects a value matching several schemas", () => {
+        const schema: JsonSchema = { oneOf: [{ type: "number" }, { type: "integer" }] };
+        expect(validateJsonSchema(1.5, schema)).toEqual([]);
+        expect(validateJsonSchema(2, schema)).toEqual([
+            {
+                path: "",
+                message: "Value matches 2 schemas in oneOf (oneOf[0], oneOf[1]); expected exactly one",
+                keyword: "oneOf",
+            },
+        ]);
+    });
+
+    it("reports the closest branch and its errors when no branch matches", () => {
+        // The discriminator selects the map branch even though it has more errors overall.
+        const errors = validateJsonSchema({ mode: "map", center: [1, "x", "y"], zoom: "far" }, viewState);
+        expect(errors).toEqual([
+            {
+                path: "",
+                message: "Value does not match any schema in oneOf; closest match is oneOf[1]",
+                keyword: "oneOf",
+            },
+            { path: "/center", message: "Array length 3 is greater than maxItems 2", keyword: "maxItems" },
+            { path: "/center/1", message: 'Expected type "number", got string', keyword: "type" },
+            { path: "/center/2", message: 'Expected type "number", got string', keyword: "type" },
+            { path: "/zoom", message: 'Expected type "number", got string', keyword: "type" },
+        ]);
+    });
+
+    it("breaks closest-branch ties by error count, then order", () => {
+        const schema: JsonSchema = {
+            anyOf: [
+                { type: "object", required: ["a", "b"] },
+                { type: "object", required: ["a"] },
+            ],
+        };
+        expect(validateJsonSchema({}, schema)[0]!.message).toMatch(/anyOf\[1\]$/);
+        expect(validateJsonSchema(null, schema)[0]!.message).toMatch(/anyOf\[0\]$/);
+    });
+
+    it("not rejects values matching its schema", () => {
+        const schema: JsonSchema = { type: "string", not: { enum: ["", "undefined"] } };
+        expect(validateJsonSchema("ok", schema)).toEqual([]);
+        expect(validateJsonSchema("", schema)).toEqual([
+            { path: "", message: "Value must not match the schema in not", keyword: "not" },
+        ]);
+    });
+
+    it("reports nested composition errors with their path", () => {
+        const schema: JsonSchema = {
+            type: "object",
+            properties: { id: { anyOf: [{ type: "string" }, { type: "integer" }] } },
+        };
+        expect(validateJsonSchema({ id: 1.5 }, schema)[0]!.path).toBe("/id");
+    });
+});
+
+describe("object keywords", () => {
+    const prefs: JsonSchema = { type: "object", properties: { theme: { enum: ["light", "dark"] } } };
+
+    it("patternProperties validates keyed maps", () => {
+        const schema: JsonSchema = {
+            type: "object",
+            patternProperties: { "^user-\\d+$": prefs },
+            additionalProperties: false,
+        };
+        expect(validateJsonSchema({ "user-1": { theme: "dark" }, "user-22": {} }, schema)).toEqual([]);
+        expect(validateJsonSchema({ "user-1": { theme: "blue" }, admin: {} }, schema)).toEqual([
+            { path: "/user-1/theme", message: "Value does not match any enum member", keyword: "enum" },
+            { path: "", message: 'Additional property "admin" is not allowed', keyword: "additionalProperties" },
+        ]);
+    });
+
+    it("applies every matching pattern and leaves listed properties to properties", () => {
+        const schema: JsonSchema = {
+            properties: { count: { type: "integer" } },
+            patternProperties: { "^c": { type: "number" }, t$: { minimum: 0 } },
+            additionalProperties: { type: "string" },
+        };
+        expect(validateJsonSchema({ count: 2, cat: 1, note: "x" }, schema)).toEqual([]);
+        expect(validateJsonSchema({ cat: -1.5 }, schema)).toEqual([
+            { path: "/cat", message: "Value -1.5 is less than minimum 0", keyword: "minimum" },
+        ]);
+    });
+
+    it("propertyNames validates every key", () => {
+        const schema: JsonSchema = { propertyNames: { pattern: "^[a-z]+$", maxLength: 5 } };
+        expect(validateJsonSchema({ abc: 1, de: 2 }, schema)).toEqual([]);
+        expect(validateJsonSchema({ abc: 1, Bad: 2, toolong: 3 }, schema)).toEqual([
+            {
+                path: "",
+                message: 'Property name "Bad" is invalid: String does not match pattern ^[a-z]+$',
+                keyword: "propertyNames",
+            },
+            {
+                path: "",
+                message: 'Property name "toolong" is invalid: String length 7 is greater than maxLength 5',
+                keyword: "propertyNames",
+            },
+        ]);
+    });
+
+    it("dependentRequired requires properties alongside a trigger", () => {
+        const schema: JsonSchema = { dependentRequired: { cardNumber: ["billingZip", "expiry"] } };
+        expect(validateJsonSchema({ name: "Ada" }, schema)).toEqual([]);
+        expect(validateJsonSchema({ cardNumber: "4111", billingZip: "12345", expiry: "12/30" }, schema)).toEqual([]);
+        expect(validateJsonSchema({ cardNumber: "4111", billingZip: "12345" }, schema)).toEqual([
+            {
+                path: "",
+                message: 'Missing property "expiry", required when "cardNumber" is present',
+                keyword: "dependentRequired",
+            },
+        ]);
+    });
+
+    describe("if/then/else", () => {
+        const checkout: JsonSchema = {
+            type: "object",
+            properties: { paymentMethod: { enum: ["card", "invoice"] } },
+            required: ["paymentMethod"],
+            if: { properties: { paymentMethod: { const: "card" } } },
+            then: { required: ["cardNumber", "billingZip"] },
+            else: { required: ["invoiceEmail"] },
+        };
+
+        it("applies then when the condition matches", () => {
+            expect(
+                validateJsonSchema({ paymentMethod: "card", cardNumber: "4111", billingZip: "1" }, checkout),
+            ).toEqual([]);
+            expect(validateJsonSchema({ paymentMethod: "card", cardNumber: "4111" }, checkout)).toEqual([
+                { path: "", message: 'Missing required property "billingZip"', keyword: "required" },
+            ]);
+        });
+
+        it("applies else when the condition does not match", () => {
+            expect(validateJsonSchema({ paymentMethod: "invoice", invoiceEmail: "a@b.c" }, checkout)).toEqual([]);
+            expect(validateJsonSchema({ paymentMethod: "invoice" }, checkout)).toEqual([
+                { path: "", message: 'Missing required property "invoiceEmail"', keyword: "required" },
+            ]);
+        });
+
+        it("does not report the condition's own errors", () => {
+            const schema: JsonSchema = { if: { type: "string" }, then: { minLength: 2 } };
+            expect(validateJsonSchema(42, schema)).toEqual([]);
+            expect(validateJsonSchema("a", schema)[0]!.keyword).toBe("minLength");
+        });
+    });
+});
+
+describe("array and numeric keywords", () => {
+    it("multipleOf tolerates floating-point rounding", () => {
+        expect(validateJsonSchema(0.3, { multipleOf: 0.1 })).toEqual([]);
+        expect(validateJsonSchema(19.99, { multipleOf: 0.01 })).toEqual([]);
+        expect(validateJsonSchema(12, { type: "integer", multipleOf: 6 })).toEqual([]);
+        expect(validateJsonSchema(0.35, { multipleOf: 0.1 })).toEqual([
+            { path: "", message: "Value 0.35 is not a multiple of 0.1", keyword: "multipleOf" },
+        ]);
+    });
+
+    it("multipleOf rejects large values that are not exact multiples", () => {
+        expect(validateJsonSchema(1000000000.5, { type: "number", multipleOf: 1 })).toEqual([
+            { path: "", message: "Value 1000000000.5 is not a multiple of 1", keyword: "multipleOf" },
+        ]);
+        expect(validateJsonSchema(5000000.005, { multipleOf: 0.01 })).toHaveLength(1);
+        expect(validateJsonSchema(5000000.01, { multipleOf: 0.01 })).toEqual([]);
+        expect(validateJsonSchema(1e20, { multipleOf: 0.1 })).toEqual([]);
+    });
+
+    it("multipleOf checks integer values against integer divisors exactly", () => {
+        expect(validateJsonSchema(1e20, { multipleOf: 3 })).toEqual([
+            { path: "", message: "Value 100000000000000000000 is not a multiple of 3", keyword: "multipleOf" },
+        ]);
+        expect(validateJsonSchema(2 ** 53 + 2, { multipleOf: 3 })).toHaveLength(1);
+        expect(validateJsonSchema(1e20, { multipleOf: 4 })).toEqual([]);
+        expect(validateJsonSchema(-21, { type: "integer", multipleOf: 7 })).toEqual([]);
+    });
+
+    it("uniqueItems compares elements deeply", () => {
+        expect(validateJsonSchema(["a", "b"], { uniqueItems: true })).toEqual([]);
+        expect(validateJsonSchema([{ id: 1 }, { id: 2 }, { id: 1 }], { uniqueItems: true })).toEqual([
+            { path: "", message: "Array items 0 and 2 are equal", keyword: "uniqueItems" },
+        ]);
+        expect(validateJsonSchema(["a", "a"], { uniqueItems: false })).toEqual([]);
+    });
+
+    it("prefixItems validates positions and leaves the rest to items", () => {
+        const schema: JsonSchema = {
+            type: "array",
+            prefixItems: [{ type: "string" }, { type: "number" }],
+            items: { type: "boolean" },
+        };
+        expect(validateJsonSchema(["x", 1, true, false], schema)).toEqual([]);
+        expect(validateJsonSchema(["x"], schema)).toEqual([]);
+        expect(validateJsonSchema([1, "x", "y"], schema)).toEqual([
+            { path: "/0", message: 'Expected type "string", got number', keyword: "type" },
+            { path: "/1", message: 'Expected type "number", got string', keyword: "type" },
+            { path: "/2", message: 'Expected type "boolean", got string', keyword: "type" },
+        ]);
+    });
+
+    it("prefixItems with minItems and maxItems describes a fixed tuple", () => {
+        const position: JsonSchema = {
+            type: "array",
+            prefixItems: [{ type: "number" }, { type: "number" }],
+            minItems: 2,
+            maxItems: 2,
+        };
+        expect(validateJsonSchema([10, 20], position)).toEqual([]);
+        expect(validateJsonSchema([10], position)[0]!.keyword).toBe("minItems");
+        expect(validateJsonSchema([10, 20, 30], position)[0]!.keyword).toBe("maxItems");
+    });
+
+    it("contains requires a matching element", () => {
+        const schema: JsonSchema = { contains: { const: "admin" } };
+        expect(validateJsonSchema(["user", "admin"], schema)).toEqual([]);
+        expect(validateJsonSchema(["user"], schema)).toEqual([
+            { path: "", message: "Array does not contain a matching item", keyword: "contains" },
+        ]);
+        expect(validateJsonSchema("admin", schema)).toEqual([]);
+    });
+
+    it("minContains and maxContains bound the number of matches", () => {
+        const schema: JsonSchema = { contains: { type: "number" }, minContains: 2, maxContains: 3 };
+        expect(validateJsonSchema([1, "a", 2], schema)).toEqual([]);
+        expect(validateJsonSchema([1, "a"], schema)).toEqual([
+            {
+                path: "",
+                message: "Array contains 1 matching items, fewer than minContains 2",
+                keyword: "minContains",
+            },
+        ]);
+        expect(validateJsonSchema([1, 2, 3, 4], schema)).toEqual([
+            {
+                path: "",
+                message: "Array contains 4 matching items, more than maxContains 3",
+                keyword: "maxContains",
+            },
+        ]);
+        expect(validateJsonSchema([], { contains: { type: "number" }, minContains: 0 })).toEqual([]);
+    });
+
+    it("compiled validators apply the same keywords", () => {
+        const validate = compileSchema({ type: "array", items: { multipleOf: 5 }, uniqueItems: true });
+        expect(validate([5, 10])).toEqual([]);
+        expect(validate([5, 5, 7]).map((e) => e.keyword)).toEqual(["multipleOf", "uniqueItems"]);
+    });
+});
+
+describe("pattern and format", () => {
+    it("pattern matches anywhere unless anchored", () => {
+        expect(validateJsonSchema("order-42", { pattern: "\\d+" })).toEqual([]);
+        expect(validateJsonSchema("order-42", { pattern: "^\\d+$" })).toEqual([
+            { path: "", message: "String does not match pattern ^\\d+$", keyword: "pattern" },
+        ]);
+    });
+
+    it("pattern ignores non-strings", () => {
+        expect(validateJsonSchema(42, { pattern: "^a" })).toEqual([]);
+    });
+
+    it("pattern is compiled with unicode semantics", () => {
+        expect(validateJsonSchema("😀", { pattern: "^.$" })).toEqual([]);
+    });
+
+    it("throws when compiling an invalid pattern", () => {
+        expect(() => compileSchema({ pattern: "(" })).toThrow(SyntaxError);
+    });
+
+    it.each([
+        ["email", "ada@example.com", "ada@example"],
+        ["uuid", "123e4567-e89b-12d3-a456-426614174000", "123e4567-e89b-12d3-a456"],
+        ["date", "2024-02-29", "2023-02-29"],
+        ["date-time", "2024-03-01T12:30:00.250+01:00", "2024-03-01T24:00:00Z"],
+        ["date-time", "2024-03-01t12:30:00z", "2024-03-01T12:30:00"],
+        ["uri", "https://example.com/a?b=c", "/relative/path"],
+        ["ipv4", "192.168.0.255", "192.168.0.256"],
+        ["ipv4", "10.0.0.1", "10.00.0.1"],
+    ])("format %s accepts %s and rejects %s", (format, valid, invalid) => {
+        expect(validateJsonSchema(valid, { type: "string", format })).toEqual([]);
+        expect(validateJsonSchema(invalid, { type: "string", format })).toEqual([
+            { path: "", message: `String is not a valid "${format}"`, keyword: "format" },
+        ]);
+    });
+
+    it("ignores unknown formats and non-strings", () => {
+        expect(validateJsonSchema("anything", { format: "unknown-format" })).toEqual([]);
+        expect(validateJsonSchema(42, { format: "email" })).toEqual([]);
+    });
+
+    it("applies formats registered after compiling", () => {
+        const validate = compileSchema({ type: "object", properties: { color: { format: "test-hex-color" } } });
+        expect(validate({ color: "red" })).toEqual([]);
+        registerJsonSchemaFormat("test-hex-color", (value) => /^#[0-9a-f]{6}$/i.test(value));
+        expect(validate({ color: "#FF0000" })).toEqual([]);
+        expect(validate({ color: "red" })).toEqual([
+            { path: "/color", message: 'String is not a valid "test-hex-color"', keyword: "format" },
+        ]);
+    });
+});
+
+describe("$ref and $defs", () => {
+    const tree: JsonSchema = {
+        $defs: {
+            node: {
+                type: "object",
+                properties: {
+                    label: { type: "string" },
+                    children: { type: "array", items: { $ref: "#/$defs/node" } },
+                },
+                required: ["label"],
+            },
+        },
+        $ref: "#/$defs/node",
+    };
+
+    it("resolves references into $defs", () => {
+        const schema: JsonSchema = {
+            $defs: { point: { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 } },
+            type: "object",
+            properties: { from: { $ref: "#/$defs/point" }, to: { $ref: "#/$defs/point" } },
+        };
+        expect(validateJsonSchema({ from: [0, 0], to: [1, 2] }, schema)).toEqual([]);
+        expect(validateJsonSchema({ from: [0, 0], to: [1] }, schema)).toEqual([
+            { path: "/to", message: "Array length 1 is less than minItems 2", keyword: "minItems" },
+        ]);
+    });
+
+    it("validates recursive structures", () => {
+        const value = { label: "root", children: [{ label: "a" }, { label: "b", children: [{ label: "c" }] }] };
+        expect(validateJsonSchema(value, tree)).toEqual([]);
+        expect(validateJsonSchema({ label: "root", children: [{ children: [{ label: 3 }] }] }, tree)).toEqual([
+            { path: "/children/0", message: 'Missing required property "label"', keyword: "required" },
+            { path: "/children/0/children/0/label", message: 'Expected type "string", got number', keyword: "type" },
+        ]);
+    });
+
+    it("resolves # to the root schema", () => {
+        const list: JsonSchema = {
+            type: "object",
+            properties: { value: { type: "number" }, next: { anyOf: [{ type: "null" }, { $ref: "#" }] } },
+        };
+        expect(validateJsonSchema({ value: 1, next: { value: 2, next: null } }, list)).toEqual([]);
+        expect(validateJsonSchema({ value: 1, next: { value: "2", next: null } }, list)).not.toEqual([]);
+    });
+
+    it("applies keywords alongside $ref", () => {
+        const schema: JsonSchema = { $defs: { name: { type: "string" } }, $ref: "#/$defs/name", minLength: 1 };
+        expect(validateJsonSchema("", schema)[0]!.keyword).toBe("minLength");
+        expect(validateJsonSchema(1, schema)[0]!.keyword).toBe("type");
+    });
+
+    it("decodes JSON Pointer escapes", () => {
+        const schema: JsonSchema = { $defs: { "a/b": { type: "number" }, "c~d": { type: "string" } } };
+        expect(validateJsonSchema(1, { ...schema, $ref: "#/$defs/a~1b" })).toEqual([]);
+        expect(validateJsonSchema("x", { ...schema, $ref: "#/$defs/c~0d" })).toEqual([]);
+    });
+
+    it("reports unresolvable references", () => {
+        expect(validateJsonSchema(1, { $ref: "#/$defs/missing" })).toEqual([
+            { path: "", message: 'Cannot resolve $ref "#/$defs/missing"', keyword: "$ref" },
+        ]);
+        expect(validateJsonSchema(1, { $ref: "other" })[0]!.keyword).toBe("$ref");
+    });
+
+    it("resolves other documents through resolveSchema", () => {
+        const documents: Record<string, JsonSchema> = {
+            address: {
+                $defs: { zip: { type: "string", minLength: 5 } },
+                type: "object",
+                properties: { zip: { $ref: "#/$defs/zip" } },
+            },
+        };
+        const options = { resolveSchema: (uri: string) => documents[uri] };
+        const validate = compileSchema(
+            { type: "object", properties: { home: { $ref: "address" }, zip: { $ref: "address#/$defs/zip" } } },
+            options,
+        );
+        expect(validate({ home: { zip: "12345" }, zip: "54321" })).toEqual([]);
+        expect(validate({ home: { zip: "1" } })).toEqual([
+            { path: "/home/zip", message: "String length 1 is less than minLength 5", keyword: "minLength" },
+        ]);
+    });
+
+    it("resolves other documents each time they are used", () => {
+        let zip: JsonSchema = { type: "string" };
+        const validate = compileSchema({ $ref: "zip" }, { resolveSchema: () => zip });
+        expect(validate(12345)).toHaveLength(1);
+        zip = { type: "number" };
+        expect(validate(12345)).toEqual([]);
+    });
+});
+
+describe("applyJsonSchemaDefaults", () => {
+    const settings: JsonSchema = {
+        type: "object",
+        properties: {
+            theme: { type: "string" },
+            fontSize: { type: "number", default: 14 },
+            layout: {
+                type: "object",
+                default: {},
+                properties: { sidebar: { type: "boolean", default: true }, panes: { type: "integer" } },
+            },
+        },
+    };
+
+    it("fills missing properties recursively, including inside inserted defaults", () => {
+        expect(applyJsonSchemaDefaults({ theme: "dark" }, settings)).toEqual({
+            theme: "dark",
+            fontSize: 14,
+            layout: { sidebar: true },
+        });
+        expect(applyJsonSchemaDefaults({ fontSize: 9, layout: { panes: 2 } }, settings)).toEqual({
+            fontSize: 9,
+            layout: { panes: 2, sidebar: true },
+        });
+    });
+
+    it("returns the same value when nothing is missing and never mutates the input", () => {
+        const complete = { fontSize: 9, layout: { sidebar: false } };
+        expect(applyJsonSchemaDefaults(complete, settings)).toBe(complete);
+        const partial = { layout: {} };
+        const filled = applyJsonSchemaDefaults(partial, settings);
+        expect(partial).toEqual({ layout: {} });
+        expect(filled).not.toBe(partial);
+    });
+
+    it("copies defaults instead of sharing them", () => {
+        const schema: JsonSchema = { properties: { tags: { default: ["a"] } } };
+        const first = applyJsonSchemaDefaults({}, schema) as { tags: string[] };
+        first.tags.push("b");
+        expect(applyJsonSchemaDefaults({}, schema)).toEqual({ tags: ["a"] });
+    });
+
+    it("fills array elements through items and prefixItems", () => {
+        const schema: JsonSchema = {
+            type: "array",
+            prefixItems: [{ properties: { head: { default: true } } }],
+            items: { properties: { done: { default: false } } },
+        };
+        expect(applyJsonSchemaDefaults([{}, { done: true }, {}], schema)).toEqual([
+            { head: true },
+            { done: true },
+            { done: false },
+        ]);
+    });
+
+    it("follows allOf and $ref, stopping recursive defaults after one level", () => {
+        const schema: JsonSchema = {
+            $defs: {
+                node: {
+                    properties: {
+                        collapsed: { default: false },
+                        child: { $ref: "#/$defs/node", default: {} },
+                    },
+                },
+            },
+            allOf: [{ $ref: "#/$defs/node" }],
+        };
+        expect(applyJsonSchemaDefaults({}, schema)).toEqual({
+            collapsed: false,
+            child: { collapsed: false, child: {} },
+        });
+    });
+
+    it("applies defaults declared on the target of a property's $ref", () => {
+        const schema: JsonSchema = {
+            $defs: {
+                size: { type: "number", default: 14 },
+                node: { default: {}, properties: { next: { $ref: "#/$defs/node" } } },
+            },
+            properties: { fontSize: { $ref: "#/$defs/size" }, head: { $ref: "#/$defs/node" } },
+        };
+        expect(applyJsonSchemaDefaults({}, schema)).toEqual({ fontSize: 14, head: { next: {} } });
+        expect(applyJsonSchemaDefaults({ fontSize: 9, head: null }, schema)).toEqual({ fontSize: 9, head: null });
+    });
+
+    it("resolves other documents through resolveSchema", () => {
+        const resolveSchema = () => ({ properties: { zip: { default: "00000" } } });
+        expect(
+            applyJsonSchemaDefaults({ home: {} }, { properties: { home: { $ref: "address" } } }, { resolveSchema }),
+        ).toEqual({ home: { zip: "00000" } });
+    });
+
+    it("leaves non-object values and unresolved references alone", () => {
+        expect(applyJsonSchemaDefaults("x", settings)).toBe("x");
+        expect(applyJsonSchemaDefaults(null, settings)).toBe(null);
+        expect(applyJsonSchemaDefaults({}, { $ref: "#/$defs/missing" })).toEqual({});
+    });
+});
+
 describe("inferJsonSchema", () => {
     it("infers string type", () => {
         expect(inferJsonSchema("hello")).toEqual({ type: "string" });
     });
 
-    it("infers number type", () => {
+    it("infers number types, and integers when asked", () => {
         expect(inferJsonSchema(42)).toEqual({ type: "number" });
         expect(inferJsonSchema(3.14)).toEqual({ type: "number" });
+        expect(inferJsonSchema(42, { integers: true })).toEqual({ type: "integer" });
+        expect(inferJsonSchema(3.14, { integers: true })).toEqual({ type: "number" });
     });
 
     it("infers boolean type", () => {
@@ -626,15 +1176,410 @@ describe("inferJsonSchema", () => {
         expect(inferJsonSchema(null)).toEqual({ type: "null" });
     });
 
-    it("infers object type", () => {
-        expect(inferJsonSchema({ a: 1 })).toEqual({ type: "object" });
+    it("infers nested object properties as optional", () => {
+        expect(inferJsonSchema({ name: "Ada", address: { city: "London", zip: null } })).toEqual({
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                address: { type: "object", properties: { city: { type: "string" }, zip: { type: "null" } } },
+            },
+        });
+        expect(validateJsonSchema({ address: {} }, inferJsonSchema({ name: "Ada", address: { city: "x" } }))).toEqual(
+            [],
+        );
+    });
+
+    it("infers nested object properties as required when asked", () => {
+        expect(inferJsonSchema({ name: "Ada", address: { city: "London", zip: null } }, { required: true })).toEqual({
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                address: {
+                    type: "object",
+                    properties: { city: { type: "string" }, zip: { type: "null" } },
+                    required: ["city", "zip"],
+                },
+            },
+            required: ["name", "address"],
+        });
+        expect(inferJsonSchema({}, { required: true })).toEqual({ type: "object", properties: {} });
+    });
+
+    it("skips undefined properties", () => {
+        expect(inferJsonSchema({ a: 1, b: undefined }, { required: true })).toEqual({
+            type: "object",
+            properties: { a: { type: "number" } },
+            required: ["a"],
+        });
+    });
+
+    it("honours the additionalProperties option", () => {
+        expect(inferJsonSchema({ a: { b: true } }, { additionalProperties: false })).toEqual({
+            type: "object",
+            properties: {
+                a: { type: "object", properties: { b: { type: "boolean" } }, additionalProperties: false },
+            },
+            additionalProperties: false,
+        });
+    });
+
+    it("infers array items by merging element shapes", () => {
+        expect(inferJsonSchema([1, 2.5, 3], { integers: true })).toEqual({ type: "array", items: { type: "number" } });
+        expect(inferJsonSchema(["a", null])).toEqual({ type: "array", items: { type: ["string", "null"] } });
+        expect(
+            inferJsonSchema(
+                [
+                    { id: 1, title: "a" },
+                    { id: 2, done: true },
+                ],
+                { required: true, integers: true },
+            ),
+        ).toEqual({
+            type: "array",
+            items: {
+                type: "object",
+                properties: { id: { type: "integer" }, title: { type: "string" }, done: { type: "boolean" } },
+                required: ["id"],
+            },
+        });
+        expect(inferJsonSchema([])).toEqual({ type: "array" });
     });
 
-    it("infers array type", () => {
-        expect(inferJsonSchema([1, 2])).toEqual({ type: "array" });
+    it("accepts the sample it was inferred from", () => {
+        const sample = { user: { name: "Ada", tags: ["x", null], scores: [1, 2.5] }, items: [{ a: [] }, { a: [1] }] };
+        expect(validateJsonSchema(sample, inferJsonSchema(sample, { additionalProperties: false }))).toEqual([]);
     });
 
     it("returns empty schema for undefined", () => {
         expect(inferJsonSchema(undefined)).toEqual({});
     });
 });
+
+describe("mergeInferredSchemas", () => {
+    it("unions types, folding integer into number and putting null last", () => {
+        expect(mergeInferredSchemas({ type: "null" }, { type: "integer" })).toEqual({ type: ["integer", "null"] });
+        expect(mergeInferredSchemas({ type: ["integer", "null"] }, { type: "number" })).toEqual({
+            type: ["number", "null"],
+        });
+        expect(mergeInferredSchemas({ type: "string" }, { type: "string" })).toEqual({ type: "string" });
+    });
+
+    it("keeps object and array keywords alongside other types", () => {
+        const object: JsonSchema = { type: "object", properties: { a: { type: "string" } }, required: ["a"] };
+        expect(mergeInferredSchemas(object, { type: "null" })).toEqual({ ...object, type: ["object", "null"] });
+        expect(mergeInferredSchemas({ type: "array" }, { type: "array", items: { type: "string" } })).toEqual({
+            type: "array",
+            items: { type: "string" },
+        });
+    });
+
+    it("keeps additionalProperties: false only when both forbid extras", () => {
+        const closed: JsonSchema = { type: "object", properties: {}, additionalProperties: false };
+        expect(mergeInferredSchemas(closed, closed).additionalProperties).toBe(false);
+        expect(mergeInferredSchemas(closed, { type: "object", properties: {} })).not.toHaveProperty(
+            "additionalProperties",
+        );
+    });
+
+    it("widens to an empty schema when either side is unconstrained", () => {
+        expect(mergeInferredSchemas({}, { type: "string" })).toEqual({});
+    });
+});
+
+describe("checkSchemaCompatibility", () => {
+    function kinds(oldSchema: JsonSchema, newSchema: JsonSchema) {
+        return checkSchemaCompatibility(oldSchema, newSchema).breakingChanges.map((c) => [c.kind, c.path]);
+    }
+
+    it("reports identical and widened schemas as backward compatible", () => {
+        const settings: JsonSchema = {
+            type: "object",
+            properties: { theme: { enum: ["light", "dark"] }, size: { type: "integer", minimum: 8 } },
+            required: ["theme"],
+            additionalProperties: false,
+        };
+        expect(checkSchemaCompatibility(settings, settings)).toEqual({
+            backward: true,
+            forward: true,
+            breakingChanges: [],
+        });
+
+        const widened: JsonSchema = {
+            type: "object",
+            properties: {
+                theme: { enum: ["light", "dark", "auto"] },
+                size: { type: "number", minimum: 4 },
+                font: { type: "string" },
+            },
+            additionalProperties: false,
+        };
+        expect(checkSchemaCompatibility(settings, widened)).toEqual({
+            backward: true,
+            forward: false,
+            breakingChanges: [],
+        });
+        expect(checkSchemaCompatibility(widened, settings).backward).toBe(false);
+    });
+
+    it("reports added required properties", () => {
+        expect(
+            checkSchemaCompatibility(
+                { type: "object", properties: { a: { type: "string" } } },
+                { type: "object", properties: { a: { type: "string" } }, required: ["a"] },
+            ).breakingChanges,
+        ).toEqual([{ kind: "required-added", path: "", keyword: "required", message: 'Property "a" is now required' }]);
+        expect(kinds({ type: "object" }, { type: "object", dependentRequired: { card: ["zip"] } })).toEqual([
+            ["required-added", ""],
+        ]);
+    });
+
+    it("reports narrowed types", () => {
+        expect(checkSchemaCompatibility({ type: ["string", "null"] }, { type: "string" }).breakingChanges).toEqual([
+            { kind: "type-narrowed", path: "", keyword: "type", message: 'Type "null" is no longer accepted' },
+        ]);
+        expect(kinds({}, { type: "string" })).toEqual([["type-narrowed", ""]]);
+        expect(kinds({ type: "number" }, { type: "integer" })).toEqual([["type-narrowed", ""]]);
+        expect(kinds({ type: "integer" }, { type: "number" })).toEqual([]);
+    });
+
+    it("reports tightened bounds", () => {
+        expect(
+            checkSchemaCompatibility({ minimum: 0, maximum: 10 }, { minimum: 1, maximum: 10 }).breakingChanges,
+        ).toEqual([
+            {
+                kind: "bound-tightened",
+                path: "",
+                keyword: "minimum",
+                message: '"minimum" was tightened from 0 to 1',
+            },
+        ]);
+        expect(kinds({ exclusiveMinimum: 0 }, { minimum: 0 })).toEqual([]);
+        expect(kinds({ minimum: 0 }, { exclusiveMinimum: 0 })).toEqual([["bound-tightened", ""]]);
+        expect(kinds({ multipleOf: 0.2 }, { multipleOf: 0.1 })).toEqual([]);
+        expect(kinds({ multipleOf: 0.1 }, { multipleOf: 0.2 })).toEqual([["bound-tightened", ""]]);
+        expect(kinds({ multipleOf: 1000000000.5 }, { multipleOf: 1 })).toEqual([["bound-tightened", ""]]);
+        expect(kinds({ type: "string" }, { type: "string", maxLength: 20 })).toEqual([["bound-tightened", ""]]);
+        expect(kinds({ type: "array", minItems: 2 }, { type: "array", minItems: 1 })).toEqual([]);
+    });
+
+    it("ignores keywords that do not apply to the old schema's types", () => {
+        expect(kinds({ type: "string" }, { type: "string", minimum: 3, minItems: 1, required: ["a"] })).toEqual([]);
+    });
+
+    it("reports removed enum members and new restrictions", () => {
+        expect(checkSchemaCompatibility({ enum: ["a", "b", "c"] }, { enum: ["a", "b"] }).breakingChanges).toEqual([
+            { kind: "enum-narrowed", path: "", keyword: "enum", message: 'Enum member "c" was removed' },
+        ]);
+        expect(kinds({ enum: ["a", 1] }, { type: "string" })).toEqual([["type-narrowed", ""]]);
+        expect(kinds({ const: "a" }, { type: "string", minLength: 1 })).toEqual([]);
+        expect(kinds({ type: "string" }, { enum: ["a"] })).toEqual([["enum-narrowed", ""]]);
+    });
+
+    it("compares nested properties, items, and tuples", () => {
+        const oldSchema: JsonSchema = {
+            type: "object",
+            properties: {
+                tags: { type: "array", items: { type: "string" } },
+                point: { type: "array", prefixItems: [{ type: "number" }, { type: "number" }] },
+            },
+        };
+        const newSchema: JsonSchema = {
+            type: "object",
+            properties: {
+                tags: { type: "array", items: { type: "string", maxLength: 10 } },
+                point: { type: "array", prefixItems: [{ type: "number" }, { type: "integer" }], items: {} },
+            },
+        };
+        expect(kinds(oldSchema, newSchema)).toEqual([
+            ["bound-tightened", "/properties/tags/items"],
+            ["type-narrowed", "/properties/point/prefixItems/1"],
+        ]);
+    });
+
+    it("treats new constraints on properties the old schema left open as breaking", () => {
+        expect(kinds({ type: "object" }, { type: "object", properties: { size: { type: "number" } } })).toEqual([
+            ["type-narrowed", "/properties/size"],
+        ]);
+        expect(
+            kinds(
+                { type: "object", additionalProperties: false },
+                { type: "object", properties: { size: { type: "number" } } },
+            ),
+        ).toEqual([]);
+    });
+
+    it("reports properties that are no longer allowed", () => {
+        expect(
+            checkSchemaCompatibility(
+                { type: "object", properties: { a: {} } },
+                { type: "object", properties: { b: {} }, additionalProperties: false },
+            ).breakingChanges,
+        ).toEqual([
+            {
+                kind: "property-disallowed",
+                path: "/properties/a",
+                keyword: "additionalProperties",
+                message: "Property is no longer allowed",
+            },
+            {
+                kind: "property-disallowed",
+                path: "/additionalProperties",
+                keyword: "additionalProperties",
+                message: "Property is no longer allowed",
+            },
+        ]);
+        expect(
+            kinds(
+                { type: "object", patternProperties: { "^x-": { type: "string" } }, additionalProperties: false },
+                {
+                    type: "object",
+                    patternProperties: { "^x-": { type: ["string", "null"] } },
+                    additionalProperties: false,
+                },
+            ),
+        ).toEqual([]);
+    });
+
+    it("reports new string constraints and unique items", () => {
+        expect(kinds({ type: "string" }, { type: "string", format: "email" })).toEqual([["constraint-changed", ""]]);
+        expect(kinds({ type: "string", pattern: "^a" }, { type: "string", pattern: "^a" })).toEqual([]);
+        expect(kinds({ type: "array" }, { type: "array", uniqueItems: true })).toEqual([["constraint-changed", ""]]);
+    });
+
+    it("compares composition keywords structurally and $defs in place", () => {
+        expect(kinds({ anyOf: [{ type: "string" }] }, { anyOf: [{ type: "number" }] })).toEqual([
+            ["constraint-changed", ""],
+        ]);
+        expect(kinds({ anyOf: [{ type: "string" }] }, {})).toEqual([]);
+        expect(
+            kinds(
+                { $defs: { id: { type: "string" } }, properties: { id: { $ref: "#/$defs/id" } } },
+                { $defs: { id: { type: "string", minLength: 3 } }, properties: { id: { $ref: "#/$defs/id" } } },
+            ),
+        ).toEqual([["bound-tightened", "/$defs/id"]]);
+    });
+});
+
+describe("FromJsonSchema", () => {
+    it("maps primitive types", () => {
+        expectTypeOf<FromJsonSchema<{ type: "string" }>>().toEqualTypeOf<string>();
+        expectTypeOf<FromJsonSchema<{ type: "integer" }>>().toEqualTypeOf<number>();
+        expectTypeOf<FromJsonSchema<{ type: "boolean" }>>().toEqualTypeOf<boolean>();
+        expectTypeOf<FromJsonSchema<{ type: "null" }>>().toEqualTypeOf<null>();
+    });
+
+    it("maps type unions", () => {
+        const schema = { type: ["string", "null"] } as const;
+        expectTypeOf<FromJsonSchema<typeof schema>>().toEqualTypeOf<string | null>();
+    });
+
+    it("maps enum and const", () => {
+        const mode = { enum: ["light", "dark", 0] } as const;
+        expectTypeOf<FromJsonSchema<typeof mode>>().toEqualTypeOf<"light" | "dark" | 0>();
+        expectTypeOf<FromJsonSchema<{ type: "string"; const: "v1" }>>().toEqualTypeOf<"v1">();
+    });
+
+    it("maps arrays with and without items", () => {
+        const tags = { type: "array", items: { type: "string" } } as const;
+        expectTypeOf<FromJsonSchema<typeof tags>>().toEqualTypeOf<string[]>();
+        expectTypeOf<FromJsonSchema<{ type: "array" }>>().toEqualTypeOf<unknown[]>();
+    });
+
+    it("treats properties with a default as present", () => {
+        const settings = {
+            type: "object",
+            properties: { theme: { type: "string" }, fontSize: { type: "number", default: 14 } },
+        } as const;
+        expectTypeOf<FromJsonSchema<typeof settings>>().toEqualTypeOf<{ theme?: string; fontSize: number }>();
+    });
+
+    it("maps patternProperties to an index signature", () => {
+        const prefs = { type: "object", properties: { theme: { type: "string" } }, required: ["theme"] } as const;
+        const byUser = { type: "object", patternProperties: { "^u": prefs }, additionalProperties: false } as const;
+        expectTypeOf<FromJsonSchema<typeof byUser>>().toEqualTypeOf<{ [key: string]: { theme: string } }>();
+        const mixed = {
+            type: "object",
+            properties: { count: { type: "number" } },
+            patternProperties: { "^x-": { type: "string" } },
+            additionalProperties: { type: "boolean" },
+        } as const;
+        expectTypeOf<FromJsonSchema<typeof mixed>>().toEqualTypeOf<{
+            [key: string]: string | number | boolean;
+            count?: number;
+        }>();
+    });
+
+    it("maps prefixItems to a tuple", () => {
+        const position = { type: "array", prefixItems: [{ type: "number" }, { type: "string" }] } as const;
+        expectTypeOf<FromJsonSchema<typeof position>>().toEqualTypeOf<[number, string, ...unknown[]]>();
+        const row = { type: "array", prefixItems: [{ type: "string" }], items: { type: "number" } } as const;
+        expectTypeOf<FromJsonSchema<typeof row>>().toEqualTypeOf<[string, ...number[]]>();
+    });
+
+    it("maps required and optional properties", () => {
+        const user = {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                age: { type: "number" },
+                address: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+            },
+            required: ["name", "id"],
+        } as const;
+        expectTypeOf<FromJsonSchema<typeof user>>().toEqualTypeOf<{
+            name: string;
+            id: unknown;
+            age?: number;
+            address?: { city: string };
+        }>();
+    });
+
+    it("maps additionalProperties", () => {
+        const closed = { type: "object", properties: { a: { type: "string" } }, additionalProperties: false } as const;
+        expectTypeOf<FromJsonSchema<typeof closed>>().toEqualTypeOf<{ a?: string }>();
+
+        const open = { type: "object", properties: { a: { type: "string" } }, additionalProperties: true } as const;
+        expectTypeOf<FromJsonSchema<typeof open>>().toEqualTypeOf<{ a?: string; [key: string]: unknown }>();
+
+        const scores = { type: "object", additionalProperties: { type: "number" } } as const;
+        expectTypeOf<FromJsonSchema<typeof scores>>().toEqualTypeOf<{ [key: string]: number }>();
+
+        expectTypeOf<FromJsonSchema<{ type: "object" }>>().toEqualTypeOf<{ [key: string]: unknown }>();
+    });
+
+    it("infers unknown for schemas without type information", () => {
+        expectTypeOf<FromJsonSchema<{ minLength: 1 }>>().toBeUnknown();
+        expectTypeOf<FromJsonSchema<JsonSchema>>().toBeUnknown();
+    });
+
+    it("maps composition keywords", () => {
+        const id = { anyOf: [{ type: "string" }, { type: "integer" }] } as const;
+        expectTypeOf<FromJsonSchema<typeof id>>().toEqualTypeOf<string | number>();
+
+        const view = {
+            oneOf: [
+                {
+                    type: "object",
+                    properties: { mode: { const: "list" }, pageSize: { type: "integer" } },
+                    required: ["mode", "pageSize"],
+                },
+                {
+                    type: "object",
+                    properties: { mode: { const: "map" }, zoom: { type: "number" } },
+                    required: ["mode"],
+                },
+            ],
+        } as const;
+        expectTypeOf<FromJsonSchema<typeof view>>().toEqualTypeOf<
+            { mode: "list"; pageSize: number } | { mode: "map"; zoom?: number }
+        >();
+
+        const named = {
+            allOf: [
+                { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+                { type: "object", properties: { age: { type: "number" } }, required: ["age"] },
+            ],
+        } as const;
+        expectTypeOf<FromJsonSchema<typeof named>>().toMatchTypeOf<{ name: string; age: number }>();
+    });
+});
@@ -10,6 +10,8 @@
  *
  * JSON Schema documents are plain JSON objects (inherently serializable),
  * making them suitable for storage alongside the data they describe.
+ * {@link FromJsonSchema} derives the matching TypeScript type from a
+ * schema literal.
  */
 
 /**
@@ -24,20 +26,24 @@ export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "null
  *
  * Supported keywords:
  *   type, enum, const,
- *   minimum, maximum, exclusiveMinimum, exclusiveMaximum,
- *   minLength, maxLength,
+ *   minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf,
+ *   minLength, maxLength, pattern, format,
  *   properties, required, additionalProperties,
- *   items, minItems, maxItems
+ *   patternProperties, propertyNames, dependentRequired,
+ *   items, prefixItems, minItems, maxItems, uniqueItems,
+ *   contains, minContains, maxContains,
+ *   allOf, anyOf, oneOf, not, if/then/else,
+ *   $ref, $defs,
+ *   default (applied by {@link applyJsonSchemaDefaults}, not validated)
  *
- * Deliberately omitted: $ref, $id, $schema, $defs, allOf, anyOf,
- * oneOf, not, pattern, format, patternProperties, if/then/else,
- * dependencies, uniqueItems, multipleOf, propertyNames.
+ * Deliberately omitted: $id, $schema, dependencies, dependentSchemas,
+ * unevaluatedProperties, unevaluatedItems.
  *
  * An empty schema `{}` accepts any value.
  */
 export interface JsonSchema {
     /** The expected JSON type(s). An array form like `["string", "null"]` accepts either type. */
-    type?: JsonSchemaType | JsonSchemaType[];
+    type?: JsonSchemaType | readonly JsonSchemaType[];
 
     /** The value must be deeply equal to one of these entries. */
     enum?: readonly unknown[];
@@ -45,6 +51,13 @@ export interface JsonSchema {
     /** The value must be deeply equal to this exact value. */
     const?: unknown;
 
+    /**
+     * Value for a missing object property, filled in by
+     * {@link applyJsonSchemaDefaults}. Declared on the property's own schema.
+     * Does not affect validation.
+     */
+    default?: unknown;
+
     /** Inclusive lower bound for numbers. */
     minimum?: number;
 
@@ -57,12 +70,31 @@ export interface JsonSchema {
     /** Exclusive upper bound for numbers. */
     exclusiveMaximum?: number;
 
+    /**
+     * Numbers must be a multiple of this positive number. Compared with a
+     * small tolerance, so `0.3` is a multiple of `0.1`.
+     */
+    multipleOf?: number;
+
     /** Minimum string length (inclusive). */
     minLength?: number;
 
     /** Maximum string length (inclusive). */
     maxLength?: number;
 
+    /**
+     * Regular expression strings must match, compiled with the `u` flag.
+     * Unanchored, like JSON Schema: add `^` and `$` to match the whole string.
+     */
+    pattern?: string;
+
+    /**
+     * Named string format, checked by the validator registered for it with
+     * {@link registerJsonSchemaFormat}. Built in: `email`, `uuid`,
+     * `date-time`, `date`, `uri`, and `ipv4`. Unknown formats are ignored.
+     */
+    format?: string;
+
     /** Property name to sub-schema mapping for objects. */
     properties?: Record<string, JsonSchema>;
 
@@ -70,22 +102,251 @@ export interface JsonSchema {
     required?: readonly string[];
 
     /**
-     * Controls extra properties not listed in `properties`.
+     * Regular expression (compiled with the `u` flag) to sub-schema mapping.
+     * Every property whose name matches a pattern must match its schema.
+     */
+    patternProperties?: Record<string, JsonSchema>;
+
+    /** Schema every property name must match, e.g. `{ pattern: "^u_" }`. */
+    propertyNames?: JsonSchema;
+
+    /**
+     * Properties that become required when another property is present:
+     * `{ creditCard: ["billingZip"] }` requires `billingZip` alongside
+     * `creditCard`.
+     */
+    dependentRequired?: Record<string, readonly string[]>;
+
+    /**
+     * Controls extra properties not listed in `properties` or matched by
+     * `patternProperties`.
      * `false` disallows them. A schema validates their values.
      * `true` (or omitted) allows anything.
      */
     additionalProperties?: boolean | JsonSchema;
 
-    /** Schema applied to every element of an array. */
+    /**
+     * Schema applied to every element of an array, or to every element
+     * after those covered by `prefixItems`.
+     */
     items?: JsonSchema;
 
+    /**
+     * Schemas for the leading elements of an array, by position, for
+     * tuple-like values. Elements beyond the array's length are not
+     * required; use `minItems` for that.
+     */
+    prefixItems?: readonly JsonSchema[];
+
     /** Minimum array length (inclusive). */
     minItems?: number;
 
     /** Maximum array length (inclusive). */
     maxItems?: number;
+
+    /** When `true`, no two array elements may be deeply equal. */
+    uniqueItems?: boolean;
+
+    /** Arrays must contain at least `minContains` elements matching this schema. */
+    contains?: JsonSchema;
+
+    /** Minimum number of elements matching `contains` (default 1; 0 disables the check). */
+    minContains?: number;
+
+    /** Maximum number of elements matching `contains`. */
+    maxContains?: number;
+
+    /** The value must match every one of these schemas. */
+    allOf?: readonly JsonSchema[];
+
+    /** The value must match at least one of these schemas. */
+    anyOf?: readonly JsonSchema[];
+
+    /** The value must match exactly one of these schemas. */
+    oneOf?: readonly JsonSchema[];
+
+    /** The value must not match this schema. */
+    not?: JsonSchema;
+
+    /** Condition selecting whether `then` or `else` applies. */
+    if?: JsonSchema;
+
+    /** Applies when the value matches `if`. */
+    then?: JsonSchema;
+
+    /** Applies when the value does not match `if`. */
+    else?: JsonSchema;
+
+    /** Reusable schema fragments, referenced as `"#/$defs/<name>"`. */
+    $defs?: Record<string, JsonSchema>;
+
+    /**
+     * The value must also match the referenced schema.
+     *
+     * `"#"` refers to the root schema and `"#/$defs/<name>"` (or any other
+     * JSON Pointer fragment) to a schema inside it, so fragments may refer
+     * to themselves to describe recursive structures. A reference with a
+     * document part, like `"address"` or `"address#/$defs/street"`, is
+     * resolved by {@link CompileSchemaOptions.resolveSchema}.
+     */
+    $ref?: string;
 }
 
+/**
+ * Flattens an intersection of object types into a single object type.
+ */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Value type for one JSON Schema `type` keyword. Distributes over unions.
+ */
+type FromJsonSchemaType<S, T> = T extends "string"
+    ? string
+    : T extends "number" | "integer"
+      ? number
+      : T extends "boolean"
+        ? boolean
+        : T extends "null"
+          ? null
+          : T extends "object"
+            ? FromObjectSchema<S>
+            : T extends "array"
+              ? FromArraySchema<S>
+              : never;
+
+/**
+ * Element type for an array schema's `items`.
+ */
+type ArrayItems<S> = S extends { items: infer I } ? FromJsonSchema<I> : unknown;
+
+/**
+ * Value type for an array schema: a tuple when `prefixItems` is present,
+ * with `items` typing any further elements.
+ */
+type FromArraySchema<S> = S extends { prefixItems: infer P extends readonly unknown[] }
+    ? [...{ -readonly [I in keyof P]: FromJsonSchema<P[I]> }, ...ArrayItems<S>[]]
+    : ArrayItems<S>[];
+
+/**
+ * Names listed in an object schema's `required` keyword.
+ */
+type RequiredNames<S> = S extends { required: readonly (infer N)[] } ? Extract<N, string> : never;
+
+/**
+ * Names of properties whose schema declares a `default`. Reads fill them
+ * in, so they are always present. A default reached through `$ref` is
+ * filled in too, but not counted here, so such properties stay optional.
+ */
+type DefaultedNames<P> = { [K in keyof P]: P[K] extends { default: unknown } ? K : never }[keyof P] & string;
+
+/**
+ * Index signature contributed by an object schema's `additionalProperties`.
+ */
+type AdditionalProperties<S, Known> = S extends { patternProperties: infer PP }
+    ? { [key: string]: FromJsonSchema<PP[keyof PP]> | Known[keyof Known] | ExtraPropertyValue<S> }
+    : S extends { additionalProperties: false }
+      ? {}
+      : S extends { additionalProperties: true }
+        ? { [key: string]: unknown }
+        : S extends { additionalProperties: infer A }
+          ? { [key: string]: FromJsonSchema<A> | Known[keyof Known] }
+          : S extends { properties: object } | { required: readonly unknown[] }
+            ? {}
+            : { [key: string]: unknown };
+
+/**
+ * Value type of properties matched by neither `properties` nor
+ * `patternProperties`.
+ */
+type ExtraPropertyValue<S> = S extends { additionalProperties: false }
+    ? never
+    : S extends { additionalProperties: infer A }
+      ? A extends true
+          ? unknown
+          : FromJsonSchema<A>
+      : unknown;
+
+/**
+ * Value type for an object schema.
+ */
+type FromObjectSchema<
+    S,
+    P = S extends { properties: infer Props } ? Props : {},
+    R extends string = RequiredNames<S> | DefaultedNames<P>,
+> = Simplify<
+    { [K in keyof P & R]: FromJsonSchema<P[K]> } & { [K in Exclude<keyof P, R>]?: FromJsonSchema<P[K]> } & {
+        [K in Exclude<R, keyof P>]: unknown;
+    } & AdditionalProperties<S, { [K in keyof P]: FromJsonSchema<P[K]> }>
+>;
+
+/**
+ * Intersection of the value types of a tuple of schemas.
+ */
+type FromAllOf<B> = B extends readonly [infer Head, ...infer Rest] ? FromJsonSchema<Head> & FromAllOf<Rest> : unknown;
+
+/**
+ * Value type contributed by `allOf`, `anyOf`, and `oneOf`.
+ */
+type FromCompositeSchema<S> = (S extends { allOf: infer B } ? FromAllOf<B> : unknown) &
+    (S extends { anyOf: readonly (infer B)[] } ? FromJsonSchema<B> : unknown) &
+    (S extends { oneOf: readonly (infer B)[] } ? FromJsonSchema<B> : unknown);
+
+/**
+ * Infers the TypeScript type of the values a {@link JsonSchema} accepts.
+ *
+ * The schema must be a literal type, so declare it `as const` (or pass it
+ * where a `const` type parameter captures it, as `createSchemaRegistry`
+ * does). A schema typed as plain `JsonSchema` infers `unknown`.
+ *
+ * Mapping:
+ * - `const` infers its literal value and `enum` the union of its members.
+ * - `type` maps each listed type; an array of types infers their union.
+ *   `"integer"` infers `number`.
+ * - `items` types array elements (`unknown[]` without it).
+ * - `properties` listed in `required` are required, other properties are
+ *   optional, and required names without a property schema are `unknown`.
+ * - `additionalProperties: false` or omitted allows only the listed
+ *   properties, `true` adds a `string` index signature of `unknown`, and a
+ *   schema types the index signature. An object schema with neither
+ *   `properties` nor `required` infers `Record<string, unknown>`.
+ * - `anyOf` and `oneOf` infer the union of their branches and `allOf` the
+ *   intersection, combined with the rest of the schema. Give each branch
+ *   its own `type`. `not` does not affect the type.
+ * - A schema without `type`, `enum`, `const`, or composition keywords
+ *   infers `unknown`.
+ *
+ * Validation-only keywords (bounds, lengths, item counts) do not affect the
+ * inferred type.
+ *
+ * @template S - The JSON Schema literal type
+ *
+ * @example
+ * ```typescript
+ * const userSchema = {
+ *   type: "object",
+ *   properties: {
+ *     name: { type: "string" },
+ *     role: { enum: ["admin", "member"] },
+ *     tags: { type: "array", items: { type: "string" } },
+ *   },
+ *   required: ["name", "role"],
+ * } as const;
+ *
+ * type User = FromJsonSchema<typeof userSchema>;
+ * // { name: string; role: "admin" | "member"; tags?: string[] }
+ * ```
+ *
+ * @see {@link SchemaRegistryValue} - Value type of a key in a typed registry
+ */
+export type FromJsonSchema<S> = (S extends { const: infer C }
+    ? C
+    : S extends { enum: readonly (infer E)[] }
+      ? E
+      : S extends { type: infer T }
+        ? FromJsonSchemaType<S, T extends readonly (infer U)[] ? U : T>
+        : unknown) &
+    FromCompositeSchema<S>;
+
 /**
  * A single validation error produced by {@link validateJsonSchema}.
  */
@@ -157,6 +418,74 @@ export function jsonDeepEqual(a: unknown, b: unknown): boolean {
     return false;
 }
 
+/**
+ * Checks whether a string is valid for a JSON Schema `format`.
+ */
+export type JsonSchemaFormatValidator = (value: string) => boolean;
+
+/** Whether a year/month/day triple names a real calendar date. */
+function isCalendarDate(year: number, month: number, day: number): boolean {
+    if (month < 1 || month > 12 || day < 1) return false;
+    const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+    const daysInMonth = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1]!;
+    return day <= daysInMonth;
+}
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME_RE = /^(\d{4})-(\d{2})-(\d{2})[Tt ](\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[Zz]|[+-](\d{2}):(\d{2}))$/;
+const IPV4_OCTET = "(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const IPV4_RE = new RegExp(`^${IPV4_OCTET}(?:\\.${IPV4_OCTET}){3}$`);
+
+/**
+ * Registered `format` validators. Looked up when a value is validated, so
+ * formats registered after a schema is compiled still apply.
+ */
+const formatValidators = new Map<string, JsonSchemaFormatValidator>([
+    ["email", (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)],
+    ["uuid", (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)],
+    [
+        "date",
+        (value) => {
+            const match = DATE_RE.exec(value);
+            return match !== null && isCalendarDate(Number(match[1]), Number(match[2]), Number(match[3]));
+        },
+    ],
+    [
+        "date-time",
+        (value) => {
+            const match = DATE_TIME_RE.exec(value);
+            if (match === null || !isCalendarDate(Number(match[1]), Number(match[2]), Number(match[3]))) {
+                return false;
+            }
+            const [hour, minute, second] = [Number(match[4]), Number(match[5]), Number(match[6])];
+            const offsetOk = match[7] === undefined || (Number(match[7]) < 24 && Number(match[8]) < 60);
+            // Second 60 allows for leap seconds.
+            return hour < 24 && minute < 60 && second <= 60 && offsetOk;
+        },
+    ],
+    ["uri", (value) => /^[a-z][a-z\d+.-]*:[^\s]*$/i.test(value)],
+    ["ipv4", (value) => IPV4_RE.test(value)],
+]);
+
+/**
+ * Registers the validator for a JSON Schema `format`, replacing any
+ * existing one (including the built-ins).
+ *
+ * Formats apply to strings only. Values of other types pass `format`.
+ *
+ * @param name - The format name used in schemas
+ * @param validator - Returns `true` for valid strings
+ *
+ * @example
+ * ```typescript
+ * registerJsonSchemaFormat("hex-color", (value) => /^#[0-9a-f]{6}$/i.test(value));
+ * validateJsonSchema("#ff0000", { type: "string", format: "hex-color" }); // []
+ * ```
+ */
+export function registerJsonSchemaFormat(name: string, validator: JsonSchemaFormatValidator): void {
+    formatValidators.set(name, validator);
+}
+
 /**
  * A pre-compiled validation function generated by {@link compileSchema}.
  *
@@ -165,34 +494,245 @@ export function jsonDeepEqual(a: unknown, b: unknown): boolean {
  */
 export type CompiledValidator = (value: unknown, path?: string) => JsonSchemaValidationError[];
 
-/** Module-level cache: schema object identity → compiled validator. */
-const compiledCache = new WeakMap<JsonSchema, CompiledValidator>();
+/**
+ * Options for {@link compileSchema}.
+ */
+export type CompileSchemaOptions = {
+    /**
+     * Resolves the document part of a `$ref` that does not start with `#`
+     * (`"address"` in `"address#/$defs/street"`) to that document's root
+     * schema. Returns `undefined` for unknown documents.
+     *
+     * Called each time such a reference is validated, so it may return
+     * different schemas over time. Pass the same function on every call to
+     * keep {@link compileSchema}'s cache effective.
+     */
+    resolveSchema?: (uri: string) => JsonSchema | undefined;
+};
+
+type SchemaResolver = (uri: string) => JsonSchema | undefined;
+
+/**
+ * Compilation state shared by every schema inside one root schema:
+ * `$ref` fragments resolve against `root`, and each schema object is
+ * compiled once.
+ */
+type CompileContext = {
+    root: JsonSchema;
+    resolveSchema: SchemaResolver | undefined;
+    validators: Map<JsonSchema, CompiledValidator>;
+};
+
+/** Module-level cache: root schema object identity → compile context. */
+const rootContexts = new WeakMap<JsonSchema, CompileContext>();
+
+/** Like `rootContexts`, for schemas compiled with a `resolveSchema` option. */
+const resolverContexts = new WeakMap<SchemaResolver, WeakMap<JsonSchema, CompileContext>>();
 
 /**
  * Pre-compiles a {@link JsonSchema} into a reusable validation function.
  *
  * Inspects the schema once and builds a specialized closure that
  * eliminates runtime branching for unused keywords, pre-converts
- * `required` arrays to `Set`s, recursively pre-compiles nested property
- * and item schemas, and pre-builds primitive `Set`s for O(1) enum
- * lookups when possible.
+ * `required` arrays to `Set`s, compiles `pattern` and `patternProperties`
+ * regular expressions, recursively pre-compiles nested property, item
+ * (`items`/`prefixItems`/`contains`), and composition
+ * (`allOf`/`anyOf`/`oneOf`/`not`/`if`) schemas, and pre-builds primitive
+ * `Set`s for O(1) enum lookups when possible.
+ *
+ * When no branch of an `anyOf` or `oneOf` matches, the validator reports
+ * which branch came closest (fewest `const`/`enum` mismatches or wrong
+ * types for the value itself, then fewest errors) along with that branch's
+ * errors, so discriminated unions point at the fields that need fixing.
+ *
+ * `$ref` targets are compiled the first time they are needed, which lets
+ * recursive references describe trees. A reference that cannot be resolved
+ * is reported as a validation error with keyword `"$ref"`.
  *
  * Results are cached by schema object identity in a `WeakMap`, so
  * calling `compileSchema` with the same schema reference is free
  * after the first call.
  *
  * @param schema - The JSON Schema to compile
+ * @param options - How to resolve references to other schema documents
  * @returns A compiled validation function
+ * @throws {SyntaxError} When a `pattern` is not a valid regular expression
+ *
+ * @example
+ * ```typescript
+ * const validate = compileSchema({
+ *     $defs: {
+ *         node: {
+ *             type: "object",
+ *             properties: { children: { type: "array", items: { $ref: "#/$defs/node" } } },
+ *         },
+ *     },
+ *     $ref: "#/$defs/node",
+ * });
+ * validate({ children: [{ children: [] }] }); // []
+ * ```
  */
-export function compileSchema(schema: JsonSchema): CompiledValidator {
-    const cached = compiledCache.get(schema);
-    if (cached) return cached;
+export function compileSchema(schema: JsonSchema, options: CompileSchemaOptions = {}): CompiledValidator {
+    return compileInContext(schema, contextFor(schema, options.resolveSchema));
+}
+
+/**
+ * Returns the cached compile context for a root schema, creating it on
+ * first use.
+ */
+function contextFor(root: JsonSchema, resolveSchema: SchemaResolver | undefined): CompileContext {
+    let contexts = rootContexts;
+    if (resolveSchema) {
+        contexts = resolverContexts.get(resolveSchema) ?? new WeakMap();
+        resolverContexts.set(resolveSchema, contexts);
+    }
+    let context = contexts.get(root);
+    if (!context) {
+        context = { root, resolveSchema, validators: new Map() };
+        contexts.set(root, context);
+    }
+    return context;
+}
 
-    const compiled = buildValidator(schema);
-    compiledCache.set(schema, compiled);
+/**
+ * Compiles a schema within a root schema's context, reusing an earlier
+ * result for the same schema object.
+ */
+function compileInContext(schema: JsonSchema, context: CompileContext): CompiledValidator {
+    let compiled = context.validators.get(schema);
+    if (!compiled) {
+        compiled = buildValidator(schema, context);
+        context.validators.set(schema, compiled);
+    }
     return compiled;
 }
 
+/**
+ * Follows a JSON Pointer fragment (without the leading `#`) from a root
+ * schema. Returns `undefined` when the pointer does not lead to a schema.
+ */
+function resolvePointer(root: JsonSchema, pointer: string): JsonSchema | undefined {
+    if (pointer !== "" && !pointer.startsWith("/")) return undefined;
+    let target: unknown = root;
+    for (const segment of pointer.split("/").slice(1)) {
+        const name = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+        if (typeof target !== "object" || target === null || !Object.prototype.hasOwnProperty.call(target, name)) {
+            return undefined;
+        }
+        target = (target as Record<string, unknown>)[name];
+    }
+    return typeof target === "object" && target !== null && !Array.isArray(target) ? (target as JsonSchema) : undefined;
+}
+
+/**
+ * Finds the schema a `$ref` points at, along with the root schema its own
+ * references resolve against. Fragment-only references resolve against
+ * `root`; others ask the resolver for the referenced document first.
+ * Returns `undefined` when unresolvable.
+ */
+function findRefTarget(
+    ref: string,
+    root: JsonSchema,
+    resolveSchema: SchemaResolver | undefined,
+): { schema: JsonSchema; root: JsonSchema } | undefined {
+    const hash = ref.indexOf("#");
+    const uri = hash === -1 ? ref : ref.slice(0, hash);
+    const pointer = hash === -1 ? "" : ref.slice(hash + 1);
+
+    let targetRoot = root;
+    if (uri !== "") {
+        const document = resolveSchema?.(uri);
+        if (!document) return undefined;
+        targetRoot = document;
+    }
+
+    let schema: JsonSchema | undefined;
+    try {
+        schema = resolvePointer(targetRoot, pointer);
+    } catch {
+        return undefined; // malformed percent-encoding
+    }
+    return schema ? { schema, root: targetRoot } : undefined;
+}
+
+/**
+ * Compiles the target of a `$ref` in the context of its root schema.
+ * Returns `undefined` when unresolvable.
+ */
+function resolveRef(ref: string, context: CompileContext): CompiledValidator | undefined {
+    const target = findRefTarget(ref, context.root, context.resolveSchema);
+    return target ? compileInContext(target.schema, contextFor(target.root, context.resolveSchema)) : undefined;
+}
+
+/**
+ * Picks the failed branch of an `anyOf` or `oneOf` that came closest to
+ * matching: the one with the fewest shape mismatches (a wrong type for the
+ * value itself, or a `const`/`enum` discriminator that differs), then the
+ * fewest errors. Ties go to the earlier branch.
+ */
+function closestBranch(branchErrors: readonly JsonSchemaValidationError[][], path: string): number {
+    let best = 0;
+    let bestShape = Infinity;
+    let bestTotal = Infinity;
+    branchErrors.forEach((errors, index) => {
+        const shape = errors.filter(
+            (e) => e.keyword === "const" || e.keyword === "enum" || (e.keyword === "type" && e.path === path),
+        ).length;
+        if (shape < bestShape || (shape === bestShape && errors.length < bestTotal)) {
+            best = index;
+            bestShape = shape;
+            bestTotal = errors.length;
+        }
+    });
+    return best;
+}
+
+/**
+ * Reports an `anyOf` or `oneOf` that no branch matched: a summary error
+ * naming the closest branch, followed by that branch's errors.
+ */
+function noBranchMatched(
+    keyword: "anyOf" | "oneOf",
+    branchErrors: JsonSchemaValidationError[][],
+    path: string,
+): JsonSchemaValidationError[] {
+    const closest = closestBranch(branchErrors, path);
+    return [
+        {
+            path,
+            message: `Value does not match any schema in ${keyword}; closest match is ${keyword}[${closest}]`,
+            keyword,
+        },
+        ...branchErrors[closest]!,
+    ];
+}
+
+/**
+ * Tests `multipleOf`. Integer values and divisors are checked exactly, since
+ * `%` is exact for doubles. Fractional divisors use the remainder against the
+ * nearest multiple, allowing a few ulps of the value so binary rounding
+ * (`0.3 / 0.1 === 2.9999999999999996`) does not cause failures.
+ */
+function isMultipleOf(value: number, divisor: number): boolean {
+    if (Number.isInteger(value) && Number.isInteger(divisor)) return value % divisor === 0;
+    const quotient = Math.round(value / divisor);
+    if (!Number.isFinite(quotient)) return false;
+    return Math.abs(value - quotient * divisor) <= Number.EPSILON * Math.max(1, Math.abs(value)) * 4;
+}
+
+/**
+ * Finds the first pair of deeply equal array elements, or `null` when all
+ * elements are distinct.
+ */
+function findDuplicate(items: readonly unknown[]): [number, number] | null {
+    for (let j = 1; j < items.length; j++) {
+        for (let i = 0; i < j; i++) {
+            if (jsonDeepEqual(items[i], items[j])) return [i, j];
+        }
+    }
+    return null;
+}
+
 /** Determines whether a value is a JSON primitive (not object/array). */
 function isJsonPrimitive(value: unknown): boolean {
     return value === null || typeof value !== "object";
@@ -203,7 +743,7 @@ function isJsonPrimitive(value: unknown): boolean {
  * All keyword-specific logic is resolved at build time so the returned
  * function contains only the checks that are relevant.
  */
-function buildValidator(schema: JsonSchema): CompiledValidator {
+function buildValidator(schema: JsonSchema, context: CompileContext): CompiledValidator {
     // --- Pre-compute: type ---
     const resolvedTypes: readonly JsonSchemaType[] | null =
         schema.type !== undefined ? (Array.isArray(schema.type) ? schema.type : [schema.type]) : null;
@@ -240,14 +780,18 @@ function buildValidator(schema: JsonSchema): CompiledValidator {
     const exMin = schema.exclusiveMinimum!;
     const hasExMax = schema.exclusiveMaximum !== undefined;
     const exMax = schema.exclusiveMaximum!;
-    const hasNumberConstraints = hasMinimum || hasMaximum || hasExMin || hasExMax;
+    const hasMultipleOf = schema.multipleOf !== undefined;
+    const multipleOf = schema.multipleOf!;
+    const hasNumberConstraints = hasMinimum || hasMaximum || hasExMin || hasExMax || hasMultipleOf;
 
     // --- Pre-compute: string constraints ---
     const hasMinLength = schema.minLength !== undefined;
     const minLen = schema.minLength!;
     const hasMaxLength = schema.maxLength !== undefined;
     const maxLen = schema.maxLength!;
-    const hasStringConstraints = hasMinLength || hasMaxLength;
+    const patternRegExp = schema.pattern !== undefined ? new RegExp(schema.pattern, "u") : null;
+    const format = schema.format;
+    const hasStringConstraints = hasMinLength || hasMaxLength || patternRegExp !== null || format !== undefined;
 
     // --- Pre-compute: object constraints ---
     const requiredKeys = schema.required;
@@ -255,25 +799,91 @@ function buildValidator(schema: JsonSchema): CompiledValidator {
     const hasProperties = schema.properties !== undefined;
     const propertyValidators: [string, CompiledValidator][] | null = hasProperties
         ? Object.entries(schema.properties!).map(
-              ([name, propSchema]) => [name, compileSchema(propSchema)] as [string, CompiledValidator],
+              ([name, propSchema]) => [name, compileInContext(propSchema, context)] as [string, CompiledValidator],
           )
         : null;
     const checkAdditional = schema.additionalProperties !== undefined && schema.additionalProperties !== true;
     const additionalIsFalse = schema.additionalProperties === false;
     const additionalValidator: CompiledValidator | null =
-        checkAdditional && !additionalIsFalse ? compileSchema(schema.additionalProperties as JsonSchema) : null;
+        checkAdditional && !additionalIsFalse
+            ? compileInContext(schema.additionalProperties as JsonSchema, context)
+            : null;
     const definedPropKeys: Set<string> | null = checkAdditional
         ? new Set(schema.properties ? Object.keys(schema.properties) : [])
         : null;
-    const hasObjectConstraints = hasRequired || hasProperties || checkAdditional;
+    const patternValidators: [RegExp, CompiledValidator][] | null = schema.patternProperties
+        ? Object.entries(schema.patternProperties).map(
+              ([pattern, propSchema]) =>
+                  [new RegExp(pattern, "u"), compileInContext(propSchema, context)] as [RegExp, CompiledValidator],
+          )
+        : null;
+    const propertyNamesValidator: CompiledValidator | null =
+        schema.propertyNames !== undefined ? compileInContext(schema.propertyNames, context) : null;
+    const dependentRequired = schema.dependentRequired ? Object.entries(schema.dependentRequired) : null;
+    const hasObjectConstraints =
+        hasRequired ||
+        hasProperties ||
+        checkAdditional ||
+        patternValidators !== null ||
+        propertyNamesValidator !== null ||
+        dependentRequired !== null;
 
     // --- Pre-compute: array constraints ---
     const hasMinItems = schema.minItems !== undefined;
     const minItems = schema.minItems!;
     const hasMaxItems = schema.maxItems !== undefined;
     const maxItems = schema.maxItems!;
-    const itemsValidator: CompiledValidator | null = schema.items !== undefined ? compileSchema(schema.items) : null;
-    const hasArrayConstraints = hasMinItems || hasMaxItems || itemsValidator !== null;
+    const itemsValidator: CompiledValidator | null =
+        schema.items !== undefined ? compileInContext(schema.items, context) : null;
+    const prefixValidators: CompiledValidator[] | null = schema.prefixItems
+        ? schema.prefixItems.map((prefix) => compileInContext(prefix, context))
+        : null;
+    const itemsStart = prefixValidators?.length ?? 0;
+    const uniqueItems = schema.uniqueItems === true;
+    const containsValidator: CompiledValidator | null =
+        schema.contains !== undefined ? compileInContext(schema.contains, context) : null;
+    const minContains = schema.minContains ?? 1;
+    const hasMaxContains = schema.maxContains !== undefined;
+    const maxContains = schema.maxContains!;
+    const hasArrayConstraints =
+        hasMinItems ||
+        hasMaxItems ||
+        itemsValidator !== null ||
+        prefixValidators !== null ||
+        uniqueItems ||
+        containsValidator !== null;
+
+    // --- Pre-compute: composition ---
+    const allOfValidators: CompiledValidator[] | null = schema.allOf
+        ? schema.allOf.map((branch) => compileInContext(branch, context))
+        : null;
+    const anyOfValidators: CompiledValidator[] | null = schema.anyOf
+        ? schema.anyOf.map((branch) => compileInContext(branch, context))
+        : null;
+    const oneOfValidators: CompiledValidator[] | null = schema.oneOf
+        ? schema.oneOf.map((branch) => compileInContext(branch, context))
+        : null;
+    const notValidator: CompiledValidator | null =
+        schema.not !== undefined ? compileInContext(schema.not, context) : null;
+    const ifValidator: CompiledValidator | null = schema.if !== undefined ? compileInContext(schema.if, context) : null;
+    const thenValidator: CompiledValidator | null =
+        schema.then !== undefined ? compileInContext(schema.then, context) : null;
+    const elseValidator: CompiledValidator | null =
+        schema.else !== undefined ? compileInContext(schema.else, context) : null;
+    const hasComposition =
+        allOfValidators !== null ||
+        anyOfValidators !== null ||
+        oneOfValidators !== null ||
+        notValidator !== null ||
+        ifValidator !== null;
+
+    // --- Pre-compute: $ref ---
+    // Targets are resolved on first use so recursive references terminate.
+    // References into other documents are resolved on every use because the
+    // resolver may start returning a different schema.
+    const ref = schema.$ref;
+    const isLocalRef = ref?.startsWith("#") ?? false;
+    let localRefValidator: CompiledValidator | undefined;
 
     // --- Empty schema fast path ---
     if (
@@ -283,7 +893,9 @@ function buildValidator(schema: JsonSchema): CompiledValidator {
         !hasNumberConstraints &&
         !hasStringConstraints &&
         !hasObjectConstraints &&
-        !hasArrayConstraints
+        !hasArrayConstraints &&
+        !hasComposition &&
+        ref === undefined
     ) {
         return (_value: unknown, _path?: string) => [];
     }
@@ -364,6 +976,13 @@ function buildValidator(schema: JsonSchema): CompiledValidator {
                     keyword: "exclusiveMaximum",
                 });
             }
+            if (hasMultipleOf && !isMultipleOf(value, multipleOf)) {
+                errors.push({
+                    path,
+                    message: `Value ${value} is not a multiple of ${multipleOf}`,
+                    keyword: "multipleOf",
+                });
+            }
         }
 
         // --- string constraints ---
@@ -382,6 +1001,20 @@ function buildValidator(schema: JsonSchema): CompiledValidator {
                     keyword: "maxLength",
                 });
             }
+            if (patternRegExp !== null && !patternRegExp.test(value)) {
+                errors.push({
+                    path,
+                    message: `String does not match pattern ${schema.pattern}`,
+                    keyword: "pattern",
+                });
+            }
+            if (format !== undefined && formatValidators.get(format)?.(value) === false) {
+                errors.push({
+                    path,
+                    message: `String is not a valid "${format}"`,
+                    keyword: "format",
+                });
+            }
         }
 
         // --- object constraints ---
@@ -409,9 +1042,45 @@ function buildValidator(schema: JsonSchema): CompiledValidator {
                 }
             }
 
-            if (checkAdditional) {
+            if (dependentRequired !== null) {
+                for (const [trigger, dependents] of dependentRequired) {
+                    if (!Object.prototype.hasOwnProperty.call(obj, trigger)) continue;
+                    for (const dependent of dependents) {
+                        if (!Object.prototype.hasOwnProperty.call(obj, dependent)) {
+                            errors.push({
+                                path,
+                                message: `Missing property "${dependent}", required when "${trigger}" is present`,
+                                keyword: "dependentRequired",
+                            });
+                        }
+                    }
+                }
+            }
+
+            if (propertyNamesValidator !== null) {
                 for (const objKey of Object.keys(obj)) {
-                    if (!definedPropKeys!.has(objKey)) {
+                    const nameErrors = propertyNamesValidator(objKey, path);
+                    if (nameErrors.length > 0) {
+                        errors.push({
+                            path,
+                            message: `Property name "${objKey}" is invalid: ${nameErrors[0]!.message}`,
+                            keyword: "propertyNames",
+                        });
+                    }
+                }
+            }
+
+            if (patternValidators !== null || checkAdditional) {
+                for (const objKey of Object.keys(obj)) {
+                    let matchedPattern = false;
+                    if (patternValidators !== null) {
+                        for (const [pattern, patternValidator] of patternValidators) {
+                            if (!pattern.test(objKey)) continue;
+                            matchedPattern = true;
+                            errors.push(...patternValidator(obj[objKey], `${path}/${objKey}`));
+                        }
+                    }
+                    if (checkAdditional && !matchedPattern && !definedPropKeys!.has(objKey)) {
                         if (additionalIsFalse) {
                             errors.push({
                                 path,
@@ -443,12 +1112,118 @@ function buildValidator(schema: JsonSchema): CompiledValidator {
                     keyword: "maxItems",
                 });
             }
+            if (prefixValidators !== null) {
+                const count = Math.min(prefixValidators.length, value.length);
+                for (let i = 0; i < count; i++) {
+                    errors.push(...prefixValidators[i]!(value[i], `${path}/${i}`));
+                }
+            }
             if (itemsValidator !== null) {
-                for (let i = 0; i < value.length; i++) {
+                for (let i = itemsStart; i < value.length; i++) {
                     const itemErrors = itemsValidator(value[i], `${path}/${i}`);
                     errors.push(...itemErrors);
                 }
             }
+            if (uniqueItems) {
+                const duplicate = findDuplicate(value);
+                if (duplicate !== null) {
+                    errors.push({
+                        path,
+                        message: `Array items ${duplicate[0]} and ${duplicate[1]} are equal`,
+                        keyword: "uniqueItems",
+                    });
+                }
+            }
+            if (containsValidator !== null) {
+                let matches = 0;
+                for (let i = 0; i < value.length; i++) {
+                    if (containsValidator(value[i], `${path}/${i}`).length === 0) matches++;
+                }
+                if (matches < minContains) {
+                    errors.push(
+                        schema.minContains === undefined
+                            ? { path, message: `Array does not contain a matching item`, keyword: "contains" }
+                            : {
+                                  path,
+                                  message: `Array contains ${matches} matching items, fewer than minContains ${minContains}`,
+                                  keyword: "minContains",
+                              },
+                    );
+                }
+                if (hasMaxContains && matches > maxContains) {
+                    errors.push({
+                        path,
+                        message: `Array contains ${matches} matching items, more than maxContains ${maxContains}`,
+                        keyword: "maxContains",
+                    });
+                }
+            }
+        }
+
+        // --- $ref ---
+        if (ref !== undefined) {
+            const refValidator = isLocalRef
+                ? (localRefValidator ??= resolveRef(ref, context))
+                : resolveRef(ref, context);
+            if (refValidator) {
+                errors.push(...refValidator(value, path));
+            } else {
+                errors.push({
+                    path,
+                    message: `Cannot resolve $ref "${ref}"`,
+                    keyword: "$ref",
+                });
+            }
+        }
+
+        // --- composition ---
+        if (hasComposition) {
+            if (allOfValidators !== null) {
+                for (const validator of allOfValidators) {
+                    errors.push(...validator(value, path));
+                }
+            }
+
+            if (anyOfValidators !== null) {
+                const branchErrors: JsonSchemaValidationError[][] = [];
+                for (const validator of anyOfValidators) {
+                    const branch = validator(value, path);
+                    if (branch.length === 0) break;
+                    branchErrors.push(branch);
+                }
+                if (branchErrors.length === anyOfValidators.length) {
+                    errors.push(...noBranchMatched("anyOf", branchErrors, path));
+                }
+            }
+
+            if (oneOfValidators !== null) {
+                const branchErrors = oneOfValidators.map((validator) => validator(value, path));
+                const matched = branchErrors.flatMap((branch, index) => (branch.length === 0 ? [index] : []));
+                if (matched.length === 0) {
+                    errors.push(...noBranchMatched("oneOf", branchErrors, path));
+                } else if (matched.length > 1) {
+                    errors.push({
+                        path,
+                        message: `Value matches ${matched.length} schemas in oneOf (${matched
+                            .map((index) => `oneOf[${index}]`)
+                            .join(", ")}); expected exactly one`,
+                        keyword: "oneOf",
+                    });
+                }
+            }
+
+            if (notValidator !== null && notValidator(value, path).length === 0) {
+                errors.push({
+                    path,
+                    message: `Value must not match the schema in not`,
+                    keyword: "not",
+                });
+            }
+
+            if (ifValidator !== null) {
+                const conditional = ifValidator(value, path).length === 0 ? thenValidator : elseValidator;
+                if (conditional !== null) errors.push(...conditional(value, path));
+            }
         }
 
         return errors;
@@ -472,6 +1247,129 @@ export function validateJsonSchema(value: unknown, schema: JsonSchema, path: str
     return compiled(value, path);
 }
 
+/**
+ * Fills in missing object properties from their schemas' `default` values.
+ *
+ * Walks the value alongside the schema through `properties`, `items`,
+ * `prefixItems`, `allOf`, and `$ref`, so nested objects are filled too,
+ * including the contents of inserted defaults. A property whose schema is a
+ * `$ref` takes the referenced schema's `default`. Defaults are copied, never
+ * shared between results. Branches of `anyOf`/`oneOf` are not followed
+ * since it is ambiguous which one applies.
+ *
+ * The input is not modified. When nothing is missing the same value is
+ * returned, so `result !== value` tells whether anything was filled.
+ *
+ * @template T - The value type
+ * @param value - The value to fill
+ * @param schema - The schema declaring the defaults
+ * @param options - How to resolve references to other schema documents
+ * @returns The value with defaults applied
+ *
+ * @example
+ * ```typescript
+ * const schema: JsonSchema = {
+ *     type: "object",
+ *     properties: { theme: { type: "string" }, fontSize: { type: "number", default: 14 } },
+ * };
+ * applyJsonSchemaDefaults({ theme: "dark" }, schema); // { theme: "dark", fontSize: 14 }
+ * ```
+ */
+export function applyJsonSchemaDefaults<T>(value: T, schema: JsonSchema, options: CompileSchemaOptions = {}): T {
+    return fillDefaults(value, schema, schema, options.resolveSchema, new Set()) as T;
+}
+
+/**
+ * Internal: recursive step of {@link applyJsonSchemaDefaults}. `expanding`
+ * holds the property schemas whose defaults are being filled, so a
+ * recursive schema whose default contains itself stops after one level.
+ */
+function fillDefaults(
+    value: unknown,
+    schema: JsonSchema,
+    root: JsonSchema,
+    resolveSchema: SchemaResolver | undefined,
+    expanding: Set<JsonSchema>,
+): unknown {
+    let result = value;
+
+    if (schema.$ref !== undefined) {
+        const target = findRefTarget(schema.$ref, root, resolveSchema);
+        if (target) result = fillDefaults(result, target.schema, target.root, resolveSchema, expanding);
+    }
+    for (const branch of schema.allOf ?? []) {
+        result = fillDefaults(result, branch, root, resolveSchema, expanding);
+    }
+
+    if (schema.properties && typeof result === "object" && result !== null && !Array.isArray(result)) {
+        const obj = result as Record<string, unknown>;
+        let filled: Record<string, unknown> | null = null;
+        for (const [name, propSchema] of Object.entries(schema.properties)) {
+            let next: unknown;
+            if (Object.prototype.hasOwnProperty.call(obj, name)) {
+                next = fillDefaults(obj[name], propSchema, root, resolveSchema, expanding);
+                if (next === obj[name]) continue;
+            } else {
+                const declared = findDefault(propSchema, root, resolveSchema);
+                if (!declared) continue;
+                next = cloneJson(declared.default);
+                if (!expanding.has(declared.schema)) {
+                    expanding.add(declared.schema);
+                    next = fillDefaults(next, propSchema, root, resolveSchema, expanding);
+                    expanding.delete(declared.schema);
+                }
+            }
+            filled ??= { ...obj };
+            filled[name] = next;
+        }
+        if (filled) result = filled;
+    }
+
+    if ((schema.items || schema.prefixItems) && Array.isArray(result)) {
+        const prefix = schema.prefixItems ?? [];
+        let filled: unknown[] | null = null;
+        const items: readonly unknown[] = result;
+        for (let i = 0; i < items.length; i++) {
+            const itemSchema = i < prefix.length ? prefix[i] : schema.items;
+            if (!itemSchema) continue;
+            const next = fillDefaults(items[i], itemSchema, root, resolveSchema, expanding);
+            if (next === items[i]) continue;
+            filled ??= [...items];
+            filled[i] = next;
+        }
+        if (filled) result = filled;
+    }
+
+    return result;
+}
+
+/**
+ * Finds the `default` a property schema declares, following `$ref`s when
+ * the schema itself has none. Returns the default along with the schema
+ * declaring it, or `undefined` when there is none or a reference does not
+ * resolve.
+ */
+function findDefault(
+    schema: JsonSchema,
+    root: JsonSchema,
+    resolveSchema: SchemaResolver | undefined,
+): { default: unknown; schema: JsonSchema } | undefined {
+    const seen = new Set<JsonSchema>();
+    let current: { schema: JsonSchema; root: JsonSchema } | undefined = { schema, root };
+    while (current && !seen.has(current.schema)) {
+        if ("default" in current.schema) return { default: current.schema.default, schema: current.schema };
+        seen.add(current.schema);
+        const ref: string | undefined = current.schema.$ref;
+        current = ref !== undefined ? findRefTarget(ref, current.root, resolveSchema) : undefined;
+    }
+    return undefined;
+}
+
+/** Copies a JSON value so inserted defaults are never shared. */
+function cloneJson(value: unknown): unknown {
+    return typeof value === "object" && value !== null ? JSON.parse(JSON.stringify(value)) : value;
+}
+
 /**
  * Returns a human-readable label for the JSON type of a value.
  */
@@ -482,28 +1380,573 @@ function jsonTypeLabel(value: unknown): string {
 }
 
 /**
- * Infers a minimal {@link JsonSchema} from a sample value.
+ * Options for {@link inferJsonSchema}, controlling how strict the inferred
+ * schema is. Every option defaults to the permissive choice, so later
+ * values with fewer properties or fractional numbers still validate.
+ */
+export type InferJsonSchemaOptions = {
+    /**
+     * List every property seen in the sample in `required`. Properties
+     * missing from some elements of an array are never required.
+     *
+     * @default false
+     */
+    required?: boolean;
+
+    /**
+     * Whether inferred object schemas accept properties not seen in the
+     * sample. `false` emits `additionalProperties: false`.
+     *
+     * @default true
+     */
+    additionalProperties?: boolean;
+
+    /**
+     * Infer `"integer"` for whole numbers. When `false`, every number is
+     * `"number"`.
+     *
+     * @default false
+     */
+    integers?: boolean;
+};
+
+/**
+ * Infers a {@link JsonSchema} from a sample value.
  *
  * Used by autoschema mode to register a schema from the first
- * successfully decoded value. The inferred schema only constrains
- * the top-level type.
+ * successfully decoded value. Objects infer `properties` (and, with
+ * `required: true`, `required`) recursively, and arrays infer `items` by merging the shapes of all their
+ * elements: properties missing from some elements become optional, mixed
+ * types become a type union such as `["string", "null"]`, and with
+ * `integers: true`, `"integer"` widens to `"number"` when both occur. Empty arrays leave `items`
+ * unconstrained, and `undefined` values (which JSON drops) infer `{}`.
  *
  * @param sample - A decoded value to infer a schema from
- * @returns A minimal JsonSchema that accepts values of the same top-level type
+ * @param options - How strict the inferred schema should be
+ * @returns A JsonSchema that accepts values shaped like the sample
+ *
+ * @example
+ * ```typescript
+ * inferJsonSchema({ name: "Ada", tags: ["a", null] }, { required: true });
+ * // {
+ * //     type: "object",
+ * //     properties: {
+ * //         name: { type: "string" },
+ * //         tags: { type: "array", items: { type: ["string", "null"] } },
+ * //     },
+ * //     required: ["name", "tags"],
+ * // }
+ * ```
  */
-export function inferJsonSchema(sample: unknown): JsonSchema {
+export function inferJsonSchema(sample: unknown, options: InferJsonSchemaOptions = {}): JsonSchema {
+    const { required = false, additionalProperties = true, integers = false } = options;
     if (sample === null) return { type: "null" };
-    if (Array.isArray(sample)) return { type: "array" };
+    if (Array.isArray(sample)) {
+        const items = sample
+            .map((item: unknown) => inferJsonSchema(item, options))
+            .reduce<JsonSchema | null>((merged, item) => (merged ? mergeInferredSchemas(merged, item) : item), null);
+        return items ? { type: "array", items } : { type: "array" };
+    }
     switch (typeof sample) {
         case "string":
             return { type: "string" };
         case "number":
-            return Number.isInteger(sample) ? { type: "number" } : { type: "number" };
+            return integers && Number.isInteger(sample) ? { type: "integer" } : { type: "number" };
         case "boolean":
             return { type: "boolean" };
-        case "object":
-            return { type: "object" };
+        case "object": {
+            const properties: Record<string, JsonSchema> = {};
+            for (const [name, value] of Object.entries(sample as Record<string, unknown>)) {
+                if (value !== undefined) properties[name] = inferJsonSchema(value, options);
+            }
+            const names = Object.keys(properties);
+            return {
+                type: "object",
+                properties,
+                ...(required && names.length > 0 ? { required: names } : {}),
+                ...(additionalProperties ? {} : { additionalProperties: false }),
+            };
+        }
         default:
             return {};
     }
 }
+
+/** The `type` keyword of a schema as a list; empty when unconstrained. */
+function typeList(schema: JsonSchema): readonly JsonSchemaType[] {
+    if (schema.type === undefined) return [];
+    return Array.isArray(schema.type) ? schema.type : [schema.type as JsonSchemaType];
+}
+
+/**
+ * Merges two schemas produced by {@link inferJsonSchema} into one that
+ * accepts values matching either: types are unioned (`"integer"` folds
+ * into `"number"`, `"null"` goes last), object properties are merged with
+ * only the properties required by both staying required, and array `items`
+ * are merged. A schema without a `type` accepts anything, so merging with
+ * one yields `{}`.
+ *
+ * Only the keywords `inferJsonSchema` emits are considered.
+ *
+ * @param a - An inferred schema
+ * @param b - Another inferred schema
+ * @returns A schema accepting values of both
+ */
+export function mergeInferredSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+    const aTypes = typeList(a);
+    const bTypes = typeList(b);
+    if (aTypes.length === 0 || bTypes.length === 0) return {};
+
+    const types = new Set<JsonSchemaType>([...aTypes, ...bTypes]);
+    if (types.has("number")) types.delete("integer");
+    const ordered: JsonSchemaType[] = [...types].filter((t) => t !== "null");
+    if (types.has("null")) ordered.push("null");
+    const merged: JsonSchema = { type: ordered.length === 1 ? ordered[0]! : ordered };
+
+    if (types.has("object")) {
+        const aObject = aTypes.includes("object") ? a : null;
+        const bObject = bTypes.includes("object") ? b : null;
+        if (aObject && bObject) {
+            const properties: Record<string, JsonSchema> = { ...aObject.properties };
+            for (const [name, propSchema] of Object.entries(bObject.properties ?? {})) {
+                const existing = properties[name];
+                properties[name] = existing ? mergeInferredSchemas(existing, propSchema) : propSchema;
+            }
+            merged.properties = properties;
+            const bRequired = new Set(bObject.required ?? []);
+            const required = (aObject.required ?? []).filter((name) => bRequired.has(name));
+            if (required.length > 0) merged.required = required;
+            if (aObject.additionalProperties === false && bObject.additionalProperties === false) {
+                merged.additionalProperties = false;
+            }
+        } else {
+            const only = (aObject ?? bObject)!;
+            if (only.properties) merged.properties = only.properties;
+            if (only.required) merged.required = only.required;
+            if (only.additionalProperties !== undefined) merged.additionalProperties = only.additionalProperties;
+        }
+    }
+
+    if (types.has("array")) {
+        const aItems = aTypes.includes("array") ? a.items : undefined;
+        const bItems = bTypes.includes("array") ? b.items : undefined;
+        const items = aItems && bItems ? mergeInferredSchemas(aItems, bItems) : (aItems ?? bItems);
+        if (items) merged.items = items;
+    }
+
+    return merged;
+}
+
+/**
+ * Kinds of change reported by {@link checkSchemaCompatibility}.
+ *
+ * - `"required-added"` — A property became required, outright or through
+ *   `dependentRequired`.
+ * - `"type-narrowed"` — A JSON type is no longer accepted.
+ * - `"bound-tightened"` — A numeric, length, or count bound, or
+ *   `multipleOf`, became stricter.
+ * - `"enum-narrowed"` — Values allowed by `enum` or `const` were removed,
+ *   or an unrestricted value became enumerated.
+ * - `"property-disallowed"` — Properties that were allowed are rejected.
+ * - `"constraint-changed"` — Another keyword changed in a way the checker
+ *   cannot prove compatible, such as a new `pattern` or a different `anyOf`.
+ */
+export type SchemaChangeKind =
+    | "required-added"
+    | "type-narrowed"
+    | "bound-tightened"
+    | "enum-narrowed"
+    | "property-disallowed"
+    | "constraint-changed";
+
+/**
+ * A change between two schemas that can make a value valid under the old
+ * schema invalid under the new one.
+ */
+export type SchemaChange = {
+    /** What kind of change this is. */
+    kind: SchemaChangeKind;
+
+    /**
+     * JSON Pointer to the changed schema within the schemas, e.g.
+     * `/properties/tags/items`. Empty string for the root.
+     */
+    path: string;
+
+    /** The keyword responsible for the change. */
+    keyword: string;
+
+    /** Human-readable description of the change. */
+    message: string;
+};
+
+/**
+ * Result of {@link checkSchemaCompatibility}.
+ */
+export type SchemaCompatibility = {
+    /**
+     * Every value valid under the old schema is valid under the new one, so
+     * stored data needs no migration.
+     */
+    backward: boolean;
+
+    /**
+     * Every value valid under the new schema is valid under the old one, so
+     * code still on the old schema can read data written with the new one.
+     */
+    forward: boolean;
+
+    /** Changes that break backward compatibility. Empty when `backward` is `true`. */
+    breakingChanges: SchemaChange[];
+};
+
+/** The old and new root schemas, against which `$ref` fragments resolve. */
+type CompatibilityRoots = { oldRoot: JsonSchema; newRoot: JsonSchema };
+
+/** Keywords compared structurally because the checker cannot reason about them. */
+const UNVERIFIED_KEYWORDS = [
+    "$ref",
+    "allOf",
+    "anyOf",
+    "oneOf",
+    "not",
+    "if",
+    "then",
+    "else",
+    "propertyNames",
+    "contains",
+    "minContains",
+    "maxContains",
+] as const;
+
+/** Validation keywords mapped to the kind of change that makes them fail a value. */
+const KEYWORD_CHANGE_KINDS: Partial<Record<string, SchemaChangeKind>> = {
+    type: "type-narrowed",
+    enum: "enum-narrowed",
+    const: "enum-narrowed",
+    minimum: "bound-tightened",
+    maximum: "bound-tightened",
+    exclusiveMinimum: "bound-tightened",
+    exclusiveMaximum: "bound-tightened",
+    multipleOf: "bound-tightened",
+    minLength: "bound-tightened",
+    maxLength: "bound-tightened",
+    minItems: "bound-tightened",
+    maxItems: "bound-tightened",
+    required: "required-added",
+    dependentRequired: "required-added",
+    additionalProperties: "property-disallowed",
+};
+
+/** Whether a value allowed by the `type` list can be of the given JSON type. */
+function mayBe(types: readonly JsonSchemaType[], type: "number" | "string" | "array" | "object"): boolean {
+    return types.length === 0 || types.includes(type) || (type === "number" && types.includes("integer"));
+}
+
+/**
+ * Every schema that applies to an object property: its `properties` entry
+ * and matching `patternProperties`, or else `additionalProperties`. `null`
+ * when the property is not allowed at all.
+ */
+function propertySchemas(schema: JsonSchema, name: string): JsonSchema[] | null {
+    const schemas: JsonSchema[] = [];
+    const named = schema.properties?.[name];
+    if (named) schemas.push(named);
+    for (const [pattern, patternSchema] of Object.entries(schema.patternProperties ?? {})) {
+        if (new RegExp(pattern, "u").test(name)) schemas.push(patternSchema);
+    }
+    if (schemas.length > 0) return schemas;
+    return extraPropertySchema(schema);
+}
+
+/** The schema for properties matched by neither `properties` nor `patternProperties`, or `null` if disallowed. */
+function extraPropertySchema(schema: JsonSchema): JsonSchema[] | null {
+    const { additionalProperties } = schema;
+    if (additionalProperties === false) return null;
+    return [additionalProperties === true || additionalProperties === undefined ? {} : additionalProperties];
+}
+
+/** Describes a bound that became stricter. */
+function tightened(keyword: string, previous: number | undefined, next: number): string {
+    return previous === undefined
+        ? `"${keyword}" of ${next} was added`
+        : `"${keyword}" was tightened from ${previous} to ${next}`;
+}
+
+/**
+ * Collects the changes that make some value valid under `prev` invalid
+ * under `next`. Conservative: when a change cannot be analyzed, it is
+ * reported.
+ */
+function collectBreakingChanges(
+    prev: JsonSchema,
+    next: JsonSchema,
+    path: string,
+    roots: CompatibilityRoots,
+    changes: SchemaChange[],
+): void {
+    const report = (kind: SchemaChangeKind, keyword: string, message: string, at: string = path) => {
+        changes.push({ kind, path: at, keyword, message });
+    };
+
+    // Equal schemas accept the same values. This also ends the recursion
+    // through unconstrained `additionalProperties`.
+    if (jsonDeepEqual(prev, next)) return;
+
+    // An enumerated old schema allows finitely many values: check each one.
+    const members = "const" in prev ? [prev.const] : prev.enum;
+    if (members) {
+        const allowed = compileInContext(prev, contextFor(roots.oldRoot, undefined));
+        const accepts = compileInContext(next, contextFor(roots.newRoot, undefined));
+        for (const member of members) {
+            if (allowed(member).length > 0) continue;
+            const error = accepts(member)[0];
+            if (!error) continue;
+            const label = JSON.stringify(member);
+            report(
+                KEYWORD_CHANGE_KINDS[error.keyword] ?? "constraint-changed",
+                error.keyword,
+                error.keyword === "enum" ? `Enum member ${label} was removed` : `Value ${label} is no longer accepted`,
+            );
+        }
+        return;
+    }
+
+    // --- type, enum, const ---
+    const prevTypes = typeList(prev);
+    const nextTypes = typeList(next);
+    if (nextTypes.length > 0) {
+        if (prevTypes.length === 0) {
+            report("type-narrowed", "type", `Type is now restricted to ${JSON.stringify(next.type)}`);
+        }
+        for (const type of prevTypes) {
+            if (!nextTypes.includes(type) && !(type === "integer" && nextTypes.includes("number"))) {
+                report("type-narrowed", "type", `Type "${type}" is no longer accepted`);
+            }
+        }
+    }
+    if ("const" in next) {
+        report("enum-narrowed", "const", `Value is now restricted to ${JSON.stringify(next.const)}`);
+    } else if (next.enum) {
+        report("enum-narrowed", "enum", `Value is now restricted to ${JSON.stringify(next.enum)}`);
+    }
+
+    // --- numbers ---
+    if (mayBe(prevTypes, "number")) {
+        const { minimum, exclusiveMinimum, maximum, exclusiveMaximum } = prev;
+        if (
+            next.minimum !== undefined &&
+            !(
+                (minimum !== undefined && minimum >= next.minimum) ||
+                (exclusiveMinimum !== undefined && exclusiveMinimum >= next.minimum)
+            )
+        ) {
+            report("bound-tightened", "minimum", tightened("minimum", minimum, next.minimum));
+        }
+        if (
+            next.exclusiveMinimum !== undefined &&
+            !(
+                (minimum !== undefined && minimum > next.exclusiveMinimum) ||
+                (exclusiveMinimum !== undefined && exclusiveMinimum >= next.exclusiveMinimum)
+            )
+        ) {
+            report(
+                "bound-tightened",
+                "exclusiveMinimum",
+                tightened("exclusiveMinimum", exclusiveMinimum, next.exclusiveMinimum),
+            );
+        }
+        if (
+            next.maximum !== undefined &&
+            !(
+                (maximum !== undefined && maximum <= next.maximum) ||
+                (exclusiveMaximum !== undefined && exclusiveMaximum <= next.maximum)
+            )
+        ) {
+            report("bound-tightened", "maximum", tightened("maximum", maximum, next.maximum));
+        }
+        if (
+            next.exclusiveMaximum !== undefined &&
+            !(
+                (maximum !== undefined && maximum < next.exclusiveMaximum) ||
+                (exclusiveMaximum !== undefined && exclusiveMaximum <= next.exclusiveMaximum)
+            )
+        ) {
+            report(
+                "bound-tightened",
+                "exclusiveMaximum",
+                tightened("exclusiveMaximum", exclusiveMaximum, next.exclusiveMaximum),
+            );
+        }
+        if (
+            next.multipleOf !== undefined &&
+            (prev.multipleOf === undefined || !isMultipleOf(prev.multipleOf, next.multipleOf))
+        ) {
+            report("bound-tightened", "multipleOf", tightened("multipleOf", prev.multipleOf, next.multipleOf));
+        }
+    }
+
+    const checkCounts = (minKeyword: "minLength" | "minItems", maxKeyword: "maxLength" | "maxItems") => {
+        const min = next[minKeyword];
+        if (min !== undefined && (prev[minKeyword] ?? 0) < min) {
+            report("bound-tightened", minKeyword, tightened(minKeyword, prev[minKeyword], min));
+        }
+        const max = next[maxKeyword];
+        if (max !== undefined && (prev[maxKeyword] ?? Infinity) > max) {
+            report("bound-tightened", maxKeyword, tightened(maxKeyword, prev[maxKeyword], max));
+        }
+    };
+
+    // --- strings ---
+    if (mayBe(prevTypes, "string")) {
+        checkCounts("minLength", "maxLength");
+        for (const keyword of ["pattern", "format"] as const) {
+            const value = next[keyword];
+            if (value !== undefined && value !== prev[keyword]) {
+                report("constraint-changed", keyword, `"${keyword}" is now "${value}"`);
+            }
+        }
+    }
+
+    // --- arrays ---
+    if (mayBe(prevTypes, "array")) {
+        checkCounts("minItems", "maxItems");
+        if (next.uniqueItems === true && prev.uniqueItems !== true) {
+            report("constraint-changed", "uniqueItems", "Array items must now be unique");
+        }
+        const prevPrefix = prev.prefixItems ?? [];
+        const nextPrefix = next.prefixItems ?? [];
+        for (let i = 0; i < nextPrefix.length; i++) {
+            collectBreakingChanges(
+                prevPrefix[i] ?? prev.items ?? {},
+                nextPrefix[i]!,
+                `${path}/prefixItems/${i}`,
+                roots,
+                changes,
+            );
+        }
+        if (next.items) {
+            for (let i = nextPrefix.length; i < prevPrefix.length; i++) {
+                collectBreakingChanges(prevPrefix[i]!, next.items, `${path}/items`, roots, changes);
+            }
+            collectBreakingChanges(prev.items ?? {}, next.items, `${path}/items`, roots, changes);
+        }
+    }
+
+    // --- objects ---
+    if (mayBe(prevTypes, "object")) {
+        const prevRequired = new Set(prev.required ?? []);
+        for (const name of next.required ?? []) {
+            if (!prevRequired.has(name)) report("required-added", "required", `Property "${name}" is now required`);
+        }
+        for (const [trigger, dependents] of Object.entries(next.dependentRequired ?? {})) {
+            const prevDependents = prev.dependentRequired?.[trigger] ?? [];
+            for (const name of dependents) {
+                if (!prevRequired.has(name) && !prevDependents.includes(name)) {
+                    report(
+                        "required-added",
+                        "dependentRequired",
+                        `Property "${name}" is now required when "${trigger}" is present`,
+                    );
+                }
+            }
+        }
+
+        // A property's old value satisfies every old schema for it, so
+        // comparing against the first is enough; the new value must satisfy
+        // every new schema.
+        const compareAll = (prevSchemas: JsonSchema[] | null, nextSchemas: JsonSchema[] | null, at: string) => {
+            if (!prevSchemas) return;
+            if (!nextSchemas) {
+                report("property-disallowed", "additionalProperties", "Property is no longer allowed", at);
+                return;
+            }
+            for (const nextSchema of nextSchemas)
+                collectBreakingChanges(prevSchemas[0]!, nextSchema, at, roots, changes);
+        };
+        const names = new Set([...Object.keys(prev.properties ?? {}), ...Object.keys(next.properties ?? {})]);
+        for (const name of names) {
+            compareAll(propertySchemas(prev, name), propertySchemas(next, name), `${path}/properties/${name}`);
+        }
+        for (const [pattern, nextSchema] of Object.entries(next.patternProperties ?? {})) {
+            const at = `${path}/patternProperties/${pattern}`;
+            const prevSchema = prev.patternProperties?.[pattern];
+            if (prevSchema) {
+                collectBreakingChanges(prevSchema, nextSchema, at, roots, changes);
+                continue;
+            }
+            // The pattern's names may have matched any old pattern or been extras.
+            for (const candidate of [
+                ...Object.values(prev.patternProperties ?? {}),
+                ...(extraPropertySchema(prev) ?? []),
+            ]) {
+                collectBreakingChanges(candidate, nextSchema, at, roots, changes);
+            }
+        }
+        for (const [pattern, prevSchema] of Object.entries(prev.patternProperties ?? {})) {
+            if (next.patternProperties?.[pattern]) continue;
+            compareAll([prevSchema], extraPropertySchema(next), `${path}/patternProperties/${pattern}`);
+        }
+        compareAll(extraPropertySchema(prev), extraPropertySchema(next), `${path}/additionalProperties`);
+    }
+
+    // --- keywords compared structurally ---
+    for (const keyword of UNVERIFIED_KEYWORDS) {
+        if (next[keyword] !== undefined && !jsonDeepEqual(prev[keyword], next[keyword])) {
+            report("constraint-changed", keyword, `"${keyword}" changed and cannot be checked for compatibility`);
+        }
+    }
+    for (const [name, nextDef] of Object.entries(next.$defs ?? {})) {
+        const prevDef = prev.$defs?.[name];
+        if (prevDef) collectBreakingChanges(prevDef, nextDef, `${path}/$defs/${name}`, roots, changes);
+    }
+}
+
+/**
+ * Compares two versions of a schema to tell whether stored data needs a
+ * migration.
+ *
+ * The schemas are backward compatible when every value valid under
+ * `oldSchema` is also valid under `newSchema`: values stored under the old
+ * version can be read with the new one, so a `MigrationRule` is
+ * optional. They are forward compatible when the reverse holds. Breaking
+ * changes are those that break backward compatibility, such as added
+ * required properties, narrowed types, tightened bounds, and removed enum
+ * members.
+ *
+ * The check is conservative: it may report a change that no stored value
+ * actually hits, but when it reports `backward: true` the new schema
+ * accepts every old value. Properties the old schema left unconstrained
+ * count as `{}`, so constraining one (even an optional one) is breaking
+ * unless the old schema set `additionalProperties: false`. Composition
+ * keywords, `$ref`, `contains`, and `propertyNames` are only compared for
+ * equality; a changed `$ref` target in `$defs` is compared in place, but
+ * references to other keys' schemas are compared by name only.
+ *
+ * @param oldSchema - The schema stored data was validated against
+ * @param newSchema - The schema about to replace it
+ * @returns Backward and forward compatibility, and the breaking changes
+ *
+ * @example
+ * ```typescript
+ * const result = checkSchemaCompatibility(
+ *     { type: "object", properties: { theme: { enum: ["light", "dark", "auto"] } } },
+ *     { type: "object", properties: { theme: { enum: ["light", "dark"] } }, required: ["theme"] },
+ * );
+ * result.backward; // false
+ * result.breakingChanges;
+ * // [
+ * //     { kind: "required-added", path: "", keyword: "required", message: 'Property "theme" is now required' },
+ * //     { kind: "enum-narrowed", path: "/properties/theme", keyword: "enum", message: 'Enum member "auto" was removed' },
+ * // ]
+ * ```
+ *
+ * @see {@link SchemaChange} - Shape of each reported change
+ */
+export function checkSchemaCompatibility(oldSchema: JsonSchema, newSchema: JsonSchema): SchemaCompatibility {
+    const breakingChanges: SchemaChange[] = [];
+    collectBreakingChanges(oldSchema, newSchema, "", { oldRoot: oldSchema, newRoot: newSchema }, breakingChanges);
+    const forwardChanges: SchemaChange[] = [];
+    collectBreakingChanges(newSchema, oldSchema, "", { oldRoot: newSchema, newRoot: oldSchema }, forwardChanges);
+    return { backward: breakingChanges.length === 0, forward: forwardChanges.length === 0, breakingChanges };
+}
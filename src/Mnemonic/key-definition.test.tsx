@@ -0,0 +1,218 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { MnemonicProvider, useMnemonic } from "./provider";
+import { useMnemonicKey } from "./use";
+import { useMnemonicHistory } from "./history";
+import { useMnemonicSelector } from "./selector";
+import { defineMnemonicKey } from "./key-definition";
+import { createCodec } from "./codecs";
+import type { StorageLike } from "./types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createMockStorage(): StorageLike & { store: Map<string, string> } {
+    const store = new Map<string, string>();
+    return {
+        store,
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            store.set(key, value);
+        },
+        removeItem: (key: string) => {
+            store.delete(key);
+        },
+    };
+}
+
+type FormData = { name: string; email: string };
+
+const formKey = defineMnemonicKey<FormData>({
+    key: "form-data",
+    defaultValue: { name: "", email: "" },
+});
+
+// ---------------------------------------------------------------------------
+// defineMnemonicKey
+// ---------------------------------------------------------------------------
+
+describe("defineMnemonicKey", () => {
+    it("separates the key from the hook options", () => {
+        const codec = createCodec<number>(String, Number);
+        const descriptor = defineMnemonicKey({ key: "count", defaultValue: 0, codec, ttl: 1000 });
+        expect(descriptor.key).toBe("count");
+        expect(descriptor.options).toEqual({ defaultValue: 0, codec, ttl: 1000 });
+    });
+
+    it("returns a frozen descriptor", () => {
+        expect(Object.isFrozen(formKey)).toBe(true);
+        expect(Object.isFrozen(formKey.options)).toBe(true);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+describe("hooks with key descriptors", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    it("useMnemonicKey reads and writes with the descriptor's options", () => {
+        const codec = createCodec<number>(
+            (n) => n.toString(16),
+            (s) => parseInt(s, 16),
+        );
+        const countKey = defineMnemonicKey({ key: "count", defaultValue: 1, codec });
+        let hook: ReturnType<typeof useMnemonicKey<number>> | undefined;
+        function Probe() {
+            hook = useMnemonicKey(countKey);
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(hook!.value).toBe(1);
+
+        act(() => hook!.set(255));
+        expect(JSON.parse(storage.store.get("ns.count")!)).toEqual({ version: 0, payload: "ff" });
+        expect(hook!.value).toBe(255);
+    });
+
+    it("shares one definition across components", () => {
+        const names: string[] = [];
+        let setForm: ((next: FormData) => void) | undefined;
+        function Editor() {
+            setForm = useMnemonicKey(formKey).set;
+            return null;
+        }
+        function Preview() {
+            names.push(useMnemonicKey(formKey).value.name);
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Editor />
+                <Preview />
+            </MnemonicProvider>,
+        );
+        act(() => setForm!({ name: "Ada", email: "ada@example.com" }));
+        expect(names[names.length - 1]).toBe("Ada");
+    });
+
+    it("applies per-hook overrides over the descriptor's options", () => {
+        const onChange = vi.fn();
+        let hook: ReturnType<typeof useMnemonicKey<FormData>> | undefined;
+        function Probe() {
+            hook = useMnemonicKey(formKey, { onChange, defaultValue: { name: "guest", email: "" } });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(hook!.value.name).toBe("guest");
+
+        act(() => hook!.set({ name: "Ada", email: "" }));
+        expect(onChange).toHaveBeenCalledWith({ name: "Ada", email: "" }, { name: "guest", email: "" });
+    });
+
+    it("useMnemonicHistory accepts a descriptor and history settings", () => {
+        let hook: ReturnType<typeof useMnemonicHistory<FormData>> | undefined;
+        function Probe() {
+            hook = useMnemonicHistory(formKey, { depth: 5 });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        act(() => hook!.set({ name: "Ada", email: "" }));
+        expect(hook!.canUndo).toBe(true);
+
+        act(() => hook!.undo());
+        expect(hook!.value).toEqual({ name: "", email: "" });
+    });
+
+    it("useMnemonicSelector accepts a descriptor", () => {
+        storage.store.set("ns.form-data", JSON.stringify({ version: 0, payload: '{"name":"Ada","email":"a@b.c"}' }));
+        let email: string | undefined;
+        function Probe() {
+            email = useMnemonicSelector(formKey, (form) => form.email);
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(email).toBe("a@b.c");
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Non-hook APIs
+// ---------------------------------------------------------------------------
+
+describe("non-hook APIs with key descriptors", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    afterEach(() => {
+        delete (window as any).__REACT_MNEMONIC_DEVTOOLS__;
+    });
+
+    it("store key-level methods accept a descriptor", () => {
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        function Probe() {
+            store = useMnemonic();
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        const listener = vi.fn();
+        const unsubscribe = store!.subscribeRaw(formKey, listener);
+
+        store!.setRaw(formKey, "raw");
+        expect(storage.store.get("ns.form-data")).toBe("raw");
+        expect(store!.getRawSnapshot(formKey)).toBe("raw");
+        expect(store!.isHydrated(formKey)).toBe(true);
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        store!.removeRaw(formKey);
+        expect(storage.store.has("ns.form-data")).toBe(false);
+        expect(listener).toHaveBeenCalledTimes(2);
+        unsubscribe();
+    });
+
+    it("DevTools accept a descriptor", () => {
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} enableDevTools={true}>
+                <div />
+            </MnemonicProvider>,
+        );
+        const devtools = (window as any).__REACT_MNEMONIC_DEVTOOLS__.ns;
+
+        devtools.set(formKey, { name: "Ada", email: "" });
+        expect(devtools.get(formKey)).toEqual({ name: "Ada", email: "" });
+        devtools.remove(formKey);
+        expect(storage.store.has("ns.form-data")).toBe(false);
+    });
+});
@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+/**
+ * @fileoverview Reusable, typed key definitions.
+ *
+ * This module exports `defineMnemonicKey`, which bundles a storage key with
+ * its value type and hook options so every component reading the key shares
+ * one definition.
+ */
+
+import type {
+    MnemonicKeyDefinition,
+    MnemonicKeyDescriptor,
+    MnemonicKeyInput,
+    MnemonicRegisteredValue,
+    RegisteredKey,
+    UnregisteredKey,
+    UseMnemonicKeyOptions,
+} from "./types";
+
+/**
+ * Defines a key of the schema registry registered on `MnemonicRegister`,
+ * with the value type inferred from the key's latest JSON Schema.
+ *
+ * @template K - A key of the registered schema registry
+ *
+ * @param definition - The storage key and its hook options
+ * @returns A frozen descriptor accepted by `useMnemonicKey`,
+ *   `useMnemonicHistory`, `useMnemonicSelector`, and the DevTools
+ *
+ * @see {@link MnemonicRegister} - Registering a schema registry for inference
+ */
+export function defineMnemonicKey<const K>(
+    definition: MnemonicKeyDefinition<MnemonicRegisteredValue<K>> & { key: RegisteredKey<K> },
+): MnemonicKeyDescriptor<MnemonicRegisteredValue<K>>;
+
+/**
+ * Defines a key once, with its value type and options, for reuse across
+ * components.
+ *
+ * Components that each call `useMnemonicKey` with their own options can
+ * drift apart: one uses a different default, another forgets the codec.
+ * A descriptor keeps the key name, value type, default, codec, schema
+ * version, expiry, and any other hook option in one place.
+ *
+ * The value type is inferred from `defaultValue`, or can be given
+ * explicitly.
+ *
+ * @template T - The type of the stored value
+ * @template K - The storage key, inferred. Keys of a registered schema
+ *   registry are rejected unless `T` is given explicitly.
+ *
+ * @param definition - The storage key and its hook options
+ * @returns A frozen descriptor accepted by `useMnemonicKey`,
+ *   `useMnemonicHistory`, `useMnemonicSelector`, and the DevTools
+ *
+ * @example
+ * ```tsx
+ * // keys.ts
+ * export const formDataKey = defineMnemonicKey<FormData>({
+ *   key: "form-data",
+ *   defaultValue: { name: "", email: "" },
+ *   schema: { version: 2 },
+ *   ttl: 24 * 60 * 60 * 1000,
+ * });
+ *
+ * // Any component
+ * const { value, set } = useMnemonicKey(formDataKey);
+ *
+ * // Per-component callbacks can be added on top
+ * const { value } = useMnemonicKey(formDataKey, { onChange: (v) => track(v) });
+ * ```
+ *
+ * @see {@link MnemonicKeyDescriptor} - The returned descriptor
+ */
+export function defineMnemonicKey<T, K extends string = string>(
+    definition: MnemonicKeyDefinition<T> & { key: UnregisteredKey<K> },
+): MnemonicKeyDescriptor<T>;
+export function defineMnemonicKey<T>(definition: MnemonicKeyDefinition<T>): MnemonicKeyDescriptor<T> {
+    const { key, ...options } = definition;
+    return Object.freeze({ key, options: Object.freeze(options) });
+}
+
+/**
+ * Tests whether a hook's first argument is a key descriptor.
+ *
+ * @internal
+ */
+export function isMnemonicKeyDescriptor<T>(
+    value: string | MnemonicKeyDescriptor<T>,
+): value is MnemonicKeyDescriptor<T> {
+    return typeof value !== "string";
+}
+
+/**
+ * Returns the storage key named by a key or key descriptor.
+ *
+ * @internal
+ */
+export function mnemonicKeyName(key: MnemonicKeyInput): string {
+    return typeof key === "string" ? key : key.key;
+}
+
+/**
+ * Normalizes the `(key, options)` and `(descriptor, overrides)` hook call
+ * forms into a key and the effective options. Overrides take precedence
+ * over the descriptor's options.
+ *
+ * @internal
+ */
+export function resolveMnemonicKey<T, O extends Partial<UseMnemonicKeyOptions<T>>>(
+    keyOrDescriptor: string | MnemonicKeyDescriptor<T>,
+    options: O | undefined,
+): { key: string; options: UseMnemonicKeyOptions<T> & O } {
+    if (!isMnemonicKeyDescriptor(keyOrDescriptor)) {
+        return { key: keyOrDescriptor, options: options as UseMnemonicKeyOptions<T> & O };
+    }
+    return {
+        key: keyOrDescriptor.key,
+        options: { ...keyOrDescriptor.options, ...options } as UseMnemonicKeyOptions<T> & O,
+    };
+}
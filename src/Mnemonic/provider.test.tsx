@@ -2,10 +2,11 @@
 // Copyright Scott Dixon
 
 import React from "react";
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen } from "@testing-library/react";
-import { MnemonicProvider, useMnemonic } from "./provider";
-import type { StorageLike } from "./types";
+import { MnemonicProvider, useMnemonic, useMnemonicFlush } from "./provider";
+import { createSchemaRegistry } from "./schema-registry";
+import type { StorageLike, AsyncStorageLike } from "./types";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -1042,3 +1043,681 @@ describe("reloadFromStorage via onExternalChange", () => {
         expect(store!.getRawSnapshot("a")).toBe("updated");
     });
 });
+
+// ---------------------------------------------------------------------------
+// Async storage backends
+// ---------------------------------------------------------------------------
+
+/** Creates a promise-based storage whose operations are logged in call order. */
+function createAsyncMockStorage(): AsyncStorageLike & { store: Map<string, string>; ops: string[] } {
+    const store = new Map<string, string>();
+    const ops: string[] = [];
+    const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+    return {
+        store,
+        ops,
+        async getItem(key) {
+            await tick();
+            ops.push(`get:${key}`);
+            return store.get(key) ?? null;
+        },
+        async setItem(key, value) {
+            // Later writes finish sooner, so ordering relies on the provider's queue.
+            await new Promise<void>((resolve) => setTimeout(resolve, value === "first" ? 20 : 0));
+            ops.push(`set:${key}=${value}`);
+            store.set(key, value);
+        },
+        async removeItem(key) {
+            await tick();
+            ops.push(`remove:${key}`);
+            store.delete(key);
+        },
+        async keys() {
+            return Array.from(store.keys());
+        },
+    };
+}
+
+describe("MnemonicProvider – async storage", () => {
+    function renderWithStore(storage: AsyncStorageLike) {
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <StoreConsumer
+                    onStore={(s) => {
+                        store = s;
+                    }}
+                />
+            </MnemonicProvider>,
+        );
+        return store!;
+    }
+
+    it("hydrates keys asynchronously and notifies subscribers", async () => {
+        const storage = createAsyncMockStorage();
+        storage.store.set("ns.a", "hello");
+        const store = renderWithStore(storage);
+        const listener = vi.fn();
+        store.subscribeRaw("a", listener);
+
+        expect(store.isHydrated("a")).toBe(false);
+        expect(store.getRawSnapshot("a")).toBeNull();
+
+        await store.whenHydrated("a");
+        expect(store.isHydrated("a")).toBe(true);
+        expect(store.getRawSnapshot("a")).toBe("hello");
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("hydrates missing keys as null", async () => {
+        const store = renderWithStore(createAsyncMockStorage());
+        await store.whenHydrated("missing");
+        expect(store.isHydrated("missing")).toBe(true);
+        expect(store.getRawSnapshot("missing")).toBeNull();
+    });
+
+    it("writes to the backend in call order", async () => {
+        const storage = createAsyncMockStorage();
+        const store = renderWithStore(storage);
+        await store.whenHydrated("a");
+
+        store.setRaw("a", "first");
+        store.setRaw("a", "second");
+        store.removeRaw("b");
+        expect(store.getRawSnapshot("a")).toBe("second");
+
+        await vi.waitFor(() => expect(storage.ops).toContain("remove:ns.b"));
+        expect(storage.ops.filter((op) => !op.startsWith("get:"))).toEqual([
+            "set:ns.a=first",
+            "set:ns.a=second",
+            "remove:ns.b",
+        ]);
+        expect(storage.store.get("ns.a")).toBe("second");
+    });
+
+    it("a write during hydration wins over the loaded value", async () => {
+        const storage = createAsyncMockStorage();
+        storage.store.set("ns.a", "stale");
+        const store = renderWithStore(storage);
+        const hydration = store.whenHydrated("a");
+        store.setRaw("a", "local");
+        await hydration;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(store.getRawSnapshot("a")).toBe("local");
+        expect(store.isHydrated("a")).toBe(true);
+    });
+
+    it("treats rejected reads as missing values", async () => {
+        const storage = createAsyncMockStorage();
+        storage.getItem = () => Promise.reject(new Error("offline"));
+        const store = renderWithStore(storage);
+        await store.whenHydrated("a");
+        expect(store.getRawSnapshot("a")).toBeNull();
+    });
+
+    it("enumerates keys reported by the backend", async () => {
+        const storage = createAsyncMockStorage();
+        storage.store.set("ns.a", "1");
+        storage.store.set("other.b", "2");
+        const store = renderWithStore(storage);
+        await store.whenHydrated("x");
+        store.keys();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(store.keys()).toEqual(["a"]);
+        store.setRaw("c", "3");
+        expect(store.keys().sort()).toEqual(["a", "c"]);
+    });
+});
+
+describe("MnemonicProvider – expiry sweep", () => {
+    const NOW = Date.UTC(2026, 0, 1);
+
+    function envelope(expiresAt?: number): string {
+        return JSON.stringify({ version: 0, payload: "1", ...(expiresAt !== undefined ? { expiresAt } : {}) });
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("deletes expired keys on mount", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.expired", envelope(NOW - 1));
+        storage.store.set("ns.fresh", envelope(NOW + 1000));
+        storage.store.set("ns.forever", envelope());
+        storage.store.set("ns.raw", "not json");
+        storage.store.set("other.expired", envelope(NOW - 1));
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} expirySweepInterval={0}>
+                <div />
+            </MnemonicProvider>,
+        );
+        expect(Array.from(storage.store.keys()).sort()).toEqual(["ns.forever", "ns.fresh", "ns.raw", "other.expired"]);
+    });
+
+    it("sweeps again at the configured interval", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.soon", envelope(NOW + 1500));
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} expirySweepInterval={1000}>
+                <div />
+            </MnemonicProvider>,
+        );
+        vi.advanceTimersByTime(1000);
+        expect(storage.store.has("ns.soon")).toBe(true);
+        vi.advanceTimersByTime(1000);
+        expect(storage.store.has("ns.soon")).toBe(false);
+    });
+
+    it("does not sweep when the option is omitted", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.expired", envelope(NOW - 1));
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <div />
+            </MnemonicProvider>,
+        );
+        vi.advanceTimersByTime(60_000);
+        expect(storage.store.has("ns.expired")).toBe(true);
+    });
+
+    it("notifies subscribers of swept keys", () => {
+        const storage = createMockStorage();
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} expirySweepInterval={1000}>
+                <StoreConsumer
+                    onStore={(s) => {
+                        store = s;
+                    }}
+                />
+            </MnemonicProvider>,
+        );
+        store!.setRaw("k", envelope(NOW + 500));
+        const listener = vi.fn();
+        store!.subscribeRaw("k", listener);
+        vi.advanceTimersByTime(1000);
+        expect(listener).toHaveBeenCalled();
+        expect(store!.getRawSnapshot("k")).toBeNull();
+    });
+
+    it("uses keys() to sweep async backends", async () => {
+        vi.useRealTimers();
+        const storage = createAsyncMockStorage();
+        storage.store.set("ns.expired", envelope(Date.now() - 1));
+        storage.store.set("ns.fresh", envelope(Date.now() + 60_000));
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} expirySweepInterval={0}>
+                <div />
+            </MnemonicProvider>,
+        );
+        await vi.waitFor(() => expect(storage.store.has("ns.expired")).toBe(false));
+        expect(storage.store.has("ns.fresh")).toBe(true);
+    });
+});
+
+describe("MnemonicProvider – deferred writes", () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now: 0 });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    function renderWithStore(storage: StorageLike) {
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        const result = render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <StoreConsumer
+                    onStore={(s) => {
+                        store = s;
+                    }}
+                />
+            </MnemonicProvider>,
+        );
+        return { store: store!, unmount: result.unmount };
+    }
+
+    it("updates the cache immediately and debounces the storage write", () => {
+        const storage = createMockStorage();
+        const setItem = vi.spyOn(storage, "setItem");
+        const { store } = renderWithStore(storage);
+        const listener = vi.fn();
+        store.subscribeRaw("k", listener);
+
+        store.setRaw("k", "1", { delay: 100, mode: "debounce" });
+        expect(store.getRawSnapshot("k")).toBe("1");
+        expect(listener).toHaveBeenCalledTimes(1);
+        vi.advanceTimersByTime(60);
+        store.setRaw("k", "2", { delay: 100, mode: "debounce" });
+        vi.advanceTimersByTime(60);
+        expect(setItem).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(40);
+        expect(setItem).toHaveBeenCalledTimes(1);
+        expect(storage.store.get("ns.k")).toBe("2");
+    });
+
+    it("throttles storage writes to at most one per delay", () => {
+        const storage = createMockStorage();
+        const setItem = vi.spyOn(storage, "setItem");
+        const { store } = renderWithStore(storage);
+
+        store.setRaw("k", "1", { delay: 100, mode: "throttle" });
+        expect(setItem).toHaveBeenCalledTimes(1);
+        vi.advanceTimersByTime(30);
+        store.setRaw("k", "2", { delay: 100, mode: "throttle" });
+        store.setRaw("k", "3", { delay: 100, mode: "throttle" });
+        expect(setItem).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(70);
+        expect(setItem).toHaveBeenCalledTimes(2);
+        expect(storage.store.get("ns.k")).toBe("3");
+    });
+
+    it("writes immediately without a delay and cancels a pending write", () => {
+        const storage = createMockStorage();
+        const { store } = renderWithStore(storage);
+
+        store.setRaw("k", "deferred", { delay: 100, mode: "debounce" });
+        store.setRaw("k", "now");
+        expect(storage.store.get("ns.k")).toBe("now");
+        vi.advanceTimersByTime(100);
+        expect(storage.store.get("ns.k")).toBe("now");
+    });
+
+    it("flush() writes every pending value", async () => {
+        const storage = createMockStorage();
+        const { store } = renderWithStore(storage);
+
+        store.setRaw("a", "1", { delay: 1000, mode: "debounce" });
+        store.setRaw("b", "2", { delay: 1000, mode: "throttle" });
+        store.setRaw("b", "3", { delay: 1000, mode: "throttle" });
+        await store.flush();
+        expect(storage.store.get("ns.a")).toBe("1");
+        expect(storage.store.get("ns.b")).toBe("3");
+    });
+
+    it("removeRaw cancels a pending write", () => {
+        const storage = createMockStorage();
+        const { store } = renderWithStore(storage);
+
+        store.setRaw("k", "1", { delay: 100, mode: "debounce" });
+        store.removeRaw("k");
+        vi.advanceTimersByTime(100);
+        expect(storage.store.has("ns.k")).toBe(false);
+    });
+
+    it("flushes on pagehide and when the page becomes hidden", () => {
+        const storage = createMockStorage();
+        const { store } = renderWithStore(storage);
+
+        store.setRaw("a", "1", { delay: 1000, mode: "debounce" });
+        window.dispatchEvent(new Event("pagehide"));
+        expect(storage.store.get("ns.a")).toBe("1");
+
+        store.setRaw("b", "2", { delay: 1000, mode: "debounce" });
+        const visibility = vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+        document.dispatchEvent(new Event("visibilitychange"));
+        visibility.mockRestore();
+        expect(storage.store.get("ns.b")).toBe("2");
+    });
+
+    it("does not flush when the page becomes visible", () => {
+        const storage = createMockStorage();
+        const { store } = renderWithStore(storage);
+
+        store.setRaw("k", "1", { delay: 1000, mode: "debounce" });
+        document.dispatchEvent(new Event("visibilitychange"));
+        expect(storage.store.has("ns.k")).toBe(false);
+    });
+
+    it("flushes pending writes on unmount", () => {
+        const storage = createMockStorage();
+        const { store, unmount } = renderWithStore(storage);
+
+        store.setRaw("k", "1", { delay: 1000, mode: "debounce" });
+        unmount();
+        expect(storage.store.get("ns.k")).toBe("1");
+    });
+
+    it("keeps a pending value when storage changes externally", () => {
+        const storage = createMockStorageWithExternalChange();
+        const { store } = renderWithStore(storage);
+        store.subscribeRaw("k", vi.fn());
+
+        store.setRaw("k", "local", { delay: 100, mode: "debounce" });
+        storage.store.set("ns.k", "external");
+        storage.triggerExternalChange();
+        expect(store.getRawSnapshot("k")).toBe("local");
+
+        vi.advanceTimersByTime(100);
+        expect(storage.store.get("ns.k")).toBe("local");
+    });
+
+    it("useMnemonicFlush returns the store's flush", () => {
+        let flush: (() => Promise<void>) | undefined;
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        function Probe() {
+            flush = useMnemonicFlush();
+            store = useMnemonic();
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={createMockStorage()}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(flush).toBe(store!.flush);
+    });
+});
+
+describe("MnemonicProvider – batch", () => {
+    function renderWithStore(storage: StorageLike | AsyncStorageLike) {
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <StoreConsumer
+                    onStore={(s) => {
+                        store = s;
+                    }}
+                />
+            </MnemonicProvider>,
+        );
+        return store!;
+    }
+
+    it("runs afterCommit callbacks once the writes are stored, before notifying", () => {
+        const storage = createMockStorage();
+        const store = renderWithStore(storage);
+        const events: string[] = [];
+        store.subscribeRaw("a", () => events.push("notify"));
+
+        store.batch(() => {
+            store.setRaw("a", "1");
+            store.afterCommit(() => events.push(`commit ${storage.store.get("ns.a")}`));
+        });
+        expect(events).toEqual(["commit 1", "notify"]);
+
+        expect(() =>
+            store.batch(() => {
+                store.afterCommit(() => events.push("rolled back"));
+                throw new Error("abort");
+            }),
+        ).toThrow("abort");
+        store.afterCommit(() => events.push("immediate"));
+        expect(events).toEqual(["commit 1", "notify", "immediate"]);
+    });
+
+    it("stages writes until the callback returns, then notifies once per key", () => {
+        const storage = createMockStorage();
+        const store = renderWithStore(storage);
+        const listenerA = vi.fn();
+        const listenerB = vi.fn();
+        store.subscribeRaw("a", listenerA);
+        store.subscribeRaw("b", listenerB);
+
+        const result = store.batch(() => {
+            store.setRaw("a", "1");
+            store.setRaw("a", "2");
+            store.setRaw("b", "3");
+            expect(store.inBatch()).toBe(true);
+            expect(store.getRawSnapshot("a")).toBe("2");
+            expect(storage.store.has("ns.a")).toBe(false);
+            expect(listenerA).not.toHaveBeenCalled();
+            return "done";
+        });
+
+        expect(result).toBe("done");
+        expect(store.inBatch()).toBe(false);
+        expect(storage.store.get("ns.a")).toBe("2");
+        expect(storage.store.get("ns.b")).toBe("3");
+        expect(listenerA).toHaveBeenCalledTimes(1);
+        expect(listenerB).toHaveBeenCalledTimes(1);
+    });
+
+    it("stages removals", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.a", "1");
+        const store = renderWithStore(storage);
+
+        store.batch(() => {
+            store.removeRaw("a");
+            expect(store.getRawSnapshot("a")).toBeNull();
+            expect(storage.store.get("ns.a")).toBe("1");
+        });
+        expect(storage.store.has("ns.a")).toBe(false);
+    });
+
+    it("rolls back the cache when the callback throws", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.a", "old");
+        const store = renderWithStore(storage);
+        store.getRawSnapshot("a");
+        const listener = vi.fn();
+        store.subscribeRaw("a", listener);
+
+        expect(() =>
+            store.batch(() => {
+                store.setRaw("a", "new");
+                store.setRaw("b", "new");
+                throw new Error("abort");
+            }),
+        ).toThrow("abort");
+
+        expect(store.getRawSnapshot("a")).toBe("old");
+        expect(store.getRawSnapshot("b")).toBeNull();
+        expect(storage.store.get("ns.a")).toBe("old");
+        expect(storage.store.has("ns.b")).toBe(false);
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("restores storage and cache when a write fails during commit", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.a", "old-a");
+        const setItem = storage.setItem;
+        storage.setItem = (key, value) => {
+            if (key === "ns.c") throw new DOMException("full", "QuotaExceededError");
+            setItem(key, value);
+        };
+        const store = renderWithStore(storage);
+
+        expect(() =>
+            store.batch(() => {
+                store.setRaw("a", "new-a");
+                store.setRaw("b", "new-b");
+                store.setRaw("c", "new-c");
+            }),
+        ).toThrow("full");
+
+        expect(storage.store.get("ns.a")).toBe("old-a");
+        expect(storage.store.has("ns.b")).toBe(false);
+        expect(store.getRawSnapshot("a")).toBe("old-a");
+        expect(store.getRawSnapshot("b")).toBeNull();
+        expect(store.getRawSnapshot("c")).toBeNull();
+    });
+
+    it("joins nested batches into the outer one", () => {
+        const storage = createMockStorage();
+        const store = renderWithStore(storage);
+
+        store.batch(() => {
+            store.batch(() => store.setRaw("a", "1"));
+            expect(storage.store.has("ns.a")).toBe(false);
+        });
+        expect(storage.store.get("ns.a")).toBe("1");
+    });
+
+    it("rejects asynchronous callbacks", () => {
+        const storage = createMockStorage();
+        const store = renderWithStore(storage);
+
+        expect(() =>
+            store.batch(async () => {
+                store.setRaw("a", "1");
+            }),
+        ).toThrow(TypeError);
+        expect(storage.store.has("ns.a")).toBe(false);
+        expect(store.inBatch()).toBe(false);
+    });
+
+    it("commits staged writes to async backends in order", async () => {
+        const backing = new Map<string, string>();
+        const storage: AsyncStorageLike = {
+            getItem: async (key) => backing.get(key) ?? null,
+            setItem: async (key, value) => {
+                backing.set(key, value);
+            },
+            removeItem: async (key) => {
+                backing.delete(key);
+            },
+        };
+        const store = renderWithStore(storage);
+
+        store.batch(() => {
+            store.setRaw("a", "1");
+            store.setRaw("b", "2");
+        });
+        await store.flush();
+        expect(backing.get("ns.a")).toBe("1");
+        expect(backing.get("ns.b")).toBe("2");
+    });
+});
+
+describe("MnemonicProvider – decode cache", () => {
+    function renderWithStore(storage: StorageLike) {
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <StoreConsumer
+                    onStore={(s) => {
+                        store = s;
+                    }}
+                />
+            </MnemonicProvider>,
+        );
+        return store!;
+    }
+
+    const codec = { encode: String, decode: (s: string) => s.toUpperCase() };
+
+    it("returns the same outcome for the current value and codec", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.k", JSON.stringify({ version: 0, payload: "a" }));
+        const store = renderWithStore(storage);
+        const raw = store.getRawSnapshot("k");
+
+        const first = store.decode("k", raw, codec);
+        expect(first).toEqual({ ok: true, value: "A" });
+        expect(store.decode("k", raw, codec)).toBe(first);
+    });
+
+    it("decodes again after the value changes", () => {
+        const storage = createMockStorage();
+        const store = renderWithStore(storage);
+        store.setRaw("k", JSON.stringify({ version: 0, payload: "a" }));
+        const first = store.decode("k", store.getRawSnapshot("k"), codec);
+
+        store.setRaw("k", JSON.stringify({ version: 0, payload: "b" }));
+        const second = store.decode("k", store.getRawSnapshot("k"), codec);
+        expect(second).not.toBe(first);
+        expect(second).toEqual({ ok: true, value: "B" });
+    });
+
+    it("keeps the current outcome when decoding another value", () => {
+        const storage = createMockStorage();
+        const store = renderWithStore(storage);
+        store.setRaw("k", JSON.stringify({ version: 0, payload: "a" }));
+        const current = store.decode("k", store.getRawSnapshot("k"), codec);
+
+        expect(store.decode("k", JSON.stringify({ version: 0, payload: "old" }), codec)).toEqual({
+            ok: true,
+            value: "OLD",
+        });
+        expect(store.decode("k", store.getRawSnapshot("k"), codec)).toBe(current);
+    });
+
+    it("reports decode failures without applying a default", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.k", "not json");
+        const store = renderWithStore(storage);
+
+        const outcome = store.decode("k", store.getRawSnapshot("k"), codec);
+        expect(outcome.ok).toBe(false);
+        expect(store.decode("k", null, codec)).toEqual({ ok: false });
+    });
+
+    it("decodes again when the inference options change", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.k", JSON.stringify({ version: 0, payload: "5" }));
+        const registry = createSchemaRegistry();
+        const numeric = { encode: String, decode: Number };
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        const tree = (integers: boolean) => (
+            <MnemonicProvider
+                namespace="ns"
+                storage={storage}
+                schemaMode="autoschema"
+                schemaRegistry={registry}
+                autoschemaOptions={{ inference: { integers } }}
+            >
+                <StoreConsumer
+                    onStore={(s) => {
+                        store = s;
+                    }}
+                />
+            </MnemonicProvider>
+        );
+        const { rerender } = render(tree(false));
+        const raw = store!.getRawSnapshot("k");
+        const first = store!.decode("k", raw, numeric);
+        expect(first.ok && first.pendingSchema?.schema).toEqual({ type: "number" });
+
+        rerender(tree(false));
+        expect(store!.decode("k", raw, numeric)).toBe(first);
+
+        rerender(tree(true));
+        const second = store!.decode("k", raw, numeric);
+        expect(second.ok && second.pendingSchema?.schema).toEqual({ type: "integer" });
+    });
+
+    it("migrates to a schema version registered after mount", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.k", JSON.stringify({ version: 1, payload: "a" }));
+        const registry = createSchemaRegistry({ schemas: [{ key: "k", version: 1, schema: { type: "string" } }] });
+        const identity = { encode: String, decode: String };
+        let store: ReturnType<typeof useMnemonic> | undefined;
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                <StoreConsumer
+                    onStore={(s) => {
+                        store = s;
+                    }}
+                />
+            </MnemonicProvider>,
+        );
+        const raw = store!.getRawSnapshot("k");
+        expect(store!.decode("k", raw, identity)).toMatchObject({ ok: true, value: "a" });
+
+        registry.registerSchema({ key: "k", version: 2, schema: { type: "string" } });
+        registry.registerMigration({ key: "k", fromVersion: 1, toVersion: 2, migrate: (v) => `${String(v)}!` });
+        expect(store!.decode("k", raw, identity)).toMatchObject({ ok: true, value: "a!" });
+    });
+
+    it("applyRewrite writes only while the key still holds the original value", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.k", "v1");
+        const store = renderWithStore(storage);
+
+        store.applyRewrite("k", "v1", "v2");
+        expect(storage.store.get("ns.k")).toBe("v2");
+
+        store.applyRewrite("k", "v1", "v3");
+        expect(storage.store.get("ns.k")).toBe("v2");
+    });
+});
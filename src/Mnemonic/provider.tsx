@@ -10,16 +10,22 @@
  * (or a custom storage backend) and implements the React external store contract.
  */
 
-import { createContext, useContext, useMemo, useEffect, ReactNode } from "react";
+import { createContext, useContext, useMemo, useEffect, useRef, ReactNode } from "react";
 import type {
     Mnemonic,
+    MnemonicKeyInput,
     MnemonicProviderOptions,
     StorageLike,
+    AsyncStorageLike,
     Listener,
     Unsubscribe,
     SchemaMode,
     SchemaRegistry,
+    RawWriteOptions,
+    Codec,
 } from "./types";
+import { createSchemaLookup, decodeRaw, readErrorSignature, type DecodeOutcome } from "./decode";
+import { mnemonicKeyName } from "./key-definition";
 
 /**
  * React Context for the Mnemonic store.
@@ -62,6 +68,77 @@ export function useMnemonic(): Mnemonic {
     return context;
 }
 
+/**
+ * Hook returning a function that writes all deferred values to storage now.
+ *
+ * Keys configured with `writeDelay` update their cache and subscribers
+ * immediately but write to storage later. The provider already flushes on
+ * `pagehide`, when the page becomes hidden, and on unmount; call the returned
+ * function when storage must be current at another moment, such as before
+ * navigating away programmatically or handing data to another tool.
+ *
+ * @returns Function that flushes every deferred write. Its promise settles
+ *   once the writes reach the storage backend.
+ *
+ * @throws {Error} If called outside of a MnemonicProvider
+ *
+ * @example
+ * ```tsx
+ * function ExportButton() {
+ *   const flush = useMnemonicFlush();
+ *   return <button onClick={async () => { await flush(); exportData(); }}>Export</button>;
+ * }
+ * ```
+ *
+ * @see {@link UseMnemonicKeyOptions.writeDelay} - Deferring a key's storage writes
+ */
+export function useMnemonicFlush(): () => Promise<void> {
+    return useMnemonic().flush;
+}
+
+/**
+ * Hook returning a function that applies several key updates atomically.
+ *
+ * Call `set`, `reset`, and `remove` from any `useMnemonicKey` hooks inside
+ * the callback. Each value is encoded and validated against its schema as
+ * usual, but nothing is written to storage and no subscriber re-renders
+ * until the callback returns. The writes are then committed together and
+ * every changed key notifies its subscribers once, so components never
+ * observe a partial update.
+ *
+ * If the callback throws, a value fails to encode or validate, or storage
+ * rejects a write, every key is restored to its previous value and the
+ * error is rethrown.
+ *
+ * @returns Function running a synchronous callback as a transaction and
+ *   returning the callback's result
+ *
+ * @throws {Error} If called outside of a MnemonicProvider
+ *
+ * @example
+ * ```tsx
+ * const cart = useMnemonicKey("cart", { defaultValue: [] as Item[], schema: { version: 1 } });
+ * const coupon = useMnemonicKey("coupon", { defaultValue: null as string | null });
+ * const transaction = useMnemonicTransaction();
+ *
+ * const applyOffer = (offer: Offer) => {
+ *   try {
+ *     transaction(() => {
+ *       cart.set((items) => [...items, offer.item]);
+ *       coupon.set(offer.code);
+ *     });
+ *   } catch (err) {
+ *     showError(err); // neither key changed
+ *   }
+ * };
+ * ```
+ *
+ * @see {@link Mnemonic.batch} - The underlying store method
+ */
+export function useMnemonicTransaction(): <R>(fn: () => R) => R {
+    return useMnemonic().batch;
+}
+
 /**
  * Props for the MnemonicProvider component.
  *
@@ -96,9 +173,48 @@ function defaultBrowserStorage(): StorageLike | undefined {
     }
 }
 
+/**
+ * Writes staged by {@link Mnemonic.batch}.
+ */
+type StagedWrites = {
+    /** Staged raw values in call order; `null` stages a removal. */
+    writes: Map<string, string | null>;
+    /** Each key's cache entry before its first staged write, or `undefined` if it was not cached. */
+    previous: Map<string, string | null | undefined>;
+    /** Callbacks queued by {@link Mnemonic.afterCommit}, run in call order once the writes commit. */
+    onCommit: (() => void)[];
+};
+
+/**
+ * Tests whether a storage call returned a promise (or any thenable), which
+ * marks the backend as an {@link AsyncStorageLike}.
+ *
+ * @internal
+ */
+function isThenable<T>(value: unknown): value is PromiseLike<T> {
+    return typeof value === "object" && value !== null && typeof (value as PromiseLike<T>).then === "function";
+}
+
+/**
+ * Tests whether a raw stored string is an envelope whose `expiresAt` time
+ * has passed. Unparseable values are never considered expired.
+ *
+ * @internal
+ */
+function isExpiredRaw(raw: string, now: number): boolean {
+    try {
+        const parsed = JSON.parse(raw) as { expiresAt?: unknown } | null;
+        return typeof parsed?.expiresAt === "number" && parsed.expiresAt <= now;
+    } catch {
+        return false;
+    }
+}
+
 /** Internal store type with reload capability, not exposed to consumers. */
 type MnemonicInternal = Mnemonic & {
     reloadFromStorage: (changedKeys?: string[]) => void;
+    subscribeCrossTabAll: () => Unsubscribe;
+    sweepExpired: () => void;
 };
 
 /**
@@ -118,6 +234,11 @@ type MnemonicInternal = Mnemonic & {
  * @param props.enableDevTools - Enable DevTools debugging interface (defaults to false)
  * @param props.schemaMode - Schema enforcement mode (default: "default")
  * @param props.schemaRegistry - Optional schema registry for storing schemas and migrations
+ * @param props.onError - Optional callback for read and write errors from any hook
+ * @param props.listenCrossTab - Sync every key with other tabs via the `storage` event (defaults to false)
+ * @param props.expirySweepInterval - Optional interval in ms for deleting expired keys from storage
+ * @param props.persistSchemaDefaults - Write back values that had schema defaults filled in (defaults to false)
+ * @param props.autoschemaOptions - Optional settings for schemas inferred in autoschema mode
  *
  * @example
  * ```tsx
@@ -198,6 +319,11 @@ export function MnemonicProvider({
     enableDevTools = false,
     schemaMode = "default",
     schemaRegistry,
+    onError,
+    listenCrossTab = false,
+    expirySweepInterval,
+    persistSchemaDefaults = false,
+    autoschemaOptions,
 }: MnemonicProviderProps) {
     if (schemaMode === "strict" && !schemaRegistry) {
         throw new Error("MnemonicProvider strict mode requires schemaRegistry");
@@ -205,10 +331,25 @@ export function MnemonicProvider({
     if (schemaMode === "autoschema" && typeof schemaRegistry?.registerSchema !== "function") {
         throw new Error("MnemonicProvider autoschema mode requires schemaRegistry.registerSchema");
     }
+    if (
+        schemaMode === "autoschema" &&
+        autoschemaOptions?.evolution !== undefined &&
+        typeof schemaRegistry?.registerMigration !== "function"
+    ) {
+        throw new Error("MnemonicProvider autoschema evolution requires schemaRegistry.registerMigration");
+    }
+
+    // Kept in a ref so an inline `onError` does not recreate the store.
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+
+    // Same for inline `autoschemaOptions` objects.
+    const autoschemaOptionsRef = useRef(autoschemaOptions);
+    autoschemaOptionsRef.current = autoschemaOptions;
 
     const store = useMemo<MnemonicInternal>(() => {
         const prefix = `${namespace}.`;
-        const st = storage ?? defaultBrowserStorage();
+        const st: StorageLike | AsyncStorageLike | undefined = storage ?? defaultBrowserStorage();
 
         /**
          * In-memory cache of raw string values.
@@ -230,6 +371,60 @@ export function MnemonicProvider({
         /** Whether a non-quota DOMException has already been logged since the last successful storage access. */
         let accessErrorLogged = false;
 
+        /**
+         * Whether the backend has returned a promise from any call. Detected on
+         * first use; once set, all further reads and writes go through
+         * {@link writeQueue} so they reach the backend in order.
+         */
+        let asyncBackend = false;
+
+        /** Tail of the ordered write queue used for async backends. */
+        let writeQueue: Promise<void> = Promise.resolve();
+
+        /**
+         * In-flight hydration reads for async backends.
+         * Maps unprefixed keys to a promise that settles once the key is cached.
+         */
+        const pending = new Map<string, Promise<void>>();
+
+        /**
+         * Per-key write counter. Async reads capture it when they start and are
+         * discarded if a local write landed while they were in flight.
+         */
+        const revisions = new Map<string, number>();
+
+        /** Keys most recently reported by an async backend's `keys()`. */
+        let asyncKeys: string[] = [];
+
+        /**
+         * Keys whose latest cached value has not been written to storage yet,
+         * mapped to the timer that will write it.
+         */
+        const deferred = new Map<string, ReturnType<typeof setTimeout>>();
+
+        /** Time each throttled key was last written to storage. */
+        const lastPersisted = new Map<string, number>();
+
+        /**
+         * Decode results for the current raw value of each key, keyed by codec
+         * identity, and the read errors already reported for it. Replaced when
+         * the raw value, the latest schema version, or (in autoschema mode)
+         * the inference options change.
+         */
+        const decoded = new Map<
+            string,
+            {
+                raw: string | null;
+                schemaVersion: number | undefined;
+                inference: string;
+                outcomes: WeakMap<object, DecodeOutcome<unknown>>;
+                reported: Set<string>;
+            }
+        >();
+
+        /** Writes staged by the running {@link batch}, or null outside a batch. */
+        let staged: StagedWrites | null = null;
+
         /**
          * Converts an unprefixed key to a fully-qualified storage key.
          *
@@ -266,21 +461,67 @@ export function MnemonicProvider({
             }
         };
 
+        /**
+         * Marks a local mutation of a key, invalidating any in-flight async
+         * read so it cannot overwrite the newer value.
+         */
+        const bumpRevision = (key: string) => {
+            revisions.set(key, (revisions.get(key) ?? 0) + 1);
+            pending.delete(key);
+        };
+
+        /**
+         * Reads a fully-qualified key from storage. Async backends read after
+         * any queued writes so a read never observes a stale value.
+         */
+        const fetchItem = (fk: string): string | null | PromiseLike<string | null> => {
+            if (asyncBackend) return writeQueue.then(() => st!.getItem(fk));
+            const result = st!.getItem(fk);
+            if (isThenable<string | null>(result)) asyncBackend = true;
+            return result;
+        };
+
         /**
          * Read-through cache accessor.
          * Returns cached value if available, otherwise reads from storage and caches.
          *
+         * For async backends the first read starts a hydration request and
+         * returns null until the key has loaded; listeners are notified once
+         * the value arrives.
+         *
          * @param key - Unprefixed key to read
-         * @returns Raw string value, or null if not present
+         * @returns Raw string value, or null if not present (or still loading)
          */
         const readThrough = (key: string): string | null => {
             if (cache.has(key)) return cache.get(key) ?? null;
+            if (pending.has(key)) return null;
             if (!st) {
                 cache.set(key, null);
                 return null;
             }
             try {
-                const raw = st.getItem(fullKey(key));
+                const raw = fetchItem(fullKey(key));
+                if (isThenable<string | null>(raw)) {
+                    const revision = revisions.get(key) ?? 0;
+                    const settle = (value: string | null) => {
+                        if (pending.get(key) !== hydration || (revisions.get(key) ?? 0) !== revision) return;
+                        pending.delete(key);
+                        cache.set(key, value);
+                        emit(key);
+                    };
+                    const hydration: Promise<void> = Promise.resolve(raw).then(
+                        (value) => {
+                            accessErrorLogged = false;
+                            settle(value ?? null);
+                        },
+                        (err) => {
+                            logAccessError(err);
+                            settle(null);
+                        },
+                    );
+                    pending.set(key, hydration);
+                    return null;
+                }
                 cache.set(key, raw);
                 accessErrorLogged = false;
                 return raw;
@@ -292,20 +533,51 @@ export function MnemonicProvider({
         };
 
         /**
-         * Writes a raw string value to both cache and storage.
-         * Notifies listeners after the write completes.
+         * Runs a storage mutation. Sync backends run it immediately; async
+         * backends append it to the write queue so mutations reach the
+         * backend in call order.
+         *
+         * @param op - The storage call to make
+         * @param onSuccess - Invoked after the mutation succeeds
+         * @param onFailure - Invoked with the error if the mutation fails
+         */
+        const mutate = (
+            op: () => void | PromiseLike<void>,
+            onSuccess: () => void,
+            onFailure: (err: unknown) => void,
+        ) => {
+            if (asyncBackend) {
+                writeQueue = writeQueue.then(op).then(onSuccess, onFailure);
+                return;
+            }
+            try {
+                const result = op();
+                if (isThenable<void>(result)) {
+                    asyncBackend = true;
+                    writeQueue = Promise.resolve(result).then(onSuccess, onFailure);
+                    return;
+                }
+                onSuccess();
+            } catch (err) {
+                onFailure(err);
+            }
+        };
+
+        /**
+         * Writes a raw string value to the storage backend.
          *
          * @param key - Unprefixed key to write
          * @param raw - Raw string value to store
          */
-        const writeRaw = (key: string, raw: string) => {
-            cache.set(key, raw);
-            if (st) {
-                try {
-                    st.setItem(fullKey(key), raw);
+        const persistRaw = (key: string, raw: string) => {
+            if (!st) return;
+            mutate(
+                () => st.setItem(fullKey(key), raw),
+                () => {
                     quotaErrorLogged = false;
                     accessErrorLogged = false;
-                } catch (err) {
+                },
+                (err) => {
                     if (!quotaErrorLogged && err instanceof DOMException && err.name === "QuotaExceededError") {
                         console.error(
                             `[Mnemonic] Storage quota exceeded writing key "${key}". ` +
@@ -314,6 +586,88 @@ export function MnemonicProvider({
                         quotaErrorLogged = true;
                     }
                     logAccessError(err);
+                },
+            );
+        };
+
+        /**
+         * Cancels a key's deferred write without performing it.
+         */
+        const cancelDeferred = (key: string) => {
+            const timer = deferred.get(key);
+            if (timer === undefined) return;
+            clearTimeout(timer);
+            deferred.delete(key);
+        };
+
+        /**
+         * Performs a key's deferred write now, using the latest cached value.
+         */
+        const flushKey = (key: string) => {
+            if (!deferred.has(key)) return;
+            cancelDeferred(key);
+            lastPersisted.set(key, Date.now());
+            const raw = cache.get(key);
+            if (raw != null) persistRaw(key, raw);
+        };
+
+        /**
+         * Schedules the storage write for a key whose cached value just changed.
+         */
+        const scheduleWrite = (key: string, { delay, mode }: RawWriteOptions) => {
+            if (mode === "debounce") {
+                cancelDeferred(key);
+                deferred.set(
+                    key,
+                    setTimeout(() => flushKey(key), delay),
+                );
+                return;
+            }
+            // Throttle: a pending trailing write will pick up the new value.
+            if (deferred.has(key)) return;
+            const elapsed = Date.now() - (lastPersisted.get(key) ?? -Infinity);
+            if (elapsed >= delay) {
+                lastPersisted.set(key, Date.now());
+                persistRaw(key, cache.get(key)!);
+                return;
+            }
+            deferred.set(
+                key,
+                setTimeout(() => flushKey(key), delay - elapsed),
+            );
+        };
+
+        /**
+         * Writes every deferred value to storage now.
+         *
+         * @returns Promise that settles once the writes reach the backend
+         */
+        const flush = (): Promise<void> => {
+            for (const key of Array.from(deferred.keys())) flushKey(key);
+            return asyncBackend ? writeQueue : Promise.resolve();
+        };
+
+        /**
+         * Writes a raw string value to both cache and storage.
+         * Notifies listeners after the write completes.
+         *
+         * @param key - Unprefixed key to write
+         * @param raw - Raw string value to store
+         * @param options - Optional deferred write scheduling
+         */
+        const writeRaw = (key: string, raw: string, options?: RawWriteOptions) => {
+            if (staged) {
+                stage(key, raw);
+                return;
+            }
+            cache.set(key, raw);
+            bumpRevision(key);
+            if (st) {
+                if (options && options.delay > 0) {
+                    scheduleWrite(key, options);
+                } else {
+                    cancelDeferred(key);
+                    persistRaw(key, raw);
                 }
             }
             emit(key);
@@ -326,16 +680,153 @@ export function MnemonicProvider({
          * @param key - Unprefixed key to remove
          */
         const removeRaw = (key: string) => {
+            if (staged) {
+                stage(key, null);
+                return;
+            }
             cache.set(key, null);
+            bumpRevision(key);
+            cancelDeferred(key);
             if (st) {
+                mutate(
+                    () => st.removeItem(fullKey(key)),
+                    () => {
+                        accessErrorLogged = false;
+                    },
+                    logAccessError,
+                );
+            }
+            emit(key);
+        };
+
+        /**
+         * Records a write made during a batch in the cache only.
+         *
+         * @param key - Unprefixed key being written
+         * @param raw - Raw value to store, or null to remove the key
+         */
+        const stage = (key: string, raw: string | null) => {
+            if (!staged!.previous.has(key)) {
+                staged!.previous.set(key, cache.has(key) ? (cache.get(key) ?? null) : undefined);
+            }
+            staged!.writes.set(key, raw);
+            cache.set(key, raw);
+            bumpRevision(key);
+        };
+
+        /**
+         * Writes staged values to storage, restoring the entries already
+         * written if a synchronous backend rejects one of them.
+         *
+         * Async backends report failures after the batch has returned, so
+         * those are logged like any other failed write instead.
+         *
+         * @param writes - Staged values in call order
+         * @throws The storage error that stopped the commit
+         */
+        const commitStaged = (writes: Map<string, string | null>) => {
+            if (!st) return;
+            const written: [string, string | null][] = [];
+            let failure: { err: unknown } | null = null;
+            for (const [key, raw] of writes) {
+                cancelDeferred(key);
+                const fk = fullKey(key);
+                let before: string | null = null;
+                if (!asyncBackend) {
+                    try {
+                        const current = st.getItem(fk);
+                        if (!isThenable(current)) before = current;
+                    } catch {
+                        // Unreadable entries are restored as absent.
+                    }
+                }
+                let sync = true;
+                mutate(
+                    () => (raw === null ? st.removeItem(fk) : st.setItem(fk, raw)),
+                    () => {
+                        accessErrorLogged = false;
+                    },
+                    (err) => {
+                        if (sync) failure = { err };
+                        else logAccessError(err);
+                    },
+                );
+                sync = false;
+                if (failure) break;
+                written.push([fk, before]);
+            }
+            if (!failure) return;
+            for (const [fk, before] of written.reverse()) {
                 try {
-                    st.removeItem(fullKey(key));
-                    accessErrorLogged = false;
-                } catch (err) {
-                    logAccessError(err);
+                    if (before === null) st.removeItem(fk);
+                    else st.setItem(fk, before);
+                } catch {
+                    // Best effort: the cache is rolled back regardless.
                 }
             }
-            emit(key);
+            throw (failure as { err: unknown }).err;
+        };
+
+        /**
+         * Runs `fn`, staging its writes, then commits them together and
+         * notifies each changed key once. Restores the cache and storage if
+         * `fn` or the commit throws.
+         *
+         * @param fn - Synchronous callback making the writes
+         * @returns The value returned by `fn`
+         */
+        const batch = <R,>(fn: () => R): R => {
+            if (staged) return fn();
+            const current: StagedWrites = { writes: new Map(), previous: new Map(), onCommit: [] };
+            staged = current;
+            let result: R;
+            try {
+                result = fn();
+                if (isThenable(result)) {
+                    throw new TypeError("[Mnemonic] batch() callbacks must be synchronous");
+                }
+                staged = null;
+                commitStaged(current.writes);
+            } catch (err) {
+                staged = null;
+                for (const [key, before] of current.previous) {
+                    if (before === undefined) cache.delete(key);
+                    else cache.set(key, before);
+                    bumpRevision(key);
+                }
+                throw err;
+            }
+            try {
+                for (const callback of current.onCommit) callback();
+            } finally {
+                for (const key of current.writes.keys()) emit(key);
+            }
+            return result;
+        };
+
+        /**
+         * Runs `fn` once the running batch commits, or immediately outside
+         * a batch.
+         *
+         * @param fn - Callback to run after the writes are stored
+         */
+        const afterCommit = (fn: () => void) => {
+            if (staged) staged.onCommit.push(fn);
+            else fn();
+        };
+
+        /**
+         * Writes a read-time upgrade of a stored value, unless the key has
+         * changed since the value was read. Every hook reading the old value
+         * asks for the same upgrade; only the first request writes.
+         *
+         * @param key - Unprefixed key to upgrade
+         * @param from - Raw value the upgrade was computed from
+         * @param to - Upgraded raw value
+         */
+        const applyRewrite = (key: string, from: string, to: string) => {
+            if (readThrough(key) !== from) return;
+            writeRaw(key, to);
         };
 
         /**
@@ -365,6 +856,46 @@ export function MnemonicProvider({
             };
         };
 
+        /**
+         * Decodes a raw value for a key, reusing the result for every caller
+         * that passes the key's current raw value and the same codec.
+         *
+         * @param key - Unprefixed key the value belongs to
+         * @param raw - Raw stored value, or null when absent
+         * @param codec - Codec for codec-managed payloads
+         * @returns The memoized decode outcome
+         */
+        const decode = <T,>(key: string, raw: string | null, codec: Codec<T>): DecodeOutcome<T> => {
+            // Queried on every decode rather than memoized, so schemas and
+            // migrations registered after mount are picked up.
+            const lookup = createSchemaLookup(key, schemaRegistry, false);
+            const schemaVersion = lookup.getLatestSchema()?.version;
+            const inferOptions = schemaMode === "autoschema" ? autoschemaOptionsRef.current?.inference : undefined;
+            // Compared by value, so an inline options object does not defeat the cache.
+            const inference = inferOptions ? JSON.stringify(inferOptions) : "";
+            let entry = decoded.get(key);
+            if (!entry || entry.raw !== raw || entry.schemaVersion !== schemaVersion || entry.inference !== inference) {
+                entry = { raw, schemaVersion, inference, outcomes: new WeakMap(), reported: new Set() };
+                // Only the current value is memoized; decoding an older value
+                // (e.g. an undo entry) must not evict it.
+                if (cache.has(key) && (cache.get(key) ?? null) === raw) decoded.set(key, entry);
+            }
+            let outcome = entry.outcomes.get(codec) as DecodeOutcome<T> | undefined;
+            if (!outcome) {
+                outcome = decodeRaw(raw, {
+                    key,
+                    codec,
+                    schemaMode,
+                    lookup,
+                    persistDefaults: persistSchemaDefaults,
+                    ...(inferOptions ? { inferOptions } : {}),
+                    ...(schemaRegistry ? { schemaRegistry } : {}),
+                });
+                entry.outcomes.set(codec, outcome);
+            }
+            return outcome;
+        };
+
         /**
          * Gets the current snapshot of a key's raw value.
          * Implements the React external store snapshot contract.
@@ -374,6 +905,30 @@ export function MnemonicProvider({
          */
         const getRawSnapshot = (key: string) => readThrough(key);
 
+        /**
+         * Whether a key has finished loading from storage.
+         * Always true for synchronous backends. Starts hydration if needed.
+         *
+         * @param key - Unprefixed key to check
+         * @returns True once the key's value is cached
+         */
+        const isHydrated = (key: string) => {
+            readThrough(key);
+            return !pending.has(key);
+        };
+
+        /**
+         * Resolves once a key has finished loading from storage.
+         * Starts hydration if needed.
+         *
+         * @param key - Unprefixed key to wait for
+         * @returns Promise that settles when the key is cached
+         */
+        const whenHydrated = (key: string): Promise<void> => {
+            readThrough(key);
+            return pending.get(key) ?? Promise.resolve();
+        };
+
         /**
          * Enumerates all keys in this namespace.
          * Iterates through storage and filters keys by namespace prefix.
@@ -381,11 +936,33 @@ export function MnemonicProvider({
          * @returns Array of unprefixed key names
          */
         const keys = () => {
-            if (!st || typeof st.length !== "number" || typeof st.key !== "function") return [];
+            if (st && typeof (st as AsyncStorageLike).keys === "function") {
+                // Async enumeration: report the last known key list merged with
+                // the cache, and refresh the list in the background.
+                try {
+                    Promise.resolve((st as AsyncStorageLike).keys!()).then((all) => {
+                        asyncKeys = all;
+                        accessErrorLogged = false;
+                    }, logAccessError);
+                } catch (err) {
+                    logAccessError(err);
+                }
+                const out = new Set<string>();
+                for (const k of asyncKeys) {
+                    if (k.startsWith(prefix)) out.add(k.slice(prefix.length));
+                }
+                for (const [k, raw] of cache) {
+                    if (raw == null) out.delete(k);
+                    else out.add(k);
+                }
+                return Array.from(out);
+            }
+            const syncSt = st as StorageLike | undefined;
+            if (!syncSt || typeof syncSt.length !== "number" || typeof syncSt.key !== "function") return [];
             const out: string[] = [];
             try {
-                for (let i = 0; i < st.length; i++) {
-                    const k = st.key(i);
+                for (let i = 0; i < syncSt.length; i++) {
+                    const k = syncSt.key(i);
                     if (!k) continue;
                     if (k.startsWith(prefix)) out.push(k.slice(prefix.length));
                 }
@@ -428,6 +1005,43 @@ export function MnemonicProvider({
             // Empty array → explicit no-op
             if (changedKeys !== undefined && changedKeys.length === 0) return;
 
+            /** Re-reads one subscribed key and emits if it differs from the cache. */
+            const refresh = (key: string) => {
+                // A deferred local write is newer than what storage holds.
+                if (deferred.has(key)) return;
+                const revision = revisions.get(key) ?? 0;
+                const apply = (fresh: string | null) => {
+                    // A local write landed while an async read was in flight.
+                    if ((revisions.get(key) ?? 0) !== revision || deferred.has(key)) return;
+                    const cached = cache.get(key) ?? null;
+                    if (fresh !== cached) {
+                        cache.set(key, fresh);
+                        emit(key);
+                    }
+                };
+                try {
+                    const fresh = fetchItem(fullKey(key));
+                    if (isThenable<string | null>(fresh)) {
+                        Promise.resolve(fresh).then(
+                            (value) => {
+                                accessErrorLogged = false;
+                                apply(value ?? null);
+                            },
+                            (err) => {
+                                logAccessError(err);
+                                apply(null);
+                            },
+                        );
+                        return;
+                    }
+                    accessErrorLogged = false;
+                    apply(fresh);
+                } catch (err) {
+                    logAccessError(err);
+                    apply(null);
+                }
+            };
+
             if (changedKeys !== undefined) {
                 // Granular path: only reload the specified keys
                 for (const fk of changedKeys) {
@@ -438,20 +1052,8 @@ export function MnemonicProvider({
                     const listenerSet = listeners.get(key);
                     if (listenerSet && listenerSet.size > 0) {
                         // Subscribed: re-read and diff
-                        let fresh: string | null;
-                        try {
-                            fresh = st.getItem(fk);
-                            accessErrorLogged = false;
-                        } catch (err) {
-                            logAccessError(err);
-                            fresh = null;
-                        }
-                        const cached = cache.get(key) ?? null;
-                        if (fresh !== cached) {
-                            cache.set(key, fresh);
-                            emit(key);
-                        }
-                    } else if (cache.has(key)) {
+                        refresh(key);
+                    } else if (cache.has(key) && !deferred.has(key)) {
                         // Cached but not subscribed: evict so next read is fresh
                         cache.delete(key);
                     }
@@ -462,42 +1064,178 @@ export function MnemonicProvider({
             // Blanket path: re-read all subscribed keys
             for (const [key, listenerSet] of listeners) {
                 if (listenerSet.size === 0) continue;
-                let fresh: string | null;
-                try {
-                    fresh = st.getItem(fullKey(key));
-                    accessErrorLogged = false;
-                } catch (err) {
-                    logAccessError(err);
-                    fresh = null;
-                }
-                const cached = cache.get(key) ?? null;
-                if (fresh !== cached) {
-                    cache.set(key, fresh);
-                    emit(key);
-                }
+                refresh(key);
             }
 
             // Evict unsubscribed cache entries so next readThrough re-reads
             for (const key of cache.keys()) {
-                if (!listeners.has(key) || listeners.get(key)!.size === 0) {
+                if ((!listeners.has(key) || listeners.get(key)!.size === 0) && !deferred.has(key)) {
                     cache.delete(key);
                 }
             }
         };
 
+        /**
+         * Deletes every expired key in this namespace from storage.
+         * Keys written locally while an async read was in flight are skipped.
+         */
+        const sweepExpired = () => {
+            if (!st) return;
+            const now = Date.now();
+            const sweepKeys = (unprefixed: string[]) => {
+                for (const key of unprefixed) {
+                    const revision = revisions.get(key) ?? 0;
+                    const check = (raw: string | null) => {
+                        if ((revisions.get(key) ?? 0) !== revision || deferred.has(key)) return;
+                        if (raw != null && isExpiredRaw(raw, now)) removeRaw(key);
+                    };
+                    try {
+                        const raw = fetchItem(fullKey(key));
+                        if (isThenable<string | null>(raw)) {
+                            Promise.resolve(raw).then(check, logAccessError);
+                        } else {
+                            check(raw);
+                        }
+                    } catch (err) {
+                        logAccessError(err);
+                    }
+                }
+            };
+            const asyncSt = st as AsyncStorageLike;
+            if (typeof asyncSt.keys !== "function") {
+                sweepKeys(keys());
+                return;
+            }
+            // Async enumeration: wait for the full key list.
+            try {
+                Promise.resolve(asyncSt.keys()).then((all) => {
+                    asyncKeys = all;
+                    sweepKeys(all.filter((k) => k.startsWith(prefix)).map((k) => k.slice(prefix.length)));
+                }, logAccessError);
+            } catch (err) {
+                logAccessError(err);
+            }
+        };
+
+        /**
+         * Unprefixed keys opted in to cross-tab updates, mapped to the number
+         * of hooks that opted them in.
+         */
+        const crossTabKeys = new Map<string, number>();
+
+        /** Number of active provider-wide cross-tab subscriptions. */
+        let crossTabAll = 0;
+
+        /** Whether {@link handleStorageEvent} is attached to `window`. */
+        let storageListenerInstalled = false;
+
+        /**
+         * Shared `storage` event handler. Filters by namespace prefix and
+         * re-reads the changed key if it is opted in to cross-tab updates.
+         */
+        const handleStorageEvent = (e: StorageEvent) => {
+            // localStorage.clear() in another tab emits `key === null`.
+            if (e.key === null) {
+                reloadFromStorage(crossTabAll > 0 ? undefined : Array.from(crossTabKeys.keys(), fullKey));
+                return;
+            }
+            if (!e.key.startsWith(prefix)) return;
+            if (crossTabAll > 0 || crossTabKeys.has(e.key.slice(prefix.length))) {
+                reloadFromStorage([e.key]);
+            }
+        };
+
+        /**
+         * Installs the shared `storage` listener while any cross-tab
+         * subscription is active, and removes it when the last one ends.
+         */
+        const syncStorageListener = () => {
+            if (typeof window === "undefined") return;
+            const active = crossTabAll > 0 || crossTabKeys.size > 0;
+            if (active && !storageListenerInstalled) {
+                window.addEventListener("storage", handleStorageEvent);
+                storageListenerInstalled = true;
+            } else if (!active && storageListenerInstalled) {
+                window.removeEventListener("storage", handleStorageEvent);
+                storageListenerInstalled = false;
+            }
+        };
+
+        /**
+         * Opts a key in to cross-tab updates.
+         *
+         * @param key - Unprefixed key to opt in
+         * @returns Function that withdraws the opt-in
+         */
+        const subscribeCrossTab = (key: string): Unsubscribe => {
+            crossTabKeys.set(key, (crossTabKeys.get(key) ?? 0) + 1);
+            syncStorageListener();
+            let active = true;
+            return () => {
+                if (!active) return;
+                active = false;
+                const count = (crossTabKeys.get(key) ?? 1) - 1;
+                if (count > 0) crossTabKeys.set(key, count);
+                else crossTabKeys.delete(key);
+                syncStorageListener();
+            };
+        };
+
+        /**
+         * Opts every key in this namespace in to cross-tab updates.
+         * Backs the provider-level `listenCrossTab` option.
+         *
+         * @returns Function that withdraws the opt-in
+         */
+        const subscribeCrossTabAll = (): Unsubscribe => {
+            crossTabAll += 1;
+            syncStorageListener();
+            let active = true;
+            return () => {
+                if (!active) return;
+                active = false;
+                crossTabAll -= 1;
+                syncStorageListener();
+            };
+        };
+
         /**
          * The Mnemonic store API object.
          * Implements the contract expected by useSyncExternalStore.
          */
         const store = {
             prefix,
-            subscribeRaw,
-            getRawSnapshot,
-            setRaw: writeRaw,
-            removeRaw,
+            subscribeRaw: (key: MnemonicKeyInput, listener: Listener) => subscribeRaw(mnemonicKeyName(key), listener),
+            subscribeCrossTab: (key: MnemonicKeyInput) => subscribeCrossTab(mnemonicKeyName(key)),
+            subscribeCrossTabAll,
+            getRawSnapshot: (key: MnemonicKeyInput) => getRawSnapshot(mnemonicKeyName(key)),
+            isHydrated: (key: MnemonicKeyInput) => isHydrated(mnemonicKeyName(key)),
+            whenHydrated: (key: MnemonicKeyInput) => whenHydrated(mnemonicKeyName(key)),
+            setRaw: (key: MnemonicKeyInput, raw: string, options?: RawWriteOptions) =>
+                writeRaw(mnemonicKeyName(key), raw, options),
+            flush,
+            removeRaw: (key: MnemonicKeyInput) => removeRaw(mnemonicKeyName(key)),
+            batch,
+            inBatch: () => staged !== null,
+            afterCommit,
+            decode,
+            applyRewrite,
             keys,
             dump,
             reloadFromStorage,
+            sweepExpired,
+            reportError: (error: Error, key: string) => onErrorRef.current?.(error, key),
+            reportReadError: (error: Error, key: string, raw: string | null) => {
+                // Every hook on the key reports the same failure; forward it once.
+                const entry = decoded.get(key);
+                if (entry && entry.raw === raw) {
+                    const signature = readErrorSignature(error);
+                    if (entry.reported.has(signature)) return;
+                    entry.reported.add(signature);
+                }
+                onErrorRef.current?.(error, key);
+            },
+            getAutoschemaOptions: () => autoschemaOptionsRef.current,
             schemaMode: schemaMode as SchemaMode,
             ...(schemaRegistry ? { schemaRegistry: schemaRegistry as SchemaRegistry } : {}),
         };
@@ -531,9 +1269,9 @@ export function MnemonicProvider({
                     return data;
                 },
 
-                /** Get a decoded value by key */
-                get: (key: string) => {
-                    const raw = readThrough(key);
+                /** Get a decoded value by key or key descriptor */
+                get: (key: MnemonicKeyInput) => {
+                    const raw = readThrough(mnemonicKeyName(key));
                     if (raw == null) return undefined;
                     try {
                         return JSON.parse(raw);
@@ -542,13 +1280,13 @@ export function MnemonicProvider({
                     }
                 },
 
-                /** Set a value by key (automatically JSON-encoded) */
-                set: (key: string, value: any) => {
-                    writeRaw(key, JSON.stringify(value));
+                /** Set a value by key or key descriptor (automatically JSON-encoded) */
+                set: (key: MnemonicKeyInput, value: any) => {
+                    writeRaw(mnemonicKeyName(key), JSON.stringify(value));
                 },
 
-                /** Remove a key from storage */
-                remove: (key: string) => removeRaw(key),
+                /** Remove a key, given by name or key descriptor, from storage */
+                remove: (key: MnemonicKeyInput) => removeRaw(mnemonicKeyName(key)),
 
                 /** Clear all keys in this namespace */
                 clear: () => {
@@ -566,7 +1304,7 @@ export function MnemonicProvider({
         }
 
         return store;
-    }, [namespace, storage, enableDevTools, schemaMode, schemaRegistry]);
+    }, [namespace, storage, enableDevTools, schemaMode, schemaRegistry, persistSchemaDefaults]);
 
     // Subscribe to external storage changes (e.g., cross-tab BroadcastChannel)
     useEffect(() => {
@@ -574,5 +1312,41 @@ export function MnemonicProvider({
         return storage.onExternalChange((changedKeys) => store.reloadFromStorage(changedKeys));
     }, [storage, store]);
 
+    // Provider-wide cross-tab sync via the shared `storage` event listener
+    useEffect(() => {
+        if (!listenCrossTab) return;
+        return store.subscribeCrossTabAll();
+    }, [listenCrossTab, store]);
+
+    // Write deferred values before the page goes away, and when the store is replaced
+    useEffect(() => {
+        const flushIfHidden = () => {
+            if (document.visibilityState === "hidden") void store.flush();
+        };
+        const flushNow = () => {
+            void store.flush();
+        };
+        if (typeof window !== "undefined") {
+            window.addEventListener("pagehide", flushNow);
+            document.addEventListener("visibilitychange", flushIfHidden);
+        }
+        return () => {
+            if (typeof window !== "undefined") {
+                window.removeEventListener("pagehide", flushNow);
+                document.removeEventListener("visibilitychange", flushIfHidden);
+            }
+            void store.flush();
+        };
+    }, [store]);
+
+    // Periodically delete expired keys from storage
+    useEffect(() => {
+        if (expirySweepInterval === undefined) return;
+        store.sweepExpired();
+        if (expirySweepInterval <= 0) return;
+        const timer = setInterval(() => store.sweepExpired(), expirySweepInterval);
+        return () => clearInterval(timer);
+    }, [expirySweepInterval, store]);
+
     return <MnemonicContext.Provider value={store}>{children}</MnemonicContext.Provider>;
 }
@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { MnemonicProvider } from "./provider";
+import { useMnemonicKey } from "./use";
+import { useMnemonicHistory } from "./history";
+import { useMnemonicSelector } from "./selector";
+import { defineMnemonicKey } from "./key-definition";
+import { createSchemaRegistry, type SchemaRegistryKey } from "./schema-registry";
+import type { MnemonicKeyDescriptor, StorageLike } from "./types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createMockStorage(): StorageLike & { store: Map<string, string> } {
+    const store = new Map<string, string>();
+    return {
+        store,
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            store.set(key, value);
+        },
+        removeItem: (key: string) => {
+            store.delete(key);
+        },
+    };
+}
+
+const registry = createSchemaRegistry({
+    schemas: [
+        {
+            key: "settings",
+            version: 1,
+            schema: {
+                type: "object",
+                properties: {
+                    theme: { enum: ["light", "dark"] },
+                    tags: { type: "array", items: { type: "string" } },
+                },
+                required: ["theme", "tags"],
+            },
+        },
+    ],
+});
+
+declare module "./types" {
+    interface MnemonicRegister {
+        schemaRegistry: typeof registry;
+    }
+}
+
+type Settings = { theme: "light" | "dark"; tags: string[] };
+
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+describe("hooks with a single registered key", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    function renderWithRegistry(children: React.ReactNode) {
+        return render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                {children}
+            </MnemonicProvider>,
+        );
+    }
+
+    it("infers the value type for the only key", () => {
+        expectTypeOf<SchemaRegistryKey<typeof registry>>().toEqualTypeOf<"settings">();
+        let hook: { value: Settings; set: (next: Settings) => void } | undefined;
+        function Probe() {
+            const result = useMnemonicKey("settings", { defaultValue: { theme: "light", tags: [] } });
+            expectTypeOf(result.value).toEqualTypeOf<Settings>();
+            hook = result;
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+        act(() => hook!.set({ theme: "dark", tags: ["a"] }));
+        expect(JSON.parse(storage.store.get("ns.settings")!)).toEqual({
+            version: 1,
+            payload: { theme: "dark", tags: ["a"] },
+        });
+    });
+
+    it("checks defaultValue against the schema", () => {
+        function Probe() {
+            // @ts-expect-error -- "blue" is not in the theme enum
+            useMnemonicKey("settings", { defaultValue: { theme: "blue", tags: [] } });
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+    });
+
+    it("infers the value type in the other hooks and key definitions", () => {
+        const settingsKey = defineMnemonicKey({ key: "settings", defaultValue: { theme: "light", tags: [] } });
+        expectTypeOf(settingsKey).toEqualTypeOf<MnemonicKeyDescriptor<Settings>>();
+        function Probe() {
+            const history = useMnemonicHistory("settings", { defaultValue: { theme: "light", tags: [] } });
+            expectTypeOf(history.value).toEqualTypeOf<Settings>();
+            const theme = useMnemonicSelector("settings", (s) => {
+                expectTypeOf(s).toEqualTypeOf<Settings | undefined>();
+                return s?.theme;
+            });
+            expectTypeOf(theme).toEqualTypeOf<"light" | "dark" | undefined>();
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+    });
+});
@@ -0,0 +1,197 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { MnemonicProvider } from "./provider";
+import { useMnemonicKey } from "./use";
+import { useMnemonicHistory } from "./history";
+import { useMnemonicSelector } from "./selector";
+import { defineMnemonicKey } from "./key-definition";
+import { createSchemaRegistry, type SchemaRegistryKey, type SchemaRegistryValue } from "./schema-registry";
+import type { KeySchema, MnemonicKeyDescriptor, StorageLike } from "./types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createMockStorage(): StorageLike & { store: Map<string, string> } {
+    const store = new Map<string, string>();
+    return {
+        store,
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            store.set(key, value);
+        },
+        removeItem: (key: string) => {
+            store.delete(key);
+        },
+    };
+}
+
+const registry = createSchemaRegistry({
+    schemas: [
+        {
+            key: "typed-settings",
+            version: 1,
+            schema: {
+                type: "object",
+                properties: { theme: { enum: ["light", "dark"] } },
+                required: ["theme"],
+            },
+        },
+        {
+            key: "typed-settings",
+            version: 2,
+            schema: {
+                type: "object",
+                properties: { theme: { enum: ["light", "dark"] }, fontSize: { type: "number" } },
+                required: ["theme", "fontSize"],
+            },
+        },
+        { key: "typed-volume", version: 1, schema: { type: "number" } },
+    ],
+    migrations: [
+        {
+            key: "typed-settings",
+            fromVersion: 1,
+            toVersion: 2,
+            migrate: (v) => ({ ...(v as object), fontSize: 14 }),
+        },
+    ],
+});
+
+declare module "./types" {
+    interface MnemonicRegister {
+        schemaRegistry: typeof registry;
+    }
+}
+
+type Settings = { theme: "light" | "dark"; fontSize: number };
+
+const DEFAULT_SETTINGS: Settings = { theme: "light", fontSize: 12 };
+
+// ---------------------------------------------------------------------------
+// Registry types
+// ---------------------------------------------------------------------------
+
+describe("typed schema registries", () => {
+    it("exposes literal keys and latest-version value types", () => {
+        expectTypeOf<SchemaRegistryKey<typeof registry>>().toEqualTypeOf<"typed-settings" | "typed-volume">();
+        expectTypeOf<SchemaRegistryValue<typeof registry, "typed-settings">>().toEqualTypeOf<Settings>();
+        expectTypeOf<SchemaRegistryValue<typeof registry, "typed-volume">>().toEqualTypeOf<number>();
+    });
+
+    it("has no literal keys when the schemas are not written inline", () => {
+        const schemas: KeySchema[] = [{ key: "typed-volume", version: 1, schema: { type: "number" } }];
+        const loose = createSchemaRegistry({ schemas });
+        expectTypeOf<SchemaRegistryKey<typeof loose>>().toBeNever();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+describe("hooks with registered keys", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    function renderWithRegistry(children: React.ReactNode) {
+        return render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                {children}
+            </MnemonicProvider>,
+        );
+    }
+
+    it("useMnemonicKey infers the value type from the latest schema", () => {
+        storage.store.set("ns.typed-settings", JSON.stringify({ version: 1, payload: { theme: "dark" } }));
+        let hook: { value: Settings; set: (next: Settings) => void } | undefined;
+        function Probe() {
+            const result = useMnemonicKey("typed-settings", { defaultValue: DEFAULT_SETTINGS });
+            expectTypeOf(result.value).toEqualTypeOf<Settings>();
+            hook = result;
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+        expect(hook!.value).toEqual({ theme: "dark", fontSize: 14 });
+
+        act(() => hook!.set({ theme: "light", fontSize: 16 }));
+        expect(JSON.parse(storage.store.get("ns.typed-settings")!)).toEqual({
+            version: 2,
+            payload: { theme: "light", fontSize: 16 },
+        });
+    });
+
+    it("rejects values that do not match the schema at compile time", () => {
+        function Probe() {
+            // @ts-expect-error -- fontSize is required by the latest schema
+            useMnemonicKey("typed-settings", { defaultValue: { theme: "light" } });
+            const { set } = useMnemonicKey("typed-volume", { defaultValue: 0.5 });
+            // @ts-expect-error -- the schema type is number
+            void (() => set("loud"));
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+    });
+
+    it("keeps explicit type arguments and unregistered keys as before", () => {
+        function Probe() {
+            const explicit = useMnemonicKey<number | null>("typed-volume", { defaultValue: null });
+            expectTypeOf(explicit.value).toEqualTypeOf<number | null>();
+            const other = useMnemonicKey("untyped", { defaultValue: "x" });
+            expectTypeOf(other.value).toEqualTypeOf<string>();
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+    });
+
+    it("useMnemonicHistory infers the value type", () => {
+        let hook: ReturnType<typeof useMnemonicHistory<number>> | undefined;
+        function Probe() {
+            const result = useMnemonicHistory("typed-volume", { defaultValue: 0.5, depth: 10 });
+            expectTypeOf(result.value).toEqualTypeOf<number>();
+            hook = result;
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+        act(() => hook!.set(0.8));
+        act(() => hook!.undo());
+        expect(hook!.value).toBe(0.5);
+    });
+
+    it("useMnemonicSelector types the selector's input", () => {
+        storage.store.set("ns.typed-settings", JSON.stringify({ version: 2, payload: { theme: "dark", fontSize: 9 } }));
+        let theme: string | undefined;
+        let fontSize: number | undefined;
+        function Probe() {
+            theme = useMnemonicSelector("typed-settings", (s) => s.theme, undefined, {
+                defaultValue: DEFAULT_SETTINGS,
+            });
+            fontSize = useMnemonicSelector("typed-settings", (s) => {
+                expectTypeOf(s).toEqualTypeOf<Settings | undefined>();
+                return s?.fontSize;
+            });
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+        expect(theme).toBe("dark");
+        expect(fontSize).toBe(9);
+    });
+
+    it("defineMnemonicKey infers the value type", () => {
+        const settingsKey = defineMnemonicKey({ key: "typed-settings", defaultValue: DEFAULT_SETTINGS });
+        expectTypeOf(settingsKey).toEqualTypeOf<MnemonicKeyDescriptor<Settings>>();
+        let value: Settings | undefined;
+        function Probe() {
+            value = useMnemonicKey(settingsKey).value;
+            return null;
+        }
+        renderWithRegistry(<Probe />);
+        expect(value).toEqual(DEFAULT_SETTINGS);
+    });
+});
@@ -452,4 +452,73 @@ describe("schema mode behavior", () => {
         expect(receivedError).toBeInstanceOf(SchemaError);
         expect(receivedError?.code).toBe("TYPE_MISMATCH");
     });
+
+    it("validation errors carry structured failures, key, and version", () => {
+        const storage = createMockStorage();
+        const registry = createRegistry([
+            {
+                key: "profile",
+                version: 2,
+                schema: {
+                    type: "object",
+                    properties: { name: { type: "string" }, age: { type: "number", minimum: 0 } },
+                    required: ["name", "age"],
+                },
+            },
+        ]);
+        storage.store.set("ns.profile", schemaEnv({ age: -1 }, 2));
+
+        let receivedError: SchemaError | undefined;
+        renderHook(
+            () =>
+                useMnemonicKey("profile", {
+                    defaultValue: (err) => {
+                        if (err instanceof SchemaError) receivedError = err;
+                        return { name: "", age: 0 };
+                    },
+                }),
+            {
+                namespace: "ns",
+                storage,
+                schemaMode: "strict",
+                schemaRegistry: registry,
+            },
+        );
+
+        expect(receivedError?.code).toBe("TYPE_MISMATCH");
+        expect(receivedError?.key).toBe("profile");
+        expect(receivedError?.version).toBe(2);
+        expect(receivedError?.validationErrors).toEqual([
+            { path: "", keyword: "required", message: 'Missing required property "name"' },
+            { path: "/age", keyword: "minimum", message: "Value -1 is less than minimum 0" },
+        ]);
+    });
+
+    it("migration output validation errors report the target version", () => {
+        const storage = createMockStorage();
+        const registry = createRegistry(
+            [
+                { key: "count", version: 1, schema: { type: "number" } },
+                { key: "count", version: 2, schema: { type: "number", maximum: 10 } },
+            ],
+            [{ key: "count", fromVersion: 1, toVersion: 2, migrate: (v) => (v as number) * 100 }],
+        );
+        storage.store.set("ns.count", schemaEnv(5, 1));
+
+        let receivedError: SchemaError | undefined;
+        renderHook(
+            () =>
+                useMnemonicKey("count", {
+                    defaultValue: (err) => {
+                        if (err instanceof SchemaError) receivedError = err;
+                        return 0;
+                    },
+                }),
+            { namespace: "ns", storage, schemaMode: "default", schemaRegistry: registry },
+        );
+
+        expect(receivedError?.code).toBe("TYPE_MISMATCH");
+        expect(receivedError?.version).toBe(2);
+        expect(receivedError?.validationErrors?.map((e) => e.keyword)).toEqual(["maximum"]);
+    });
 });
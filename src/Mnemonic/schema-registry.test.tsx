@@ -0,0 +1,560 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect } from "vitest";
+import { render, act } from "@testing-library/react";
+import { MnemonicProvider, useMnemonicTransaction } from "./provider";
+import { useMnemonicKey } from "./use";
+import { useMnemonicHistory } from "./history";
+import { SchemaError } from "./schema";
+import { createSchemaRegistry } from "./schema-registry";
+import type { MigrationRule, SchemaRegistry, StorageLike } from "./types";
+
+function rule(fromVersion: number, toVersion: number, key = "k"): MigrationRule {
+    return { key, fromVersion, toVersion, migrate: (v) => v };
+}
+
+// ---------------------------------------------------------------------------
+// Schema lookup
+// ---------------------------------------------------------------------------
+describe("createSchemaRegistry schema lookup", () => {
+    it("returns undefined for unknown keys", () => {
+        const registry = createSchemaRegistry();
+        expect(registry.getSchema("k", 1)).toBeUndefined();
+        expect(registry.getLatestSchema("k")).toBeUndefined();
+    });
+
+    it("indexes initial schemas by key and version", () => {
+        const v1 = { key: "k", version: 1, schema: { type: "string" as const } };
+        const v2 = { key: "k", version: 2, schema: { type: "number" as const } };
+        const registry = createSchemaRegistry({ schemas: [v2, v1] });
+        expect(registry.getSchema("k", 1)).toBe(v1);
+        expect(registry.getSchema("k", 2)).toBe(v2);
+        expect(registry.getSchema("other", 1)).toBeUndefined();
+    });
+
+    it("tracks the latest schema regardless of registration order", () => {
+        const registry = createSchemaRegistry();
+        registry.registerSchema({ key: "k", version: 3, schema: {} });
+        registry.registerSchema({ key: "k", version: 1, schema: {} });
+        expect(registry.getLatestSchema("k")?.version).toBe(3);
+        registry.registerSchema({ key: "k", version: 5, schema: {} });
+        expect(registry.getLatestSchema("k")?.version).toBe(5);
+    });
+
+    it("accepts duplicate registrations with an equal schema", () => {
+        const registry = createSchemaRegistry();
+        registry.registerSchema({ key: "k", version: 1, schema: { type: "object", required: ["a"] } });
+        expect(() =>
+            registry.registerSchema({ key: "k", version: 1, schema: { type: "object", required: ["a"] } }),
+        ).not.toThrow();
+    });
+
+    it("throws SCHEMA_REGISTRATION_CONFLICT for a conflicting schema", () => {
+        const registry = createSchemaRegistry({ schemas: [{ key: "k", version: 1, schema: { type: "string" } }] });
+        try {
+            registry.registerSchema({ key: "k", version: 1, schema: { type: "number" } });
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(SchemaError);
+            expect((err as SchemaError).code).toBe("SCHEMA_REGISTRATION_CONFLICT");
+        }
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Migration resolution
+// ---------------------------------------------------------------------------
+describe("createSchemaRegistry migration paths", () => {
+    it("resolves a contiguous chain", () => {
+        const r12 = rule(1, 2);
+        const r23 = rule(2, 3);
+        const registry = createSchemaRegistry({ migrations: [r23, r12] });
+        expect(registry.getMigrationPath("k", 1, 3)).toEqual([r12, r23]);
+    });
+
+    it("prefers the path with the fewest steps", () => {
+        const r12 = rule(1, 2);
+        const r23 = rule(2, 3);
+        const r34 = rule(3, 4);
+        const r14 = rule(1, 4);
+        const registry = createSchemaRegistry({ migrations: [r12, r23, r34, r14] });
+        expect(registry.getMigrationPath("k", 1, 4)).toEqual([r14]);
+    });
+
+    it("routes through skip-level rules", () => {
+        const r13 = rule(1, 3);
+        const r35 = rule(3, 5);
+        const registry = createSchemaRegistry({ migrations: [rule(1, 2), r13, r35] });
+        expect(registry.getMigrationPath("k", 1, 5)).toEqual([r13, r35]);
+    });
+
+    it("returns null when no path exists", () => {
+        const registry = createSchemaRegistry({ migrations: [rule(1, 2), rule(3, 4)] });
+        expect(registry.getMigrationPath("k", 1, 4)).toBeNull();
+        expect(registry.getMigrationPath("other", 1, 2)).toBeNull();
+    });
+
+    it("returns an empty path for identical versions", () => {
+        const registry = createSchemaRegistry();
+        expect(registry.getMigrationPath("k", 2, 2)).toEqual([]);
+    });
+
+    it("does not loop on cycles", () => {
+        const registry = createSchemaRegistry({ migrations: [rule(1, 2), rule(2, 1)] });
+        expect(registry.getMigrationPath("k", 1, 3)).toBeNull();
+    });
+
+    it("picks up migrations registered after a path was cached", () => {
+        const registry = createSchemaRegistry({ migrations: [rule(1, 2)] });
+        expect(registry.getMigrationPath("k", 1, 3)).toBeNull();
+        const r23 = rule(2, 3);
+        registry.registerMigration(r23);
+        expect(registry.getMigrationPath("k", 1, 3)).toHaveLength(2);
+    });
+
+    it("treats fromVersion === toVersion rules as write migrations", () => {
+        const normalizer = rule(2, 2);
+        const registry = createSchemaRegistry({ migrations: [rule(1, 2), normalizer] });
+        expect(registry.getWriteMigration("k", 2)).toBe(normalizer);
+        expect(registry.getWriteMigration("k", 1)).toBeUndefined();
+        expect(registry.getMigrationPath("k", 1, 2)).toHaveLength(1);
+    });
+
+    it("ignores re-registration of the same rule object", () => {
+        const r12 = rule(1, 2);
+        const registry = createSchemaRegistry({ migrations: [r12] });
+        expect(() => registry.registerMigration(r12)).not.toThrow();
+        expect(registry.getMigrationPath("k", 1, 2)).toEqual([r12]);
+    });
+
+    it("throws SCHEMA_REGISTRATION_CONFLICT for conflicting migrations", () => {
+        const registry = createSchemaRegistry({ migrations: [rule(1, 2), rule(3, 3)] });
+        expect(() => registry.registerMigration(rule(1, 2))).toThrow(SchemaError);
+        expect(() => registry.registerMigration(rule(3, 3))).toThrow(/Conflicting write migration/);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Provider integration
+// ---------------------------------------------------------------------------
+describe("createSchemaRegistry with MnemonicProvider", () => {
+    function createMockStorage(): StorageLike & { store: Map<string, string> } {
+        const store = new Map<string, string>();
+        return {
+            store,
+            getItem: (key) => store.get(key) ?? null,
+            setItem: (key, value) => {
+                store.set(key, value);
+            },
+            removeItem: (key) => {
+                store.delete(key);
+            },
+        };
+    }
+
+    it("migrates stored data in strict mode", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.user", JSON.stringify({ version: 1, payload: { name: "Ada" } }));
+        const registry = createSchemaRegistry({
+            schemas: [
+                { key: "user", version: 1, schema: { type: "object", required: ["name"] } },
+                { key: "user", version: 2, schema: { type: "object", required: ["firstName"] } },
+            ],
+            migrations: [
+                {
+                    key: "user",
+                    fromVersion: 1,
+                    toVersion: 2,
+                    migrate: (v) => ({ firstName: (v as { name: string }).name }),
+                },
+            ],
+        });
+        let seen: unknown;
+        function Probe() {
+            seen = useMnemonicKey("user", { defaultValue: { firstName: "" } }).value;
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaMode="strict" schemaRegistry={registry}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(seen).toEqual({ firstName: "Ada" });
+        expect(JSON.parse(storage.store.get("ns.user")!)).toEqual({ version: 2, payload: { firstName: "Ada" } });
+    });
+
+    it("supports autoschema registration", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.count", JSON.stringify({ version: 0, payload: "5" }));
+        const registry = createSchemaRegistry();
+        function Probe() {
+            useMnemonicKey("count", { defaultValue: 0 });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaMode="autoschema" schemaRegistry={registry}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(registry.getLatestSchema("count")).toEqual({ key: "count", version: 1, schema: { type: "number" } });
+    });
+
+    it("infers nested schemas with the provider's autoschema options", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.profile", JSON.stringify({ version: 0, payload: '{"name":"Ada","tags":["a"]}' }));
+        const registry = createSchemaRegistry();
+        function Probe() {
+            useMnemonicKey("profile", { defaultValue: { name: "", tags: [] as string[] } });
+            return null;
+        }
+        render(
+            <MnemonicProvider
+                namespace="ns"
+                storage={storage}
+                schemaMode="autoschema"
+                schemaRegistry={registry}
+                autoschemaOptions={{ inference: { required: true, additionalProperties: false } }}
+            >
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(registry.getLatestSchema("profile")?.schema).toEqual({
+            type: "object",
+            properties: { name: { type: "string" }, tags: { type: "array", items: { type: "string" } } },
+            required: ["name", "tags"],
+            additionalProperties: false,
+        });
+    });
+
+    it("accepts fractional numbers and missing properties under an inferred schema by default", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.point", JSON.stringify({ version: 0, payload: '{"x":1,"label":"a"}' }));
+        const registry = createSchemaRegistry();
+        let hook: { set: (next: { x: number; label?: string }) => void; error: unknown } | undefined;
+        function Probe() {
+            hook = useMnemonicKey<{ x: number; label?: string }>("point", { defaultValue: { x: 0 } });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaMode="autoschema" schemaRegistry={registry}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        act(() => hook!.set({ x: 1.5 }));
+        expect(hook!.error).toBeUndefined();
+        expect(JSON.parse(storage.store.get("ns.point")!)).toEqual({ version: 1, payload: { x: 1.5 } });
+    });
+
+    describe("autoschema evolution", () => {
+        function renderCount(evolution: "widen" | "replace", registry: SchemaRegistry, version?: number) {
+            const storage = createMockStorage();
+            const hook = {} as {
+                value: unknown;
+                set: (next: unknown) => void;
+                undo: () => void;
+                error: unknown;
+                transaction: <R>(fn: () => R) => R;
+            };
+            function Probe() {
+                const result = useMnemonicHistory<unknown>("count", {
+                    defaultValue: 0,
+                    ...(version !== undefined ? { schema: { version } } : {}),
+                });
+                hook.value = result.value;
+                hook.set = result.set;
+                hook.undo = result.undo;
+                hook.error = result.error;
+                hook.transaction = useMnemonicTransaction();
+                return null;
+            }
+            render(
+                <MnemonicProvider
+                    namespace="ns"
+                    storage={storage}
+                    schemaMode="autoschema"
+                    schemaRegistry={registry}
+                    autoschemaOptions={{ evolution }}
+                >
+                    <Probe />
+                </MnemonicProvider>,
+            );
+            return { storage, hook };
+        }
+
+        it("registers a widened version with an identity migration", () => {
+            const registry = createSchemaRegistry({
+                schemas: [{ key: "count", version: 1, schema: { type: "integer" } }],
+            });
+            const { storage, hook } = renderCount("widen", registry);
+            act(() => hook.set("five"));
+            expect(registry.getLatestSchema("count")).toEqual({
+                key: "count",
+                version: 2,
+                schema: { type: ["integer", "string"] },
+            });
+            expect(registry.getMigrationPath("count", 1, 2)).toHaveLength(1);
+            expect(JSON.parse(storage.store.get("ns.count")!)).toEqual({ version: 2, payload: "five" });
+            expect(hook.value).toBe("five");
+            expect(hook.error).toBeUndefined();
+        });
+
+        it("registers the value's own shape with replace", () => {
+            const registry = createSchemaRegistry({
+                schemas: [{ key: "count", version: 1, schema: { type: "integer" } }],
+            });
+            const { hook } = renderCount("replace", registry);
+            act(() => hook.set({ total: 5 }));
+            expect(registry.getLatestSchema("count")?.schema).toEqual({
+                type: "object",
+                properties: { total: { type: "number" } },
+            });
+        });
+
+        it("loses values stored under older versions with replace", () => {
+            const registry = createSchemaRegistry({
+                schemas: [{ key: "count", version: 1, schema: { type: "integer" } }],
+            });
+            const { hook } = renderCount("replace", registry);
+            act(() => hook.set(5));
+            act(() => hook.set({ total: 5 }));
+            expect(registry.getLatestSchema("count")?.version).toBe(2);
+
+            // The undo entry is stored under v1 and fails v2 after the identity migration.
+            act(() => hook.undo());
+            expect(hook.error).toBeInstanceOf(SchemaError);
+            expect(hook.value).toEqual({ total: 5 });
+        });
+
+        it("registers the evolved version when a transaction commits", () => {
+            const registry = createSchemaRegistry({
+                schemas: [{ key: "count", version: 1, schema: { type: "integer" } }],
+            });
+            const { storage, hook } = renderCount("widen", registry);
+            act(() => {
+                hook.transaction(() => {
+                    hook.set("five");
+                    expect(registry.getLatestSchema("count")?.version).toBe(1);
+                });
+            });
+            expect(registry.getLatestSchema("count")?.version).toBe(2);
+            expect(JSON.parse(storage.store.get("ns.count")!)).toEqual({ version: 2, payload: "five" });
+            expect(hook.value).toBe("five");
+        });
+
+        it("registers nothing when a transaction rolls back", () => {
+            const registry = createSchemaRegistry({
+                schemas: [{ key: "count", version: 1, schema: { type: "integer" } }],
+            });
+            const { storage, hook } = renderCount("widen", registry);
+            act(() => {
+                expect(() =>
+                    hook.transaction(() => {
+                        hook.set("five");
+                        throw new Error("abort");
+                    }),
+                ).toThrow("abort");
+            });
+            expect(registry.getLatestSchema("count")?.version).toBe(1);
+            expect(registry.getMigrationPath("count", 1, 2)).toBeNull();
+            expect(storage.store.has("ns.count")).toBe(false);
+        });
+
+        it("registers nothing when storage rejects the write", () => {
+            const registry = createSchemaRegistry({
+                schemas: [{ key: "count", version: 1, schema: { type: "integer" } }],
+            });
+            const { storage, hook } = renderCount("widen", registry);
+            act(() => hook.set(5));
+            storage.setItem = () => {
+                throw new Error("quota exceeded");
+            };
+            act(() => hook.set("five"));
+            expect(registry.getLatestSchema("count")?.version).toBe(1);
+            expect(registry.getMigrationPath("count", 1, 2)).toBeNull();
+            expect(JSON.parse(storage.store.get("ns.count")!)).toEqual({ version: 1, payload: 5 });
+            expect(hook.value).toBe(5);
+            expect(hook.error).toMatchObject({ message: "quota exceeded" });
+        });
+
+        it("leaves valid writes and pinned versions alone", () => {
+            const registry = createSchemaRegistry({
+                schemas: [{ key: "count", version: 1, schema: { type: "integer" } }],
+            });
+            const { hook } = renderCount("widen", registry, 1);
+            act(() => hook.set(3));
+            act(() => hook.set("five"));
+            expect(hook.error).toBeInstanceOf(SchemaError);
+            expect(registry.getLatestSchema("count")?.version).toBe(1);
+        });
+
+        it("requires a registry that can register migrations", () => {
+            const registry = createSchemaRegistry();
+            const withoutMigrations: SchemaRegistry = {
+                getSchema: registry.getSchema,
+                getLatestSchema: registry.getLatestSchema,
+                getMigrationPath: registry.getMigrationPath,
+                registerSchema: registry.registerSchema,
+            };
+            expect(() => renderCount("widen", withoutMigrations)).toThrow(/registerMigration/);
+        });
+    });
+
+    it("resolves $ref to other keys' schemas", () => {
+        const storage = createMockStorage();
+        storage.store.set("ns.profile", JSON.stringify({ version: 1, payload: { home: { zip: 12345 } } }));
+        storage.store.set("ns.postcode", JSON.stringify({ version: 1, payload: "123" }));
+        const registry = createSchemaRegistry({
+            schemas: [
+                { key: "zip", version: 1, schema: { type: "number" } },
+                { key: "zip", version: 2, schema: { type: "string", minLength: 5 } },
+                {
+                    key: "address",
+                    version: 1,
+                    schema: { type: "object", properties: { zip: { $ref: "zip@1" } }, required: ["zip"] },
+                },
+                {
+                    key: "profile",
+                    version: 1,
+                    schema: { type: "object", properties: { home: { $ref: "address" }, work: { $ref: "address" } } },
+                },
+                { key: "postcode", version: 1, schema: { $ref: "zip" } },
+            ],
+        });
+        let profile: { value: unknown; set: (next: unknown) => void; error: unknown } | undefined;
+        let postcode: unknown;
+        function Probe() {
+            profile = useMnemonicKey<unknown>("profile", { defaultValue: null });
+            postcode = useMnemonicKey<unknown>("postcode", { defaultValue: (error?: unknown) => error }).value;
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(profile!.value).toEqual({ home: { zip: 12345 } });
+        expect((postcode as SchemaError).validationErrors).toEqual([
+            { path: "", message: "String length 3 is less than minLength 5", keyword: "minLength" },
+        ]);
+
+        act(() => profile!.set({ home: { zip: 1 }, work: {} }));
+        expect(profile!.error).toBeInstanceOf(SchemaError);
+        expect((profile!.error as SchemaError).validationErrors).toEqual([
+            { path: "/work", message: 'Missing required property "zip"', keyword: "required" },
+        ]);
+        expect(JSON.parse(storage.store.get("ns.profile")!).payload).toEqual({ home: { zip: 12345 } });
+    });
+
+    describe("schema defaults", () => {
+        const registry = createSchemaRegistry({
+            schemas: [
+                {
+                    key: "prefs",
+                    version: 1,
+                    schema: {
+                        type: "object",
+                        properties: {
+                            theme: { type: "string" },
+                            fontSize: { type: "number", default: 14 },
+                            layout: { type: "object", default: {}, properties: { sidebar: { default: true } } },
+                        },
+                        required: ["theme", "fontSize"],
+                    },
+                },
+            ],
+        });
+
+        function renderPrefs(storage: ReturnType<typeof createMockStorage>, persistSchemaDefaults?: boolean) {
+            let seen: unknown;
+            function Probe() {
+                seen = useMnemonicKey<unknown>("prefs", { defaultValue: null }).value;
+                return null;
+            }
+            render(
+                <MnemonicProvider
+                    namespace="ns"
+                    storage={storage}
+                    schemaRegistry={registry}
+                    {...(persistSchemaDefaults !== undefined ? { persistSchemaDefaults } : {})}
+                >
+                    <Probe />
+                </MnemonicProvider>,
+            );
+            return () => seen;
+        }
+
+        it("fills missing properties on read without rewriting storage", () => {
+            const storage = createMockStorage();
+            const stored = JSON.stringify({ version: 1, payload: { theme: "dark" } });
+            storage.store.set("ns.prefs", stored);
+            const seen = renderPrefs(storage);
+            expect(seen()).toEqual({ theme: "dark", fontSize: 14, layout: { sidebar: true } });
+            expect(storage.store.get("ns.prefs")).toBe(stored);
+        });
+
+        it("rewrites the filled value with persistSchemaDefaults", () => {
+            const storage = createMockStorage();
+            storage.store.set("ns.prefs", JSON.stringify({ version: 1, payload: { theme: "dark" }, expiresAt: 9e15 }));
+            renderPrefs(storage, true);
+            expect(JSON.parse(storage.store.get("ns.prefs")!)).toEqual({
+                version: 1,
+                payload: { theme: "dark", fontSize: 14, layout: { sidebar: true } },
+                expiresAt: 9e15,
+            });
+        });
+
+        it("does not rewrite complete values", () => {
+            const storage = createMockStorage();
+            const stored = JSON.stringify({
+                version: 1,
+                payload: { theme: "dark", fontSize: 9, layout: { sidebar: false } },
+            });
+            storage.store.set("ns.prefs", stored);
+            renderPrefs(storage, true);
+            expect(storage.store.get("ns.prefs")).toBe(stored);
+        });
+
+        it("fills the latest schema's defaults after migrating", () => {
+            const storage = createMockStorage();
+            storage.store.set("ns.mode", JSON.stringify({ version: 1, payload: { dark: true } }));
+            const migrating = createSchemaRegistry({
+                schemas: [
+                    { key: "mode", version: 1, schema: { type: "object", required: ["dark"] } },
+                    {
+                        key: "mode",
+                        version: 2,
+                        schema: {
+                            type: "object",
+                            properties: { theme: { enum: ["light", "dark"] }, contrast: { default: "normal" } },
+                            required: ["theme", "contrast"],
+                        },
+                    },
+                ],
+                migrations: [
+                    {
+                        key: "mode",
+                        fromVersion: 1,
+                        toVersion: 2,
+                        migrate: (v) => ({ theme: (v as { dark: boolean }).dark ? "dark" : "light" }),
+                    },
+                ],
+            });
+            let seen: unknown;
+            function Probe() {
+                seen = useMnemonicKey<unknown>("mode", { defaultValue: null }).value;
+                return null;
+            }
+            render(
+                <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={migrating}>
+                    <Probe />
+                </MnemonicProvider>,
+            );
+            expect(seen).toEqual({ theme: "dark", contrast: "normal" });
+            expect(JSON.parse(storage.store.get("ns.mode")!)).toEqual({
+                version: 2,
+                payload: { theme: "dark", contrast: "normal" },
+            });
+        });
+    });
+});
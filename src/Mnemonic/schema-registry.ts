@@ -0,0 +1,325 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+/**
+ * @fileoverview Built-in in-memory {@link SchemaRegistry} implementation.
+ *
+ * This module provides `createSchemaRegistry`, which indexes {@link KeySchema}
+ * and {@link MigrationRule} entries by key and version, resolves migration
+ * paths via a shortest-path search over each key's version graph, and detects
+ * duplicate or conflicting registrations.
+ */
+
+import { SchemaError } from "./schema";
+import { jsonDeepEqual, type FromJsonSchema } from "./json-schema";
+import { isStandardSchema, type InferStandardSchemaOutput, type StandardSchemaV1 } from "./standard-schema";
+import type { KeySchema, MigrationRule, MigrationPath, SchemaRegistry } from "./types";
+
+/**
+ * Initial contents for {@link createSchemaRegistry}.
+ *
+ * @template S - The literal type of `schemas`
+ *
+ * @see {@link createSchemaRegistry}
+ */
+export type CreateSchemaRegistryOptions<S extends readonly KeySchema[] = readonly KeySchema[]> = {
+    /**
+     * Schemas to register up front.
+     *
+     * Registering the same key + version twice with a deeply equal JSON
+     * Schema, or the same Standard Schema validator, is allowed; a
+     * different definition throws a `SchemaError` with code
+     * `SCHEMA_REGISTRATION_CONFLICT`.
+     */
+    schemas?: S;
+
+    /**
+     * Migration rules to register up front.
+     *
+     * Rules where `fromVersion === toVersion` are registered as write-time
+     * normalizers and returned by `getWriteMigration`. All other rules
+     * become edges in the key's version graph used by `getMigrationPath`.
+     */
+    migrations?: readonly MigrationRule[];
+};
+
+/**
+ * A {@link SchemaRegistry} returned by {@link createSchemaRegistry}.
+ *
+ * Implements every optional registry method and adds `registerMigration`
+ * so migration rules can be added after creation.
+ *
+ * @template S - The literal type of the schemas the registry was created
+ *   with, used to infer value types; see {@link SchemaRegistryValue}
+ */
+export interface MnemonicSchemaRegistry<S extends readonly KeySchema[] = readonly KeySchema[]> extends SchemaRegistry {
+    /**
+     * Type-only record of the schemas passed to `createSchemaRegistry`.
+     * Never set at runtime.
+     */
+    readonly "~schemas"?: S;
+
+    getWriteMigration(key: string, version: number): MigrationRule | undefined;
+    registerSchema(schema: KeySchema): void;
+
+    /**
+     * Register a migration rule.
+     *
+     * Rules where `fromVersion === toVersion` are treated as write-time
+     * normalizers. Registering the same rule object twice is a no-op; a
+     * different rule for the same key and version pair throws a
+     * `SchemaError` with code `SCHEMA_REGISTRATION_CONFLICT`.
+     *
+     * @param rule - The migration rule to register
+     */
+    registerMigration(rule: MigrationRule): void;
+}
+
+/**
+ * Storage keys with a literal name in a registry created by
+ * {@link createSchemaRegistry}.
+ *
+ * @template R - The registry type (`typeof registry`)
+ */
+export type SchemaRegistryKey<R> =
+    R extends MnemonicSchemaRegistry<infer S>
+        ? S[number]["key"] extends infer K extends string
+            ? string extends K
+                ? never
+                : K
+            : never
+        : never;
+
+/**
+ * The last schema listed for a key in a tuple of schemas.
+ */
+type LatestSchema<S, K> = S extends readonly [...infer Rest, infer Last]
+    ? Last extends { key: K; schema: infer J }
+        ? J
+        : LatestSchema<Rest, K>
+    : never;
+
+/**
+ * The value type described by a key schema's `schema`.
+ */
+type SchemaValue<J> = J extends StandardSchemaV1 ? InferStandardSchemaOutput<J> : FromJsonSchema<J>;
+
+/**
+ * The value type of a key in a registry created by {@link createSchemaRegistry},
+ * inferred from its latest schema with {@link FromJsonSchema}, or from a
+ * Standard Schema validator's output type.
+ *
+ * Hooks always return values migrated to the latest version, so the schema
+ * listed last for the key is used. List each key's schemas in ascending
+ * version order.
+ *
+ * @template R - The registry type (`typeof registry`)
+ * @template K - The storage key
+ *
+ * @example
+ * ```typescript
+ * const registry = createSchemaRegistry({
+ *   schemas: [{ key: "volume", version: 1, schema: { type: "number" } }],
+ * });
+ *
+ * type Volume = SchemaRegistryValue<typeof registry, "volume">; // number
+ * ```
+ */
+export type SchemaRegistryValue<R, K extends SchemaRegistryKey<R>> =
+    R extends MnemonicSchemaRegistry<infer S> ? SchemaValue<LatestSchema<S, K>> : never;
+
+/**
+ * Creates an in-memory {@link SchemaRegistry}.
+ *
+ * Schemas are indexed by key and version. Migration paths are resolved with
+ * a breadth-first search over the key's version graph, so the returned path
+ * always uses the fewest migration steps (e.g. a direct v1 -> v3 rule wins
+ * over v1 -> v2 -> v3). Ties are broken by registration order. Resolved
+ * paths are cached until the next migration is registered.
+ *
+ * The registry is safe to use in every schema mode, including
+ * `"autoschema"`, where the provider registers inferred schemas at runtime.
+ *
+ * Schemas written inline are captured with their literal types, so the
+ * registry can also drive type inference: register it on
+ * {@link MnemonicRegister} and hooks infer each key's value type from its
+ * latest schema.
+ *
+ * @template S - The literal type of `schemas`, inferred
+ *
+ * @param options - Initial schemas and migration rules
+ * @returns A registry ready to pass to `MnemonicProvider`
+ *
+ * @throws {SchemaError} With code `SCHEMA_REGISTRATION_CONFLICT` when two
+ *   different definitions are registered for the same key and version
+ *
+ * @example
+ * ```typescript
+ * const registry = createSchemaRegistry({
+ *   schemas: [
+ *     { key: "user", version: 1, schema: { type: "object", required: ["name"] } },
+ *     { key: "user", version: 2, schema: { type: "object", required: ["firstName"] } },
+ *   ],
+ *   migrations: [
+ *     {
+ *       key: "user",
+ *       fromVersion: 1,
+ *       toVersion: 2,
+ *       migrate: (v) => ({ firstName: (v as { name: string }).name }),
+ *     },
+ *   ],
+ * });
+ *
+ * <MnemonicProvider namespace="app" schemaMode="strict" schemaRegistry={registry}>
+ *   <App />
+ * </MnemonicProvider>
+ * ```
+ *
+ * @see {@link SchemaRegistry} - The interface this implements
+ * @see {@link KeySchema} - Schema definition
+ * @see {@link MigrationRule} - Migration step definition
+ */
+export function createSchemaRegistry<const S extends readonly KeySchema[] = []>(
+    options: CreateSchemaRegistryOptions<S> = {},
+): MnemonicSchemaRegistry<S> {
+    /** key -> version -> schema */
+    const schemasByKey = new Map<string, Map<number, KeySchema>>();
+
+    /** key -> highest registered schema */
+    const latestByKey = new Map<string, KeySchema>();
+
+    /** key -> fromVersion -> outgoing upgrade/downgrade rules (registration order) */
+    const edgesByKey = new Map<string, Map<number, MigrationRule[]>>();
+
+    /** key -> version -> write-time normalizer */
+    const writeMigrationsByKey = new Map<string, Map<number, MigrationRule>>();
+
+    /** `${key}:${from}->${to}` -> resolved path */
+    const pathCache = new Map<string, MigrationPath | null>();
+
+    const registerSchema = (schema: KeySchema): void => {
+        let byVersion = schemasByKey.get(schema.key);
+        if (!byVersion) {
+            byVersion = new Map();
+            schemasByKey.set(schema.key, byVersion);
+        }
+        const existing = byVersion.get(schema.version);
+        if (existing) {
+            if (existing === schema || existing.schema === schema.schema) return;
+            // Validators are only equal to themselves; JSON Schemas compare by value.
+            if (!isStandardSchema(existing.schema) && !isStandardSchema(schema.schema)) {
+                if (jsonDeepEqual(existing.schema, schema.schema)) return;
+            }
+            throw new SchemaError(
+                "SCHEMA_REGISTRATION_CONFLICT",
+                `Conflicting schema registration for key "${schema.key}" v${schema.version}`,
+            );
+        }
+        byVersion.set(schema.version, schema);
+        const latest = latestByKey.get(schema.key);
+        if (!latest || schema.version > latest.version) {
+            latestByKey.set(schema.key, schema);
+        }
+    };
+
+    const registerMigration = (rule: MigrationRule): void => {
+        if (rule.fromVersion === rule.toVersion) {
+            let byVersion = writeMigrationsByKey.get(rule.key);
+            if (!byVersion) {
+                byVersion = new Map();
+                writeMigrationsByKey.set(rule.key, byVersion);
+            }
+            const existing = byVersion.get(rule.fromVersion);
+            if (existing) {
+                if (existing === rule) return;
+                throw new SchemaError(
+                    "SCHEMA_REGISTRATION_CONFLICT",
+                    `Conflicting write migration for key "${rule.key}" v${rule.fromVersion}`,
+                );
+            }
+            byVersion.set(rule.fromVersion, rule);
+            return;
+        }
+
+        let edges = edgesByKey.get(rule.key);
+        if (!edges) {
+            edges = new Map();
+            edgesByKey.set(rule.key, edges);
+        }
+        const outgoing = edges.get(rule.fromVersion) ?? [];
+        const existing = outgoing.find((r) => r.toVersion === rule.toVersion);
+        if (existing) {
+            if (existing === rule) return;
+            throw new SchemaError(
+                "SCHEMA_REGISTRATION_CONFLICT",
+                `Conflicting migration for key "${rule.key}" from v${rule.fromVersion} to v${rule.toVersion}`,
+            );
+        }
+        outgoing.push(rule);
+        edges.set(rule.fromVersion, outgoing);
+        pathCache.clear();
+    };
+
+    /**
+     * Breadth-first search from `fromVersion` to `toVersion`. Each visited
+     * version remembers the rule used to reach it so the path can be
+     * reconstructed once the target is found.
+     */
+    const findShortestPath = (key: string, fromVersion: number, toVersion: number): MigrationPath | null => {
+        if (fromVersion === toVersion) return [];
+        const edges = edgesByKey.get(key);
+        if (!edges) return null;
+
+        const via = new Map<number, MigrationRule>();
+        const visited = new Set<number>([fromVersion]);
+        let frontier = [fromVersion];
+
+        while (frontier.length > 0) {
+            const next: number[] = [];
+            for (const version of frontier) {
+                for (const rule of edges.get(version) ?? []) {
+                    if (visited.has(rule.toVersion)) continue;
+                    visited.add(rule.toVersion);
+                    via.set(rule.toVersion, rule);
+                    if (rule.toVersion === toVersion) {
+                        const path: MigrationRule[] = [];
+                        let cur = toVersion;
+                        while (cur !== fromVersion) {
+                            const step = via.get(cur)!;
+                            path.unshift(step);
+                            cur = step.fromVersion;
+                        }
+                        return path;
+                    }
+                    next.push(rule.toVersion);
+                }
+            }
+            frontier = next;
+        }
+        return null;
+    };
+
+    for (const schema of options.schemas ?? []) registerSchema(schema);
+    for (const rule of options.migrations ?? []) registerMigration(rule);
+
+    return {
+        getSchema(key, version) {
+            return schemasByKey.get(key)?.get(version);
+        },
+        getLatestSchema(key) {
+            return latestByKey.get(key);
+        },
+        getMigrationPath(key, fromVersion, toVersion) {
+            const cacheKey = `${key}:${fromVersion}->${toVersion}`;
+            if (pathCache.has(cacheKey)) return pathCache.get(cacheKey) ?? null;
+            const path = findShortestPath(key, fromVersion, toVersion);
+            pathCache.set(cacheKey, path);
+            return path;
+        },
+        getWriteMigration(key, version) {
+            return writeMigrationsByKey.get(key)?.get(version);
+        },
+        registerSchema,
+        registerMigration,
+    };
+}
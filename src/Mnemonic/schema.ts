@@ -8,6 +8,34 @@
  * and the error class thrown when schema-related operations fail.
  */
 
+import type { JsonSchemaValidationError } from "./json-schema";
+
+/**
+ * Optional context attached to a {@link SchemaError}.
+ *
+ * @see {@link SchemaError}
+ */
+export type SchemaErrorDetails = {
+    /**
+     * The unprefixed storage key involved in the failure.
+     */
+    key?: string;
+
+    /**
+     * The schema version involved in the failure.
+     */
+    version?: number;
+
+    /**
+     * Individual JSON Schema validation failures.
+     *
+     * Present when `code` is `TYPE_MISMATCH` because a value failed
+     * validation against a registered JSON Schema or Standard Schema
+     * validator.
+     */
+    validationErrors?: readonly JsonSchemaValidationError[];
+};
+
 /**
  * Error thrown for schema registry, versioning, and migration failures.
  *
@@ -26,14 +54,22 @@
  * | `MIGRATION_PATH_NOT_FOUND`      | No contiguous migration path between the stored and latest version. |
  * | `MIGRATION_FAILED`              | A migration step threw during execution.                        |
  * | `SCHEMA_REGISTRATION_CONFLICT`  | `registerSchema` was called with a conflicting definition.      |
- * | `TYPE_MISMATCH`                 | The decoded value failed JSON Schema validation.                |
+ * | `TYPE_MISMATCH`                 | The decoded value failed schema validation.                     |
  * | `MODE_CONFIGURATION_INVALID`    | The schema mode requires a capability the registry doesn't provide. |
  *
+ * Validation failures (`TYPE_MISMATCH` raised by JSON Schema validation)
+ * also carry the individual {@link validationErrors} plus the {@link key}
+ * and {@link version} being validated, so callers can highlight the exact
+ * fields that failed.
+ *
  * @example
  * ```typescript
  * defaultValue: (error) => {
  *   if (error instanceof SchemaError) {
  *     console.warn(`Schema issue [${error.code}]:`, error.message);
+ *     for (const issue of error.validationErrors ?? []) {
+ *       console.warn(`  ${issue.path || "/"} (${issue.keyword}): ${issue.message}`);
+ *     }
  *   }
  *   return { name: "Guest" };
  * }
@@ -61,18 +97,41 @@ export class SchemaError extends Error {
      */
     readonly cause?: unknown;
 
+    /**
+     * The unprefixed storage key involved in the failure, if known.
+     */
+    readonly key?: string;
+
+    /**
+     * The schema version involved in the failure, if known.
+     */
+    readonly version?: number;
+
+    /**
+     * Individual JSON Schema validation failures, if the error was raised
+     * by validation. Each entry carries the JSON Pointer `path`, the failing
+     * `keyword`, and a human-readable `message`. Issues reported by a
+     * Standard Schema validator use its vendor name (e.g. `"zod"`) as the
+     * `keyword`.
+     */
+    readonly validationErrors?: readonly JsonSchemaValidationError[];
+
     /**
      * Creates a new SchemaError.
      *
      * @param code - Machine-readable failure category
      * @param message - Human-readable error description
      * @param cause - Optional underlying error
+     * @param details - Optional key, version, and validation failures
      */
-    constructor(code: SchemaError["code"], message: string, cause?: unknown) {
+    constructor(code: SchemaError["code"], message: string, cause?: unknown, details?: SchemaErrorDetails) {
         super(message);
         this.name = "SchemaError";
         this.code = code;
         this.cause = cause;
+        if (details?.key !== undefined) this.key = details.key;
+        if (details?.version !== undefined) this.version = details.version;
+        if (details?.validationErrors !== undefined) this.validationErrors = details.validationErrors;
         Object.setPrototypeOf(this, new.target.prototype);
     }
 }
@@ -88,6 +147,8 @@ export class SchemaError extends Error {
  *   `payload` is a codec-encoded string.
  * - When a schema is active, `version` corresponds to the schema version
  *   and `payload` is the JSON value directly (not string-encoded).
+ * - When the key was written with a `ttl` or `expiresAt` option,
+ *   `expiresAt` records when the value stops being valid.
  *
  * @internal
  */
@@ -108,4 +169,12 @@ export type MnemonicEnvelope = {
      * is a string produced by `Codec.encode`.
      */
     payload: unknown;
+
+    /**
+     * Expiry time in milliseconds since the Unix epoch.
+     *
+     * Absent for values that never expire. Once `Date.now()` reaches this
+     * time the value is treated as missing.
+     */
+    expiresAt?: number;
 };
@@ -0,0 +1,269 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { MnemonicProvider } from "./provider";
+import { useMnemonicKey } from "./use";
+import { useMnemonicSelector } from "./selector";
+import { createCodec } from "./codecs";
+import { SchemaError } from "./schema";
+import { createSchemaRegistry } from "./schema-registry";
+import type { StorageLike } from "./types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createMockStorage(): StorageLike & { store: Map<string, string> } {
+    const store = new Map<string, string>();
+    return {
+        store,
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            store.set(key, value);
+        },
+        removeItem: (key: string) => {
+            store.delete(key);
+        },
+    };
+}
+
+type Profile = { name: string; visits: number; tags: string[] };
+
+const DEFAULT_PROFILE: Profile = { name: "", visits: 0, tags: [] };
+
+function env(payload: unknown, version = 0): string {
+    return JSON.stringify({ version, payload: version === 0 ? JSON.stringify(payload) : payload });
+}
+
+/** Renders a writer hook and a selector hook side by side, counting selector renders. */
+function renderSelector<S>(
+    storage: StorageLike,
+    selector: (profile: Profile) => S,
+    equalityFn?: (a: S, b: S) => boolean,
+) {
+    const state = {
+        selected: [] as S[],
+        set: undefined as unknown as (next: Profile | ((cur: Profile) => Profile)) => void,
+    };
+    function Writer() {
+        state.set = useMnemonicKey<Profile>("profile", { defaultValue: DEFAULT_PROFILE }).set;
+        return null;
+    }
+    function Reader() {
+        state.selected.push(useMnemonicSelector("profile", selector, equalityFn, { defaultValue: DEFAULT_PROFILE }));
+        return null;
+    }
+    render(
+        <MnemonicProvider namespace="ns" storage={storage}>
+            <Writer />
+            <Reader />
+        </MnemonicProvider>,
+    );
+    return state;
+}
+
+// ---------------------------------------------------------------------------
+// Selection and re-rendering
+// ---------------------------------------------------------------------------
+
+describe("useMnemonicSelector", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    it("selects a slice of the stored value", () => {
+        storage.store.set("ns.profile", env({ name: "Ada", visits: 3, tags: [] }));
+        const state = renderSelector(storage, (p) => p.name);
+        expect(state.selected).toEqual(["Ada"]);
+    });
+
+    it("does not re-render when an unrelated field changes", () => {
+        const state = renderSelector(storage, (p) => p.name);
+        act(() => state.set((p) => ({ ...p, visits: p.visits + 1 })));
+        act(() => state.set((p) => ({ ...p, visits: p.visits + 1 })));
+        expect(state.selected).toEqual([""]);
+
+        act(() => state.set((p) => ({ ...p, name: "Grace" })));
+        expect(state.selected).toEqual(["", "Grace"]);
+    });
+
+    it("uses equalityFn to compare selections", () => {
+        const shallowEqual = (a: string[], b: string[]) => a.length === b.length && a.every((t, i) => t === b[i]);
+        const state = renderSelector(storage, (p) => p.tags, shallowEqual);
+        act(() => state.set((p) => ({ ...p, tags: ["a"] })));
+        // A new but equal array keeps the previous selection.
+        act(() => state.set((p) => ({ ...p, visits: 1, tags: [...p.tags] })));
+        expect(state.selected).toEqual([[], ["a"]]);
+    });
+
+    it("selects from the default value when the key is absent or removed", () => {
+        storage.store.set("ns.profile", env({ name: "Ada", visits: 0, tags: [] }));
+        let remove: (() => void) | undefined;
+        const selected: string[] = [];
+        function Probe() {
+            remove = useMnemonicKey<Profile>("profile", { defaultValue: DEFAULT_PROFILE }).remove;
+            selected.push(
+                useMnemonicSelector("profile", (p: Profile) => p.name || "anonymous", Object.is, {
+                    defaultValue: DEFAULT_PROFILE,
+                }),
+            );
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        act(() => remove!());
+        expect(selected[selected.length - 1]).toBe("anonymous");
+    });
+
+    it("selects from undefined when no default is given", () => {
+        let selected: string | undefined;
+        function Probe() {
+            selected = useMnemonicSelector("profile", (p: Profile | undefined) => p?.name ?? "none");
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(selected).toBe("none");
+    });
+
+    it("passes decode errors to a defaultValue factory", () => {
+        storage.store.set("ns.profile", "not an envelope");
+        const factory = vi.fn(() => DEFAULT_PROFILE);
+        function Probe() {
+            useMnemonicSelector("profile", (p: Profile) => p.visits, Object.is, { defaultValue: factory });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(factory).toHaveBeenCalledWith(expect.any(SchemaError));
+    });
+
+    it("validates and migrates through the schema registry", () => {
+        const registry = createSchemaRegistry({
+            schemas: [
+                { key: "profile", version: 1, schema: { type: "object", required: ["name"] } },
+                { key: "profile", version: 2, schema: { type: "object", required: ["name", "visits"] } },
+            ],
+            migrations: [
+                {
+                    key: "profile",
+                    fromVersion: 1,
+                    toVersion: 2,
+                    migrate: (v) => ({ ...(v as object), visits: 42 }),
+                },
+            ],
+        });
+        storage.store.set("ns.profile", env({ name: "Ada" }, 1));
+        let visits: number | undefined;
+        function Probe() {
+            visits = useMnemonicSelector("profile", (p: Profile) => p.visits, Object.is, {
+                defaultValue: DEFAULT_PROFILE,
+            });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(visits).toBe(42);
+    });
+
+    it("decodes each change once for all subscribers sharing a codec", () => {
+        const decode = vi.fn((s: string) => Number(s));
+        const shared = createCodec<number>(String, decode);
+        storage.store.set("ns.count", JSON.stringify({ version: 0, payload: "1" }));
+        let set: ((n: number) => void) | undefined;
+        function Writer() {
+            set = useMnemonicKey("count", { defaultValue: 0, codec: createCodec<number>(String, Number) }).set;
+            return null;
+        }
+        function Reader({ offset }: { offset: number }) {
+            useMnemonicSelector("count", (n: number) => n + offset, Object.is, { defaultValue: 0, codec: shared });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Writer />
+                <Reader offset={1} />
+                <Reader offset={2} />
+                <Reader offset={3} />
+            </MnemonicProvider>,
+        );
+        expect(decode).toHaveBeenCalledTimes(1);
+
+        act(() => set!(5));
+        expect(decode).toHaveBeenCalledTimes(2);
+        expect(decode).toHaveBeenLastCalledWith("5");
+    });
+
+    it("accepts inline selectors without re-rendering on every store change", () => {
+        const state = { renders: 0, set: undefined as unknown as (p: Profile) => void };
+        function Writer() {
+            state.set = useMnemonicKey<Profile>("profile", { defaultValue: DEFAULT_PROFILE }).set;
+            return null;
+        }
+        function Reader() {
+            state.renders++;
+            useMnemonicSelector("profile", (p: Profile) => p.tags.length, Object.is, { defaultValue: DEFAULT_PROFILE });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Writer />
+                <Reader />
+            </MnemonicProvider>,
+        );
+        act(() => state.set({ name: "a", visits: 1, tags: [] }));
+        act(() => state.set({ name: "b", visits: 2, tags: [] }));
+        expect(state.renders).toBe(1);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Expiry
+// ---------------------------------------------------------------------------
+
+describe("useMnemonicSelector – expiry", () => {
+    const NOW = Date.UTC(2026, 0, 1);
+
+    beforeEach(() => {
+        vi.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("selects from the default value once the stored value has expired", () => {
+        const storage = createMockStorage();
+        storage.store.set(
+            "ns.profile",
+            JSON.stringify({ version: 0, payload: JSON.stringify({ name: "Ada" }), expiresAt: NOW - 1 }),
+        );
+        let name: string | undefined;
+        function Probe() {
+            name = useMnemonicSelector("profile", (p: Profile) => p.name, Object.is, { defaultValue: DEFAULT_PROFILE });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(name).toBe("");
+    });
+});
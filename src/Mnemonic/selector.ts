@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+/**
+ * @fileoverview Derived subscriptions to persisted keys.
+ *
+ * This module exports the `useMnemonicSelector` hook, which reads a key
+ * through the provider's shared decode pipeline and re-renders only when a
+ * selected slice of the value changes.
+ */
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { useMnemonic } from "./provider";
+import { JSONCodec, type CodecError } from "./codecs";
+import type { SchemaError } from "./schema";
+import type { DecodeOutcome } from "./decode";
+import { resolveMnemonicKey } from "./key-definition";
+import type {
+    Codec,
+    MnemonicKeyDescriptor,
+    MnemonicRegisteredValue,
+    RegisteredKey,
+    UnregisteredKey,
+    UseMnemonicKeyOptions,
+    UseMnemonicSelectorOptions,
+} from "./types";
+
+/** Decode outcome used while rendering on the server, where storage is unavailable. */
+const SERVER_OUTCOME: DecodeOutcome<never> = { ok: false };
+
+/**
+ * Last selection made by a {@link useMnemonicSelector} hook.
+ */
+type Selection<T, S> = {
+    outcome: DecodeOutcome<T>;
+    expired: boolean;
+    selector: (value: T) => S;
+    selected: S;
+};
+
+/**
+ * Subscribes to a derived slice of a key defined with `defineMnemonicKey`.
+ *
+ * The descriptor's `defaultValue`, `codec`, and `listenCrossTab` options
+ * configure decoding.
+ *
+ * @template T - The type of the stored value
+ * @template S - The type of the selected slice
+ *
+ * @param descriptor - Key and options shared by every hook using the key
+ * @param selector - Derives the slice from the decoded value
+ * @param equalityFn - Decides whether two selections are equal (defaults to `Object.is`)
+ * @returns The selected slice
+ *
+ * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @see {@link defineMnemonicKey} - Creating descriptors
+ */
+export function useMnemonicSelector<T, S>(
+    descriptor: MnemonicKeyDescriptor<T>,
+    selector: (value: T) => S,
+    equalityFn?: (a: S, b: S) => boolean,
+): S;
+/**
+ * Subscribes to a derived slice of a key in the schema registry registered
+ * on `MnemonicRegister`, with the value type inferred from the key's latest
+ * JSON Schema.
+ *
+ * With a `defaultValue`, the selector receives the value type; without
+ * one, it also receives `undefined` for absent or invalid values.
+ *
+ * @template K - A key of the registered schema registry
+ * @template S - The type of the selected slice
+ *
+ * @param key - The storage key (unprefixed, namespace is applied automatically)
+ * @param selector - Derives the slice from the decoded value
+ * @param equalityFn - Decides whether two selections are equal (defaults to `Object.is`)
+ * @param options - How the stored value is decoded
+ * @returns The selected slice
+ *
+ * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @see {@link MnemonicRegister} - Registering a schema registry for inference
+ */
+export function useMnemonicSelector<const K, S>(
+    key: RegisteredKey<K>,
+    selector: (value: MnemonicRegisteredValue<K>) => S,
+    equalityFn: ((a: S, b: S) => boolean) | undefined,
+    options: UseMnemonicSelectorOptions<MnemonicRegisteredValue<K>> &
+        Pick<UseMnemonicKeyOptions<MnemonicRegisteredValue<K>>, "defaultValue">,
+): S;
+export function useMnemonicSelector<const K, S>(
+    key: RegisteredKey<K>,
+    selector: (value: MnemonicRegisteredValue<K> | undefined) => S,
+    equalityFn?: (a: S, b: S) => boolean,
+    options?: Omit<UseMnemonicSelectorOptions<MnemonicRegisteredValue<K>>, "defaultValue">,
+): S;
+/**
+ * React hook that subscribes to a derived slice of a persisted value.
+ *
+ * The stored value is decoded once per change and shared by every
+ * subscriber of the key, including `useMnemonicKey` hooks using the same
+ * codec. The selector then runs on the decoded value and the component
+ * re-renders only when `equalityFn` reports that the selection changed.
+ *
+ * Absent, expired, and invalid values select from `defaultValue`, or from
+ * `undefined` when no default is given. Read errors are not reported here;
+ * they surface through the `useMnemonicKey` hooks that own the key.
+ *
+ * The selector and equality function may be inline closures. The selector
+ * reruns when its identity changes, but the previous selection is kept
+ * while it is still equal.
+ *
+ * @template T - The type of the stored value
+ * @template S - The type of the selected slice
+ * @template K - The storage key, inferred. Keys of a registered schema
+ *   registry are rejected unless `T` is given explicitly.
+ *
+ * @param key - The storage key (unprefixed, namespace is applied automatically)
+ * @param selector - Derives the slice from the decoded value
+ * @param equalityFn - Decides whether two selections are equal (defaults to `Object.is`)
+ * @param options - How the stored value is decoded
+ * @returns The selected slice
+ *
+ * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @example
+ * ```tsx
+ * function CartBadge() {
+ *   const count = useMnemonicSelector(
+ *     "items",
+ *     (items: CartItem[]) => items.reduce((n, i) => n + i.qty, 0),
+ *     Object.is,
+ *     { defaultValue: [] },
+ *   );
+ *   return <span>{count}</span>;
+ * }
+ * ```
+ *
+ * @see {@link useMnemonicKey} - Read and write the whole value
+ */
+export function useMnemonicSelector<T, S, K extends string = string>(
+    key: UnregisteredKey<K>,
+    selector: (value: T) => S,
+    equalityFn?: (a: S, b: S) => boolean,
+    options?: UseMnemonicSelectorOptions<T>,
+): S;
+export function useMnemonicSelector<T, S>(
+    keyOrDescriptor: string | MnemonicKeyDescriptor<T>,
+    selector: (value: T) => S,
+    equalityFn: (a: S, b: S) => boolean = Object.is,
+    selectorOptions: UseMnemonicSelectorOptions<T> = {},
+): S {
+    const api = useMnemonic();
+    const { key, options } = resolveMnemonicKey<T, UseMnemonicSelectorOptions<T>>(keyOrDescriptor, selectorOptions);
+    const { defaultValue, codec: codecOpt, listenCrossTab } = options;
+    const codec: Codec<T> = codecOpt ?? JSONCodec;
+
+    const selection = useRef<Selection<T, S> | null>(null);
+
+    /**
+     * Select from a decode outcome, returning the previous selection when
+     * neither the outcome nor the selector changed, or the result is equal.
+     */
+    const select = (outcome: DecodeOutcome<T>): S => {
+        const expired = outcome.expiresAt !== undefined && outcome.expiresAt <= Date.now();
+        const prev = selection.current;
+        if (prev && prev.outcome === outcome && prev.expired === expired && prev.selector === selector) {
+            return prev.selected;
+        }
+        let value: T;
+        if (outcome.ok && !expired) {
+            value = outcome.value;
+        } else {
+            const error = outcome.ok || expired ? undefined : outcome.error;
+            value =
+                typeof defaultValue === "function"
+                    ? (defaultValue as (error?: CodecError | SchemaError) => T)(error)
+                    : (defaultValue as T);
+        }
+        const next = selector(value);
+        const selected = prev && equalityFn(prev.selected, next) ? prev.selected : next;
+        selection.current = { outcome, expired, selector, selected };
+        return selected;
+    };
+
+    const selected = useSyncExternalStore(
+        (listener) => api.subscribeRaw(key, listener),
+        () => select(api.decode(key, api.getRawSnapshot(key), codec)),
+        () => select(SERVER_OUTCOME), // SSR snapshot - no storage in server environment
+    );
+
+    useEffect(() => {
+        if (!listenCrossTab) return;
+        return api.subscribeCrossTab(key);
+    }, [listenCrossTab, api, key]);
+
+    return selected;
+}
@@ -0,0 +1,220 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { MnemonicProvider } from "./provider";
+import { useMnemonicKey } from "./use";
+import { SchemaError } from "./schema";
+import { createSchemaRegistry, type SchemaRegistryValue } from "./schema-registry";
+import {
+    isStandardSchema,
+    standardIssuesToErrors,
+    type StandardSchemaResult,
+    type StandardSchemaV1,
+} from "./standard-schema";
+import type { SchemaRegistry, StorageLike } from "./types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createMockStorage(): StorageLike & { store: Map<string, string> } {
+    const store = new Map<string, string>();
+    return {
+        store,
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            store.set(key, value);
+        },
+        removeItem: (key: string) => {
+            store.delete(key);
+        },
+    };
+}
+
+/** Builds a Standard Schema validator from a validate function. */
+function standard<Input, Output>(
+    validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>,
+): StandardSchemaV1<Input, Output> {
+    return { "~standard": { version: 1, vendor: "test", validate } };
+}
+
+type StoredMeeting = { title: string; at: string };
+type Meeting = { title: string; at: Date };
+
+/** Accepts `{ title, at }` with an ISO date string and outputs `at` as a Date. */
+const meetingSchema = standard<StoredMeeting, Meeting>((value) => {
+    const v = value as Partial<StoredMeeting> | null;
+    const issues = [];
+    if (typeof v?.title !== "string") issues.push({ message: "Expected string", path: ["title"] });
+    if (typeof v?.at !== "string" || Number.isNaN(Date.parse(v.at))) {
+        issues.push({ message: "Expected ISO date", path: [{ key: "at" }] });
+    }
+    if (issues.length > 0) return { issues };
+    return { value: { title: v!.title!, at: new Date(v!.at!) } };
+});
+
+const AT = "2026-03-01T12:00:00.000Z";
+
+function env(payload: unknown, version = 1): string {
+    return JSON.stringify({ version, payload });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers under test
+// ---------------------------------------------------------------------------
+
+describe("isStandardSchema", () => {
+    it("distinguishes validators from JSON Schemas", () => {
+        expect(isStandardSchema(meetingSchema)).toBe(true);
+        expect(isStandardSchema({ type: "object" })).toBe(false);
+        expect(isStandardSchema(null)).toBe(false);
+    });
+});
+
+describe("standardIssuesToErrors", () => {
+    it("renders paths as JSON Pointers and uses the vendor as keyword", () => {
+        expect(
+            standardIssuesToErrors(
+                [
+                    { message: "bad", path: ["items", 0, { key: "name" }] },
+                    { message: "root", path: undefined },
+                ],
+                "zod",
+            ),
+        ).toEqual([
+            { path: "/items/0/name", message: "bad", keyword: "zod" },
+            { path: "", message: "root", keyword: "zod" },
+        ]);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+describe("useMnemonicKey with Standard Schema validators", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    function renderMeeting(
+        registry: SchemaRegistry = createSchemaRegistry({
+            schemas: [{ key: "meeting", version: 1, schema: meetingSchema }],
+        }),
+    ) {
+        const defaultValue = vi.fn((_error?: unknown): Meeting => ({ title: "none", at: new Date(0) }));
+        const hook = {} as { value: Meeting; set: (next: Meeting) => void; error: unknown };
+        function Probe() {
+            const result = useMnemonicKey<Meeting>("meeting", { defaultValue });
+            hook.value = result.value;
+            hook.set = result.set;
+            hook.error = result.error;
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        return { hook, defaultValue };
+    }
+
+    it("uses the validator's output as the decoded value", () => {
+        storage.store.set("ns.meeting", env({ title: "Launch", at: AT }));
+        const { hook } = renderMeeting();
+        expect(hook.value.at).toBeInstanceOf(Date);
+        expect(hook.value.at.toISOString()).toBe(AT);
+    });
+
+    it("maps validation issues into a SchemaError", () => {
+        storage.store.set("ns.meeting", env({ title: 42, at: "soon" }));
+        const { defaultValue } = renderMeeting();
+        const error = defaultValue.mock.calls[0]![0] as SchemaError;
+        expect(error).toBeInstanceOf(SchemaError);
+        expect(error.code).toBe("TYPE_MISMATCH");
+        expect(error.key).toBe("meeting");
+        expect(error.version).toBe(1);
+        expect(error.validationErrors).toEqual([
+            { path: "/title", message: "Expected string", keyword: "test" },
+            { path: "/at", message: "Expected ISO date", keyword: "test" },
+        ]);
+    });
+
+    it("validates and stores the JSON form on write", () => {
+        const { hook } = renderMeeting();
+        act(() => hook.set({ title: "Launch", at: new Date(AT) }));
+        expect(JSON.parse(storage.store.get("ns.meeting")!)).toEqual({
+            version: 1,
+            payload: { title: "Launch", at: AT },
+        });
+        expect(hook.value.at.toISOString()).toBe(AT);
+    });
+
+    it("rejects writes that fail validation", () => {
+        const { hook } = renderMeeting();
+        act(() => hook.set({ title: "Launch", at: "later" } as unknown as Meeting));
+        expect(hook.error).toBeInstanceOf(SchemaError);
+        expect(storage.store.has("ns.meeting")).toBe(false);
+    });
+
+    it("migrates stored payloads before validating with the latest validator", () => {
+        storage.store.set("ns.meeting", env({ name: "Launch", when: AT }, 0));
+        const registry = createSchemaRegistry({
+            schemas: [
+                { key: "meeting", version: 0, schema: { type: "object", required: ["name", "when"] } },
+                { key: "meeting", version: 1, schema: meetingSchema },
+            ],
+            migrations: [
+                {
+                    key: "meeting",
+                    fromVersion: 0,
+                    toVersion: 1,
+                    migrate: (v) => {
+                        const old = v as { name: string; when: string };
+                        return { title: old.name, at: old.when };
+                    },
+                },
+            ],
+        });
+        const { hook } = renderMeeting(registry);
+        expect(hook.value.at.toISOString()).toBe(AT);
+        expect(JSON.parse(storage.store.get("ns.meeting")!)).toEqual({
+            version: 1,
+            payload: { title: "Launch", at: AT },
+        });
+    });
+
+    it("reports asynchronous validators as errors", () => {
+        storage.store.set("ns.meeting", env({ title: "Launch", at: AT }));
+        const asyncSchema = standard<StoredMeeting, Meeting>(async () => ({ issues: [] }));
+        const { defaultValue } = renderMeeting(
+            createSchemaRegistry({ schemas: [{ key: "meeting", version: 1, schema: asyncSchema }] }),
+        );
+        const error = defaultValue.mock.calls[0]![0] as SchemaError;
+        expect(error.code).toBe("TYPE_MISMATCH");
+        expect(error.message).toMatch(/asynchronously/);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+describe("createSchemaRegistry with Standard Schema validators", () => {
+    it("allows re-registering the same validator but not a different one", () => {
+        const registry = createSchemaRegistry({ schemas: [{ key: "meeting", version: 1, schema: meetingSchema }] });
+        expect(() => registry.registerSchema({ key: "meeting", version: 1, schema: meetingSchema })).not.toThrow();
+        expect(() =>
+            registry.registerSchema({ key: "meeting", version: 1, schema: standard(() => ({ value: null })) }),
+        ).toThrow(SchemaError);
+    });
+
+    it("infers the validator's output type", () => {
+        const registry = createSchemaRegistry({ schemas: [{ key: "meeting", version: 1, schema: meetingSchema }] });
+        expectTypeOf<SchemaRegistryValue<typeof registry, "meeting">>().toEqualTypeOf<Meeting>();
+    });
+});
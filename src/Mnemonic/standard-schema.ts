@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+// Copyright Scott Dixon
+
+/**
+ * @fileoverview Interop with Standard Schema validators.
+ *
+ * [Standard Schema](https://standardschema.dev) is a common interface
+ * implemented by validation libraries such as Zod, Valibot, and ArkType.
+ * This module declares the interface (the specification asks libraries to
+ * copy it rather than depend on a package) and maps validation results onto
+ * the library's own validation error shape.
+ */
+
+import type { JsonSchemaValidationError } from "./json-schema";
+
+/**
+ * A validator implementing the Standard Schema v1 interface.
+ *
+ * Zod (3.24+), Valibot (1.0+), ArkType (2.0+), and other libraries
+ * implementing the interface can be used as the `schema` of a `KeySchema`
+ * in place of a {@link JsonSchema}.
+ *
+ * @template Input - The type the validator accepts (the stored form)
+ * @template Output - The type the validator produces (the decoded form)
+ *
+ * @see {@link https://standardschema.dev} - The specification
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+    /** The Standard Schema properties. */
+    readonly "~standard": {
+        /** The version of the Standard Schema specification. */
+        readonly version: 1;
+
+        /** The name of the library implementing the validator, e.g. `"zod"`. */
+        readonly vendor: string;
+
+        /** Validates an unknown value, returning the output or the issues found. */
+        readonly validate: (value: unknown) => StandardSchemaResult<Output> | PromiseLike<StandardSchemaResult<Output>>;
+
+        /** Type-only record of the input and output types. */
+        readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+    };
+}
+
+/**
+ * Result of a Standard Schema validation: the output value on success, or
+ * the issues found on failure.
+ *
+ * @template Output - The validator's output type
+ */
+export type StandardSchemaResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: readonly StandardSchemaIssue[] };
+
+/**
+ * A single issue reported by a Standard Schema validator.
+ */
+export type StandardSchemaIssue = {
+    /** Human-readable description of the issue. */
+    readonly message: string;
+
+    /** Location of the failing value within the validated value. */
+    readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined;
+};
+
+/**
+ * The output type of a Standard Schema validator.
+ *
+ * @template S - The validator type
+ */
+export type InferStandardSchemaOutput<S> = S extends StandardSchemaV1<unknown, infer O> ? O : never;
+
+/**
+ * Tests whether a key schema's `schema` is a Standard Schema validator
+ * rather than a JSON Schema.
+ *
+ * @param schema - The schema to test
+ * @returns `true` when the schema exposes a `~standard` property
+ */
+export function isStandardSchema(schema: unknown): schema is StandardSchemaV1 {
+    return (
+        (typeof schema === "object" || typeof schema === "function") &&
+        schema !== null &&
+        typeof (schema as Partial<StandardSchemaV1>)["~standard"]?.validate === "function"
+    );
+}
+
+/**
+ * Converts Standard Schema issues into validation errors.
+ *
+ * Paths are rendered as JSON Pointers like the built-in validator's, and
+ * `keyword` is set to the validator's vendor name since Standard Schema
+ * issues do not identify the failing rule.
+ *
+ * @param issues - Issues reported by the validator
+ * @param vendor - The validator's vendor name
+ * @returns One validation error per issue
+ */
+export function standardIssuesToErrors(
+    issues: readonly StandardSchemaIssue[],
+    vendor: string,
+): JsonSchemaValidationError[] {
+    return issues.map((issue) => ({
+        path: (issue.path ?? [])
+            .map((segment) => `/${String(typeof segment === "object" ? segment.key : segment)}`)
+            .join(""),
+        message: issue.message,
+        keyword: vendor,
+    }));
+}
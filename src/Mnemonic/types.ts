@@ -10,7 +10,10 @@
 
 import type { CodecError } from "./codecs";
 import type { SchemaError } from "./schema";
-import type { JsonSchema } from "./json-schema";
+import type { InferJsonSchemaOptions, JsonSchema } from "./json-schema";
+import type { StandardSchemaV1 } from "./standard-schema";
+import type { DecodeOutcome } from "./decode";
+import type { SchemaRegistryKey, SchemaRegistryValue } from "./schema-registry";
 
 /**
  * Codec for encoding and decoding values to and from storage.
@@ -107,9 +110,18 @@ export interface MnemonicProviderOptions {
      *   setItem: (key, value) => myCustomStore.set(key, value),
      *   removeItem: (key) => myCustomStore.delete(key)
      * }
+     *
+     * // Use a promise-based backend; keys hydrate on first use
+     * storage: {
+     *   getItem: (key) => db.get(key),
+     *   setItem: (key, value) => db.put(key, value),
+     *   removeItem: (key) => db.delete(key)
+     * }
      * ```
+     *
+     * @see {@link AsyncStorageLike} - Promise-based storage contract
      */
-    storage?: StorageLike;
+    storage?: StorageLike | AsyncStorageLike;
 
     /**
      * Enable DevTools debugging interface.
@@ -167,8 +179,168 @@ export interface MnemonicProviderOptions {
      * @see {@link KeySchema} - Schema definition stored in the registry
      */
     schemaRegistry?: SchemaRegistry;
+
+    /**
+     * Callback invoked for every read or write error raised by any
+     * `useMnemonicKey` hook under this provider.
+     *
+     * Receives the error and the unprefixed key it relates to. Useful for
+     * centralized telemetry or toast notifications. Hook-level `onError`
+     * callbacks run before this one.
+     *
+     * @param error - The `CodecError`, `SchemaError`, or other error raised
+     * @param key - The unprefixed storage key involved
+     *
+     * @example
+     * ```tsx
+     * <MnemonicProvider
+     *   namespace="app"
+     *   onError={(error, key) => telemetry.report("mnemonic", { key, error })}
+     * >
+     *   <App />
+     * </MnemonicProvider>
+     * ```
+     */
+    onError?: (error: CodecError | SchemaError | Error, key: string) => void;
+
+    /**
+     * Keep every key under this provider in sync with other browser tabs.
+     *
+     * The provider always uses a single `storage` event listener for
+     * cross-tab updates, no matter how many hooks are mounted. Events are
+     * filtered by the namespace prefix and the changed keys are re-read from
+     * storage. By default only hooks that pass `listenCrossTab: true` receive
+     * these updates. Set this option to `true` to apply them to every key.
+     *
+     * Only effective when the storage backend is `localStorage`. Other
+     * backends can implement {@link StorageLike.onExternalChange} instead.
+     *
+     * @default false
+     *
+     * @example
+     * ```tsx
+     * <MnemonicProvider namespace="app" listenCrossTab>
+     *   <App />
+     * </MnemonicProvider>
+     * ```
+     */
+    listenCrossTab?: boolean;
+
+    /**
+     * Interval in milliseconds at which the provider deletes expired keys
+     * from storage.
+     *
+     * Keys written with a `ttl` or `expiresAt` hook option are removed when
+     * a mounted hook reads them after they expire. The sweep also removes
+     * expired keys that no component is reading. It runs once when the
+     * provider mounts and then at this interval. Set it to `0` to sweep only
+     * on mount. Omit it to disable the sweep.
+     *
+     * The sweep needs to enumerate keys, so it only runs when the storage
+     * backend supports `key()` and `length` (or `keys()` for an
+     * {@link AsyncStorageLike}).
+     *
+     * @example
+     * ```tsx
+     * // Sweep once a minute
+     * <MnemonicProvider namespace="app" expirySweepInterval={60_000}>
+     *   <App />
+     * </MnemonicProvider>
+     * ```
+     */
+    expirySweepInterval?: number;
+
+    /**
+     * Write values back to storage after filling in schema defaults.
+     *
+     * Reads always fill missing object properties from the `default`
+     * values declared in the key's JSON Schema (see
+     * {@link applyJsonSchemaDefaults}). By default the filled value is only
+     * returned to the hook, and storage keeps the original payload. Set
+     * this option to `true` to persist the filled value, the same way
+     * migrated values are rewritten on read. Values read through a
+     * migration are always rewritten, defaults included.
+     *
+     * @default false
+     *
+     * @example
+     * ```tsx
+     * <MnemonicProvider namespace="app" schemaRegistry={registry} persistSchemaDefaults>
+     *   <App />
+     * </MnemonicProvider>
+     * ```
+     */
+    persistSchemaDefaults?: boolean;
+
+    /**
+     * Settings for `"autoschema"` mode.
+     *
+     * Ignored in other modes. See {@link AutoschemaOptions}. May be an
+     * inline object; changed options apply from the next decode, and values
+     * already decoded under the previous inference options are decoded again.
+     *
+     * @example
+     * ```tsx
+     * <MnemonicProvider
+     *   namespace="app"
+     *   schemaMode="autoschema"
+     *   schemaRegistry={registry}
+     *   autoschemaOptions={{ inference: { additionalProperties: false } }}
+     * >
+     *   <App />
+     * </MnemonicProvider>
+     * ```
+     */
+    autoschemaOptions?: AutoschemaOptions;
 }
 
+/**
+ * Settings for `"autoschema"` mode, passed to the provider's
+ * `autoschemaOptions` option.
+ */
+export type AutoschemaOptions = {
+    /**
+     * How strict inferred schemas are. By default, no property is required,
+     * other properties are allowed, and whole numbers infer `"number"`, so
+     * later writes of a differently shaped value of the same type pass.
+     *
+     * @see {@link InferJsonSchemaOptions}
+     */
+    inference?: InferJsonSchemaOptions;
+
+    /**
+     * What happens when a write's value fails the key's latest schema.
+     *
+     * By default the write is rejected with a `SchemaError`. With an
+     * evolution policy, the provider instead registers the next schema
+     * version, plus an identity migration from the latest version, and
+     * stores the value under it. The registry then records each change of
+     * shape as a version.
+     *
+     * - `"widen"` — The new schema accepts both the old shape and the new
+     *   value's inferred shape, so values stored under older versions stay
+     *   readable.
+     * - `"replace"` — The new schema is inferred from the new value alone.
+     *   Values still stored under older versions fail validation after the
+     *   identity migration and read as the hook's default. This includes
+     *   `useMnemonicHistory` entries, so undoing past a replacement fails
+     *   with a `SchemaError`.
+     *
+     * The new version is registered only once the value is stored, so a
+     * write rejected by storage registers nothing. Evolving writes are
+     * stored immediately, ignoring `writeDelay`. Inside a transaction the
+     * version is registered when the transaction commits; a rolled-back
+     * write registers nothing.
+     *
+     * Writes that pin a version with the hook's `schema.version` option and
+     * keys whose latest schema is a Standard Schema validator never evolve.
+     * Widening keeps only the keywords inference produces, so constraints
+     * such as `minimum` on a hand-written schema are dropped from the new
+     * version. Requires the registry to implement `registerMigration`.
+     */
+    evolution?: "widen" | "replace";
+};
+
 /**
  * Controls how the provider enforces versioned schemas on stored values.
  *
@@ -190,10 +362,11 @@ export interface MnemonicProviderOptions {
  *   then behave as if the schema had been registered manually.
  *
  * @remarks
- * In `"default"` and `"strict"` modes, registry lookups are cached under the
- * assumption that the schema registry is immutable for the lifetime of the
- * provider. If you need to update schemas, publish a new app version and
- * remount the provider. `"autoschema"` does not assume immutability.
+ * In `"default"` and `"strict"` modes, each hook caches the registry lookups
+ * it writes with for as long as it stays mounted. Reads always query the
+ * registry, so schemas and migrations registered at runtime (for example
+ * after a lazy load) apply to reads right away and to writes once the hook
+ * remounts. `"autoschema"` never caches lookups.
  *
  * @default "default"
  *
@@ -206,13 +379,19 @@ export type SchemaMode = "strict" | "default" | "autoschema";
  * Schema definition for a single key at a specific version.
  *
  * Each registered schema binds a storage key + version number to a
- * JSON Schema that validates the payload. Schemas are fully serializable
- * (no functions).
+ * JSON Schema that validates the payload. JSON Schemas are fully
+ * serializable (no functions).
  *
  * When the provider reads a value whose envelope version matches a
  * registered schema, the payload is validated against the schema's
  * JSON Schema definition.
  *
+ * The schema can instead be a Standard Schema validator (Zod, Valibot,
+ * ArkType, ...). Its issues are reported like JSON Schema validation
+ * failures, and its output, including any transforms, becomes the decoded
+ * value. On write, the JSON form of the value is validated and stored.
+ * Validators must be synchronous.
+ *
  * @example
  * ```typescript
  * const userSchemaV1: KeySchema = {
@@ -230,7 +409,17 @@ export type SchemaMode = "strict" | "default" | "autoschema";
  *
  * @see {@link SchemaRegistry} - Where schemas are registered and looked up
  * @see {@link MigrationRule} - How values migrate between schema versions
+ * @example
+ * ```typescript
+ * const userSchemaV2: KeySchema = {
+ *   key: "user",
+ *   version: 2,
+ *   schema: z.object({ name: z.string(), joined: z.iso.datetime().transform((s) => new Date(s)) }),
+ * };
+ * ```
+ *
  * @see {@link JsonSchema} - The JSON Schema subset used for validation
+ * @see {@link StandardSchemaV1} - The Standard Schema validator interface
  */
 export type KeySchema = {
     /**
@@ -246,12 +435,13 @@ export type KeySchema = {
     version: number;
 
     /**
-     * JSON Schema that validates the payload at this version.
+     * JSON Schema or Standard Schema validator that validates the payload
+     * at this version.
      *
      * Only the subset of JSON Schema keywords defined in {@link JsonSchema}
      * are supported. An empty schema `{}` accepts any value.
      */
-    schema: JsonSchema;
+    schema: JsonSchema | StandardSchemaV1;
 };
 
 /**
@@ -371,6 +561,7 @@ export type MigrationPath = MigrationRule[];
  * </MnemonicProvider>
  * ```
  *
+ * @see {@link createSchemaRegistry} - Built-in in-memory implementation
  * @see {@link KeySchema} - Schema definition
  * @see {@link MigrationPath} - Migration chain returned by `getMigrationPath`
  * @see {@link SchemaMode} - How the provider uses the registry
@@ -438,6 +629,17 @@ export interface SchemaRegistry {
      * @param schema - The schema to register
      */
     registerSchema?(schema: KeySchema): void;
+
+    /**
+     * Register a migration rule.
+     *
+     * Optional. Required when autoschema evolution is enabled (see
+     * {@link AutoschemaOptions.evolution}) so the library can connect each
+     * evolved schema version to the previous one.
+     *
+     * @param rule - The migration rule to register
+     */
+    registerMigration?(rule: MigrationRule): void;
 }
 
 /**
@@ -554,6 +756,89 @@ export type StorageLike = {
     onExternalChange?: (callback: (changedKeys?: string[]) => void) => () => void;
 };
 
+/**
+ * Promise-based storage interface for asynchronous backends such as
+ * IndexedDB, React Native AsyncStorage, or a remote key-value service.
+ *
+ * `MnemonicProvider` accepts an `AsyncStorageLike` anywhere a
+ * {@link StorageLike} is accepted. The provider detects the asynchronous
+ * backend the first time one of its methods returns a promise.
+ *
+ * - **Reads** — Each key is hydrated on first use. Until the value arrives,
+ *   `useMnemonicKey` renders its `defaultValue` and reports
+ *   `status: "loading"`, or suspends when the `suspense` option is set.
+ * - **Writes** — `set`, `reset`, and `remove` update the in-memory cache and
+ *   notify subscribers immediately. The backend calls are queued and run one
+ *   at a time in call order. A write made while a key is still loading wins
+ *   over the value being loaded.
+ * - **Errors** — Rejected promises follow the same contract as thrown errors
+ *   from {@link StorageLike}.
+ *
+ * @example
+ * ```typescript
+ * const remoteStorage: AsyncStorageLike = {
+ *   getItem: (key) => kv.get(key),
+ *   setItem: (key, value) => kv.set(key, value),
+ *   removeItem: (key) => kv.delete(key),
+ *   keys: () => kv.list(),
+ * };
+ *
+ * <MnemonicProvider namespace="app" storage={remoteStorage}>
+ *   <App />
+ * </MnemonicProvider>
+ * ```
+ *
+ * @see {@link StorageLike} - Synchronous storage contract
+ */
+export type AsyncStorageLike = {
+    /**
+     * Retrieves the value associated with a key.
+     *
+     * @param key - The storage key to retrieve
+     * @returns Promise resolving to the stored string, or null if not found
+     */
+    getItem(key: string): Promise<string | null>;
+
+    /**
+     * Stores a key-value pair.
+     *
+     * @param key - The storage key
+     * @param value - The string value to store
+     * @returns Promise that resolves once the value is stored
+     */
+    setItem(key: string, value: string): Promise<void>;
+
+    /**
+     * Removes a key-value pair from storage.
+     *
+     * @param key - The storage key to remove
+     * @returns Promise that resolves once the value is removed
+     */
+    removeItem(key: string): Promise<void>;
+
+    /**
+     * Lists every key currently stored.
+     *
+     * Optional method for enumeration support (DevTools `keys` and `dump`).
+     * Enumeration is refreshed in the background, so the provider reports
+     * the most recently resolved list merged with keys it has cached.
+     *
+     * @returns Promise resolving to all fully-qualified keys
+     */
+    keys?(): Promise<string[]>;
+
+    /**
+     * Subscribe to notifications when data changes externally.
+     *
+     * Same contract as {@link StorageLike.onExternalChange}. Changed keys are
+     * re-read asynchronously before subscribers are notified.
+     *
+     * @param callback - Invoked when external data changes
+     * @returns An unsubscribe function that removes the callback
+     */
+    onExternalChange?: (callback: (changedKeys?: string[]) => void) => () => void;
+};
+
 /**
  * Function type for unsubscribing from event listeners.
  *
@@ -575,6 +860,40 @@ export type Unsubscribe = () => void;
  */
 export type Listener = () => void;
 
+/**
+ * How deferred writes to the storage backend are scheduled.
+ *
+ * - `"debounce"` — Write once no new value has been set for the delay.
+ * - `"throttle"` — Write at most once per delay, always ending with the
+ *   latest value.
+ *
+ * @see {@link UseMnemonicKeyOptions.writeDelay}
+ */
+export type WriteMode = "debounce" | "throttle";
+
+/**
+ * Scheduling options for {@link Mnemonic.setRaw}.
+ *
+ * @internal
+ */
+export type RawWriteOptions = {
+    /** Milliseconds to defer the storage write. `0` writes immediately. */
+    delay: number;
+
+    /** How repeated writes within the delay are coalesced. */
+    mode: WriteMode;
+};
+
+/**
+ * A storage key, or a key descriptor from `defineMnemonicKey` naming one.
+ *
+ * Accepted by the store's key-level methods and the DevTools, so code
+ * outside hooks can use a descriptor instead of retyping its key.
+ *
+ * @see {@link MnemonicKeyDescriptor}
+ */
+export type MnemonicKeyInput = string | Pick<MnemonicKeyDescriptor<unknown>, "key">;
+
 /**
  * Internal Mnemonic store API provided via React Context.
  *
@@ -583,7 +902,8 @@ export type Listener = () => void;
  * methods directly.
  *
  * All keys passed to these methods should be **unprefixed**. The store
- * automatically applies the namespace prefix internally.
+ * automatically applies the namespace prefix internally. Methods taking a
+ * {@link MnemonicKeyInput} also accept a key descriptor.
  *
  * @remarks
  * This implements the React `useSyncExternalStore` contract for efficient,
@@ -605,7 +925,7 @@ export type Mnemonic = {
      * Follows the React external store subscription contract. The listener
      * will be called whenever the value for this key changes.
      *
-     * @param key - The unprefixed storage key to subscribe to
+     * @param key - The unprefixed storage key, or a key descriptor, to subscribe to
      * @param listener - Callback invoked when the value changes
      * @returns Unsubscribe function to stop listening
      *
@@ -616,7 +936,19 @@ export type Mnemonic = {
      * });
      * ```
      */
-    subscribeRaw: (key: string, listener: Listener) => Unsubscribe;
+    subscribeRaw: (key: MnemonicKeyInput, listener: Listener) => Unsubscribe;
+
+    /**
+     * Opt a key in to updates from other browser tabs.
+     *
+     * The provider keeps a single `storage` event listener installed while
+     * at least one key is opted in. Matching events re-read the key from
+     * storage and notify its subscribers.
+     *
+     * @param key - The unprefixed storage key, or a key descriptor
+     * @returns Function that withdraws this opt-in
+     */
+    subscribeCrossTab: (key: MnemonicKeyInput) => Unsubscribe;
 
     /**
      * Get the current raw string value for a key.
@@ -624,21 +956,58 @@ export type Mnemonic = {
      * This is part of the external store snapshot contract. Values are
      * cached in memory for stable snapshots.
      *
-     * @param key - The unprefixed storage key
+     * @param key - The unprefixed storage key, or a key descriptor
      * @returns The raw string value, or null if not present
      */
-    getRawSnapshot: (key: string) => string | null;
+    getRawSnapshot: (key: MnemonicKeyInput) => string | null;
+
+    /**
+     * Whether a key has finished loading from the storage backend.
+     *
+     * Always `true` for synchronous backends. For {@link AsyncStorageLike}
+     * backends this is `false` until the first read of the key resolves.
+     * Calling it starts hydration if it has not started yet.
+     *
+     * @param key - The unprefixed storage key, or a key descriptor
+     * @returns True once the key's value is available
+     */
+    isHydrated: (key: MnemonicKeyInput) => boolean;
+
+    /**
+     * Wait for a key to finish loading from the storage backend.
+     *
+     * Resolves immediately for synchronous backends and already-hydrated
+     * keys. Used by `useMnemonicKey` to suspend.
+     *
+     * @param key - The unprefixed storage key, or a key descriptor
+     * @returns Promise that resolves once the key's value is available
+     */
+    whenHydrated: (key: MnemonicKeyInput) => Promise<void>;
 
     /**
      * Write a raw string value to storage.
      *
      * Updates both the in-memory cache and the underlying storage backend,
-     * then notifies all subscribers for this key.
+     * then notifies all subscribers for this key. With a `delay`, the cache
+     * and subscribers update immediately and the storage write is deferred
+     * and coalesced with later writes to the same key.
      *
-     * @param key - The unprefixed storage key
+     * @param key - The unprefixed storage key, or a key descriptor
      * @param raw - The raw string value to store
+     * @param options - Optional deferred write scheduling
+     */
+    setRaw: (key: MnemonicKeyInput, raw: string, options?: RawWriteOptions) => void;
+
+    /**
+     * Write every deferred value to the storage backend now.
+     *
+     * The provider calls this automatically on `pagehide`, when the page
+     * becomes hidden, and when it unmounts.
+     *
+     * @returns Promise that resolves once the writes have reached the
+     *   backend (immediately for synchronous backends)
      */
-    setRaw: (key: string, raw: string) => void;
+    flush: () => Promise<void>;
 
     /**
      * Remove a key from storage.
@@ -646,9 +1015,83 @@ export type Mnemonic = {
      * Clears the value from both the cache and the underlying storage,
      * then notifies all subscribers.
      *
-     * @param key - The unprefixed storage key to remove
+     * @param key - The unprefixed storage key, or a key descriptor, to remove
      */
-    removeRaw: (key: string) => void;
+    removeRaw: (key: MnemonicKeyInput) => void;
+
+    /**
+     * Apply several writes atomically.
+     *
+     * `setRaw` and `removeRaw` calls made while `fn` runs are staged: reads
+     * see them immediately, but storage is not touched and subscribers are
+     * not notified. When `fn` returns, the staged writes are persisted
+     * together and each changed key notifies its subscribers once.
+     *
+     * If `fn` throws, or a storage write fails while committing, every
+     * staged key is restored in both the cache and storage and the error is
+     * rethrown. Calls nested inside a running batch join the outer batch.
+     *
+     * `fn` must be synchronous. Deferred write options are ignored for
+     * staged writes, which are always persisted on commit.
+     *
+     * @param fn - Synchronous callback making the writes
+     * @returns The value returned by `fn`
+     *
+     * @throws The error thrown by `fn` or by the storage backend
+     */
+    batch: <R>(fn: () => R) => R;
+
+    /**
+     * Whether a {@link Mnemonic.batch} callback is currently running.
+     *
+     * Used by `useMnemonicKey` to abort the batch when a staged value fails
+     * to encode or validate.
+     *
+     * @returns True while staging writes for a batch
+     */
+    inBatch: () => boolean;
+
+    /**
+     * Run a callback once the running {@link Mnemonic.batch} commits.
+     *
+     * Inside a batch, `fn` runs after the staged writes reach storage and
+     * before subscribers are notified, and is dropped if the batch rolls
+     * back. Outside a batch it runs immediately.
+     *
+     * Used by `useMnemonicKey` to register autoschema evolutions only for
+     * writes that are stored.
+     *
+     * @param fn - Callback to run after the writes are stored
+     */
+    afterCommit: (fn: () => void) => void;
+
+    /**
+     * Decode a key's raw stored value through its schema pipeline.
+     *
+     * Results are memoized per key, raw value, codec, and latest schema
+     * version, so every subscriber of a key shares one parse, validation,
+     * and migration per change. Expiry is reported but not enforced.
+     *
+     * @param key - The unprefixed storage key
+     * @param raw - The raw stored value, or null when absent
+     * @param codec - Codec for codec-managed payloads
+     * @returns The decode outcome, before any default value is applied
+     */
+    decode: <T>(key: string, raw: string | null, codec: Codec<T>) => DecodeOutcome<T>;
+
+    /**
+     * Write a read-time upgrade of a stored value (a migration or an
+     * autoschema rewrite).
+     *
+     * The write is skipped when the key no longer holds `from`, so when
+     * several hooks read the same outdated value, the upgrade is written
+     * exactly once.
+     *
+     * @param key - The unprefixed storage key
+     * @param from - The raw value the upgrade was computed from
+     * @param to - The upgraded raw value
+     */
+    applyRewrite: (key: string, from: string, to: string) => void;
 
     /**
      * Enumerate all keys in this namespace.
@@ -687,6 +1130,36 @@ export type Mnemonic = {
      * @see {@link SchemaRegistry}
      */
     schemaRegistry?: SchemaRegistry;
+
+    /**
+     * The provider's current `autoschemaOptions`, if any.
+     *
+     * Read on each write, so an inline options object does not recreate
+     * the store.
+     *
+     * @returns The options passed to the provider
+     */
+    getAutoschemaOptions: () => AutoschemaOptions | undefined;
+
+    /**
+     * Forward an error to the provider-level `onError` callback, if any.
+     *
+     * Hooks call this for read-time and write-time failures.
+     *
+     * @param error - The error raised
+     * @param key - The unprefixed storage key involved
+     */
+    reportError: (error: CodecError | SchemaError | Error, key: string) => void;
+
+    /**
+     * Forward a read-time failure to the provider-level `onError` callback,
+     * at most once per raw value of the key however many hooks read it.
+     *
+     * @param error - The decode, validation, or migration error
+     * @param key - The unprefixed storage key involved
+     * @param raw - The raw stored value that failed to decode
+     */
+    reportReadError: (error: CodecError | SchemaError | Error, key: string, raw: string | null) => void;
 };
 
 /**
@@ -826,11 +1299,34 @@ export type UseMnemonicKeyOptions<T> = {
      */
     onChange?: (value: T, prev: T) => void;
 
+    /**
+     * Callback invoked when reading or writing this key fails.
+     *
+     * Read failures (decode, validation, migration) are reported once per
+     * distinct stored value; the hook still falls back to `defaultValue`.
+     * Write failures from `set` or `reset` are reported each time they occur;
+     * the stored value is left unchanged. The same error is also exposed as
+     * the hook's `error` field and forwarded to the provider's `onError`.
+     *
+     * @param error - The `CodecError`, `SchemaError`, or other error raised
+     *
+     * @example
+     * ```typescript
+     * onError: (error) => {
+     *   if (error instanceof SchemaError) toast.error(`Invalid value: ${error.message}`);
+     * }
+     * ```
+     */
+    onError?: (error: CodecError | SchemaError | Error) => void;
+
     /**
      * Enable listening for changes from other browser tabs.
      *
-     * When true, uses the browser's `storage` event to detect changes
-     * made to localStorage in other tabs and synchronizes them to this component.
+     * When true, this key is opted in to the provider's shared `storage`
+     * event listener, which detects changes made to localStorage in other
+     * tabs and synchronizes them to this component. The hook does not install
+     * a listener of its own. Has no additional effect when the provider's
+     * own `listenCrossTab` option is enabled.
      *
      * Only effective when using localStorage as the storage backend.
      *
@@ -849,6 +1345,105 @@ export type UseMnemonicKeyOptions<T> = {
      */
     listenCrossTab?: boolean;
 
+    /**
+     * Suspend rendering until the key has loaded from an asynchronous backend.
+     *
+     * When true and the provider uses an {@link AsyncStorageLike} backend, the
+     * hook throws a promise while the key hydrates so the nearest React
+     * `<Suspense>` boundary shows its fallback. When false, the hook renders
+     * `defaultValue` and reports `status: "loading"` instead.
+     *
+     * Has no effect with synchronous backends.
+     *
+     * @default false
+     *
+     * @example
+     * ```tsx
+     * <Suspense fallback={<Spinner />}>
+     *   <Settings />
+     * </Suspense>
+     *
+     * function Settings() {
+     *   const { value } = useMnemonicKey("settings", { defaultValue: {}, suspense: true });
+     *   // ...
+     * }
+     * ```
+     */
+    suspense?: boolean;
+
+    /**
+     * Defer storage writes by this many milliseconds.
+     *
+     * `set` and `reset` still update the value and every subscriber right
+     * away; only the write to the storage backend is postponed, so rapid
+     * updates (typing, dragging) become a single write. Pending writes are
+     * flushed on `pagehide`, when the page becomes hidden, when the provider
+     * unmounts, and by the function returned from `useMnemonicFlush`.
+     *
+     * Set `writeMode` to choose between debouncing (the default) and
+     * throttling.
+     *
+     * @default 0
+     *
+     * @example
+     * ```typescript
+     * // Persist a text draft 500 ms after the user stops typing
+     * const { value, set } = useMnemonicKey("draft", { defaultValue: "", writeDelay: 500 });
+     * ```
+     */
+    writeDelay?: number;
+
+    /**
+     * How deferred writes are coalesced when `writeDelay` is set.
+     *
+     * - `"debounce"` — Write once `writeDelay` ms pass without a new value.
+     *   Best for text input.
+     * - `"throttle"` — Write immediately, then at most once every
+     *   `writeDelay` ms while values keep changing, ending with the latest
+     *   value. Best for drags and sliders.
+     *
+     * @default "debounce"
+     */
+    writeMode?: WriteMode;
+
+    /**
+     * Time-to-live in milliseconds for values written by this hook.
+     *
+     * Every `set` and `reset` records an expiry time of `Date.now() + ttl`
+     * in the stored envelope. Once that time passes, the value is treated
+     * as missing: the hook returns `defaultValue` and removes the key from
+     * storage. Writes made without `ttl` or `expiresAt` never expire.
+     *
+     * @example
+     * ```typescript
+     * // Keep a draft for one hour after the last edit
+     * const { value, set } = useMnemonicKey("draft", { defaultValue: "", ttl: 60 * 60 * 1000 });
+     * ```
+     *
+     * @see {@link UseMnemonicKeyOptions.expiresAt} - Absolute alternative
+     * @see {@link MnemonicProviderOptions.expirySweepInterval} - Removing expired keys that are not mounted
+     */
+    ttl?: number;
+
+    /**
+     * Absolute expiry time for values written by this hook, in milliseconds
+     * since the Unix epoch or as a `Date`.
+     *
+     * Behaves like {@link UseMnemonicKeyOptions.ttl} but every write uses
+     * the same fixed expiry time. Takes precedence over `ttl` when both are
+     * set.
+     *
+     * @example
+     * ```typescript
+     * // Hide the banner until the end of the promotion
+     * const { value, set } = useMnemonicKey("promoDismissed", {
+     *   defaultValue: false,
+     *   expiresAt: promotion.endsAt,
+     * });
+     * ```
+     */
+    expiresAt?: number | Date;
+
     /**
      * Optional schema controls for this key.
      *
@@ -881,3 +1476,184 @@ export type UseMnemonicKeyOptions<T> = {
         version?: number;
     };
 };
+
+/**
+ * Configuration options for the useMnemonicHistory hook.
+ *
+ * Accepts every {@link UseMnemonicKeyOptions} option plus settings for the
+ * undo/redo stacks.
+ *
+ * @template T - The TypeScript type of the stored value
+ *
+ * @example
+ * ```typescript
+ * const { value, set, undo, redo } = useMnemonicHistory("document", {
+ *   defaultValue: "",
+ *   depth: 20,
+ *   persistHistory: true,
+ * });
+ * ```
+ */
+export type UseMnemonicHistoryOptions<T> = UseMnemonicKeyOptions<T> & {
+    /**
+     * Maximum number of previous values kept for `undo`.
+     *
+     * When a write would exceed this depth, the oldest entry is dropped.
+     * Set to `0` to disable recording.
+     *
+     * @default 100
+     */
+    depth?: number;
+
+    /**
+     * Persist the undo/redo stacks to storage alongside the value.
+     *
+     * When false, each hook instance keeps its own history in memory and
+     * the history is lost on unmount. When true, the stacks are stored
+     * under `historyKey`, survive reloads, and are shared by every hook
+     * using the same key. With `listenCrossTab`, other tabs see them too.
+     *
+     * @default false
+     */
+    persistHistory?: boolean;
+
+    /**
+     * Unprefixed storage key for the persisted undo/redo stacks.
+     *
+     * Only used when `persistHistory` is true.
+     *
+     * @default `${key}:history`
+     */
+    historyKey?: string;
+};
+
+/**
+ * Configuration options for the `useMnemonicSelector` hook.
+ *
+ * A subset of {@link UseMnemonicKeyOptions} covering how the stored value is
+ * read. Use the same `codec` as the key's `useMnemonicKey` hooks so they
+ * share one decoded value.
+ *
+ * @template T - The type of the stored value
+ *
+ * @example
+ * ```typescript
+ * const count = useMnemonicSelector("cart", (cart: Cart) => cart.items.length, Object.is, {
+ *   defaultValue: { items: [] },
+ * });
+ * ```
+ */
+export type UseMnemonicSelectorOptions<T> = Partial<Pick<UseMnemonicKeyOptions<T>, "defaultValue">> &
+    Pick<UseMnemonicKeyOptions<T>, "codec" | "listenCrossTab">;
+
+/**
+ * Input to `defineMnemonicKey`: the storage key plus the options every hook
+ * using it should share.
+ *
+ * @template T - The type of the stored value
+ */
+export type MnemonicKeyDefinition<T> = UseMnemonicKeyOptions<T> & {
+    /**
+     * The storage key (unprefixed, namespace is applied automatically).
+     */
+    key: string;
+};
+
+/**
+ * A typed key definition returned by `defineMnemonicKey`.
+ *
+ * Pass it to `useMnemonicKey`, `useMnemonicHistory`, or `useMnemonicSelector`
+ * in place of a key and options. The DevTools and the store's key-level
+ * methods accept it in place of a key (see {@link MnemonicKeyInput}), and
+ * other code outside React, such as test fixtures, can read its `key`.
+ *
+ * @template T - The type of the stored value
+ *
+ * @see {@link MnemonicKeyDefinition} - The accepted definition
+ */
+export type MnemonicKeyDescriptor<T> = {
+    /** The storage key (unprefixed). */
+    readonly key: string;
+    /** Options applied by every hook using this descriptor. */
+    readonly options: Readonly<UseMnemonicKeyOptions<T>>;
+};
+
+/**
+ * Registration point for application-wide type inference.
+ *
+ * Augment this interface with the type of your schema registry, and hooks
+ * called with one of its keys infer the value type from the key's latest
+ * JSON Schema instead of taking it from `defaultValue` or a type argument.
+ * The registry must be created by `createSchemaRegistry` with the schemas
+ * written inline, so their literal types are preserved.
+ *
+ * Keys that are not in the registry, and calls with an explicit type
+ * argument, are typed as before.
+ *
+ * @example
+ * ```typescript
+ * export const registry = createSchemaRegistry({
+ *   schemas: [
+ *     {
+ *       key: "settings",
+ *       version: 1,
+ *       schema: {
+ *         type: "object",
+ *         properties: { theme: { enum: ["light", "dark"] } },
+ *         required: ["theme"],
+ *       },
+ *     },
+ *   ],
+ * });
+ *
+ * declare module "react-mnemonic" {
+ *   interface MnemonicRegister {
+ *     schemaRegistry: typeof registry;
+ *   }
+ * }
+ *
+ * // value: { theme: "light" | "dark" }
+ * const { value } = useMnemonicKey("settings", { defaultValue: { theme: "light" } });
+ * ```
+ *
+ * @see {@link FromJsonSchema} - How schemas map to types
+ */
+export interface MnemonicRegister {}
+
+/**
+ * Keys of the schema registry registered on {@link MnemonicRegister}, or
+ * `never` when none is registered.
+ */
+export type MnemonicRegisteredKey = MnemonicRegister extends { schemaRegistry: infer R } ? SchemaRegistryKey<R> : never;
+
+/**
+ * Value type of a key in the schema registry registered on
+ * {@link MnemonicRegister}, or `unknown` for any other key.
+ *
+ * @template K - The storage key
+ */
+export type MnemonicRegisteredValue<K> = MnemonicRegister extends { schemaRegistry: infer R }
+    ? K extends SchemaRegistryKey<R>
+        ? SchemaRegistryValue<R, K>
+        : unknown
+    : unknown;
+
+/**
+ * Accepts a key only when it is in the registered schema registry.
+ *
+ * The key's own type stays a naked `K` in the intersection, so `K` is
+ * inferred even when the registry has a single key, and `K` needs no
+ * constraint, so instantiation expressions like
+ * `typeof useMnemonicKey<number>` still resolve.
+ *
+ * @internal
+ */
+export type RegisteredKey<K> = K & (K extends MnemonicRegisteredKey ? unknown : never);
+
+/**
+ * Accepts a key only when it is not in the registered schema registry, so
+ * registered keys cannot fall back to a loosely typed hook overload.
+ *
+ * @internal
+ */
+export type UnregisteredKey<K extends string> = K extends MnemonicRegisteredKey ? never : K;
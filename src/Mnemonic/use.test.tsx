@@ -1,13 +1,15 @@
 // SPDX-License-Identifier: MIT
 // Copyright Scott Dixon
 
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, act } from "@testing-library/react";
-import { MnemonicProvider } from "./provider";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, act, screen } from "@testing-library/react";
+import { Suspense, useState } from "react";
+import { MnemonicProvider, useMnemonicTransaction } from "./provider";
 import { useMnemonicKey } from "./use";
 import { createCodec, CodecError } from "./codecs";
 import { SchemaError } from "./schema";
-import type { StorageLike, Codec } from "./types";
+import { createSchemaRegistry } from "./schema-registry";
+import type { StorageLike, AsyncStorageLike, Codec } from "./types";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -252,6 +254,8 @@ describe("useMnemonicKey – cross-tab sync", () => {
         expect(result.current.value).toBe("light");
 
         act(() => {
+            // Another tab writes the shared storage, then the event fires here.
+            storage.store.set("ns.theme", env(JSON.stringify("dark")));
             window.dispatchEvent(
                 new StorageEvent("storage", {
                     key: "ns.theme",
@@ -273,6 +277,7 @@ describe("useMnemonicKey – cross-tab sync", () => {
         expect(result.current.value).toBe("dark");
 
         act(() => {
+            storage.store.delete("ns.theme");
             window.dispatchEvent(
                 new StorageEvent("storage", {
                     key: "ns.theme",
@@ -294,6 +299,7 @@ describe("useMnemonicKey – cross-tab sync", () => {
         expect(result.current.value).toBe("dark");
 
         act(() => {
+            storage.store.clear();
             window.dispatchEvent(
                 new StorageEvent("storage", {
                     key: null,
@@ -534,3 +540,632 @@ describe("useMnemonicKey – error-aware defaultValue factory", () => {
         errorSpy.mockRestore();
     });
 });
+
+// ---------------------------------------------------------------------------
+// Error state and onError callbacks
+// ---------------------------------------------------------------------------
+
+describe("useMnemonicKey – error state", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    const ThrowingCodec: Codec<number> = {
+        encode: (v) => {
+            if (v < 0) throw new CodecError("negative");
+            return String(v);
+        },
+        decode: (s) => {
+            const n = Number(s);
+            if (Number.isNaN(n)) throw new CodecError("not a number");
+            return n;
+        },
+    };
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    it("error is undefined on the nominal path", () => {
+        const { result } = renderHook(storage, "ns", () => useMnemonicKey("count", { defaultValue: 0 }));
+        expect(result.current.error).toBeUndefined();
+    });
+
+    it("exposes read errors and reports them once via onError", () => {
+        const onError = vi.fn();
+        storage.store.set("ns.count", env("corrupt"));
+        const { result, rerender } = renderHook(storage, "ns", () =>
+            useMnemonicKey("count", { defaultValue: 0, codec: ThrowingCodec, onError: (e) => onError(e) }),
+        );
+        expect(result.current.value).toBe(0);
+        expect(result.current.error).toBeInstanceOf(CodecError);
+        expect(onError).toHaveBeenCalledTimes(1);
+        rerender();
+        expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports a read error once when an inline onError sets state", () => {
+        storage.store.set("ns.count", env("corrupt"));
+        const onError = vi.fn();
+        let renders = 0;
+        function TestComponent() {
+            const [, setFailures] = useState(0);
+            renders++;
+            useMnemonicKey("count", {
+                defaultValue: () => 0,
+                codec: { encode: ThrowingCodec.encode, decode: ThrowingCodec.decode },
+                onError: (e) => {
+                    onError(e);
+                    setFailures((n) => n + 1);
+                },
+            });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <TestComponent />
+            </MnemonicProvider>,
+        );
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(renders).toBeLessThan(5);
+    });
+
+    it("reports a read error to the provider-level onError once for all hooks on the key", () => {
+        storage.store.set("ns.count", env("corrupt"));
+        const providerOnError = vi.fn();
+        const hookOnError = vi.fn();
+        function Reader() {
+            useMnemonicKey("count", { defaultValue: 0, codec: ThrowingCodec, onError: hookOnError });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} onError={providerOnError}>
+                <Reader />
+                <Reader />
+                <Reader />
+            </MnemonicProvider>,
+        );
+        expect(providerOnError).toHaveBeenCalledTimes(1);
+        expect(hookOnError).toHaveBeenCalledTimes(3);
+    });
+
+    it("exposes write errors and clears them after a successful write", () => {
+        const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+        const onError = vi.fn();
+        const { result } = renderHook(storage, "ns", () =>
+            useMnemonicKey("count", { defaultValue: 0, codec: ThrowingCodec, onError }),
+        );
+        act(() => {
+            result.current.set(-1);
+        });
+        expect(result.current.error).toBeInstanceOf(CodecError);
+        expect(onError).toHaveBeenCalledWith(expect.any(CodecError));
+        expect(result.current.value).toBe(0);
+
+        act(() => {
+            result.current.set(3);
+        });
+        expect(result.current.error).toBeUndefined();
+        expect(result.current.value).toBe(3);
+        errorSpy.mockRestore();
+    });
+
+    it("reports reset failures", () => {
+        const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+        const { result } = renderHook(storage, "ns", () =>
+            useMnemonicKey("count", { defaultValue: -5, codec: ThrowingCodec }),
+        );
+        act(() => {
+            result.current.reset();
+        });
+        expect(result.current.error).toBeInstanceOf(CodecError);
+        errorSpy.mockRestore();
+    });
+
+    it("forwards errors to the provider-level onError with the key", () => {
+        const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+        const providerOnError = vi.fn();
+        storage.store.set("ns.count", env("corrupt"));
+        const resultRef: { current: ReturnType<typeof useMnemonicKey<number>> | undefined } = { current: undefined };
+        function TestComponent() {
+            resultRef.current = useMnemonicKey("count", { defaultValue: 0, codec: ThrowingCodec });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} onError={providerOnError}>
+                <TestComponent />
+            </MnemonicProvider>,
+        );
+        expect(providerOnError).toHaveBeenCalledWith(expect.any(CodecError), "count");
+
+        act(() => {
+            resultRef.current!.set(-1);
+        });
+        expect(providerOnError).toHaveBeenCalledTimes(2);
+        expect(providerOnError).toHaveBeenLastCalledWith(expect.any(CodecError), "count");
+        errorSpy.mockRestore();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Async storage hydration
+// ---------------------------------------------------------------------------
+
+describe("useMnemonicKey – async storage", () => {
+    function createAsyncStorage(initial: Record<string, string> = {}) {
+        const store = new Map(Object.entries(initial));
+        let release: () => void = () => {};
+        const gate = new Promise<void>((resolve) => {
+            release = resolve;
+        });
+        const storage: AsyncStorageLike = {
+            getItem: async (key) => {
+                await gate;
+                return store.get(key) ?? null;
+            },
+            setItem: async (key, value) => {
+                store.set(key, value);
+            },
+            removeItem: async (key) => {
+                store.delete(key);
+            },
+        };
+        return { storage, store, release };
+    }
+
+    it("reports loading status and the default until hydrated", async () => {
+        const { storage, release } = createAsyncStorage({ "ns.count": env("5") });
+        const onMount = vi.fn();
+        const resultRef: { current: { value: number; status: string } | undefined } = { current: undefined };
+        function TestComponent() {
+            resultRef.current = useMnemonicKey("count", { defaultValue: 0, onMount });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <TestComponent />
+            </MnemonicProvider>,
+        );
+        expect(resultRef.current).toMatchObject({ value: 0, status: "loading" });
+        expect(onMount).not.toHaveBeenCalled();
+
+        await act(async () => {
+            release();
+        });
+        expect(resultRef.current).toMatchObject({ value: 5, status: "ready" });
+        expect(onMount).toHaveBeenCalledTimes(1);
+        expect(onMount).toHaveBeenCalledWith(5);
+    });
+
+    it("becomes ready when the key is absent", async () => {
+        const { storage, release } = createAsyncStorage();
+        const resultRef: { current: { value: string; status: string } | undefined } = { current: undefined };
+        function TestComponent() {
+            resultRef.current = useMnemonicKey("name", { defaultValue: "anon" });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <TestComponent />
+            </MnemonicProvider>,
+        );
+        expect(resultRef.current?.status).toBe("loading");
+        await act(async () => {
+            release();
+        });
+        expect(resultRef.current).toMatchObject({ value: "anon", status: "ready" });
+    });
+
+    it("suspends until hydrated when suspense is enabled", async () => {
+        const { storage, store, release } = createAsyncStorage({ "ns.name": env('"Ada"') });
+        function TestComponent() {
+            const { value, set } = useMnemonicKey("name", { defaultValue: "anon", suspense: true });
+            return (
+                <button data-testid="name" onClick={() => set("Grace")}>
+                    {value}
+                </button>
+            );
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Suspense fallback={<div data-testid="fallback">loading</div>}>
+                    <TestComponent />
+                </Suspense>
+            </MnemonicProvider>,
+        );
+        expect(screen.getByTestId("fallback")).toBeDefined();
+
+        await act(async () => {
+            release();
+        });
+        expect(screen.getByTestId("name").textContent).toBe("Ada");
+
+        await act(async () => {
+            screen.getByTestId("name").click();
+        });
+        expect(screen.getByTestId("name").textContent).toBe("Grace");
+        expect(store.get("ns.name")).toBe(env('"Grace"'));
+    });
+
+    it("synchronous storage is always ready", () => {
+        const storage = createMockStorage();
+        const { result } = renderHook(storage, "ns", () =>
+            useMnemonicKey("count", { defaultValue: 0, suspense: true }),
+        );
+        expect(result.current.status).toBe("ready");
+    });
+});
+
+describe("useMnemonicKey – shared decoding", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    it("decodes once per change for all hooks sharing a codec", () => {
+        const decode = vi.fn((s: string) => Number(s));
+        const codec = createCodec<number>(String, decode);
+        storage.store.set("ns.count", env("1"));
+        const setters: ((n: number) => void)[] = [];
+        function Probe() {
+            setters[0] = useMnemonicKey("count", { defaultValue: 0, codec }).set;
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+                <Probe />
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(decode).toHaveBeenCalledTimes(1);
+
+        act(() => setters[0]!(2));
+        expect(decode).toHaveBeenCalledTimes(2);
+        expect(decode).toHaveBeenLastCalledWith("2");
+    });
+
+    it("decodes separately for hooks with different codecs", () => {
+        storage.store.set("ns.n", env("7"));
+        const values: unknown[] = [];
+        function Probe() {
+            values[0] = useMnemonicKey("n", { defaultValue: 0, codec: createCodec<number>(String, Number) }).value;
+            values[1] = useMnemonicKey("n", {
+                defaultValue: "",
+                codec: createCodec<string>(
+                    (s) => s,
+                    (s) => `#${s}`,
+                ),
+            }).value;
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(values).toEqual([7, "#7"]);
+    });
+
+    it("migrates and rewrites an outdated value exactly once", () => {
+        const migrate = vi.fn((v: unknown) => ({ ...(v as object), migrated: true }));
+        const registry = createSchemaRegistry({
+            schemas: [
+                { key: "user", version: 1, schema: { type: "object" } },
+                { key: "user", version: 2, schema: { type: "object", required: ["migrated"] } },
+            ],
+            migrations: [{ key: "user", fromVersion: 1, toVersion: 2, migrate }],
+        });
+        storage.store.set("ns.user", JSON.stringify({ version: 1, payload: { name: "Ada" } }));
+        const setItem = vi.spyOn(storage, "setItem");
+        const values: unknown[] = [];
+        function Probe({ index }: { index: number }) {
+            values[index] = useMnemonicKey("user", { defaultValue: {} }).value;
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                <Probe index={0} />
+                <Probe index={1} />
+                <Probe index={2} />
+            </MnemonicProvider>,
+        );
+
+        expect(migrate).toHaveBeenCalledTimes(1);
+        expect(setItem).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(storage.store.get("ns.user")!)).toEqual({
+            version: 2,
+            payload: { name: "Ada", migrated: true },
+        });
+        expect(values).toEqual([
+            { name: "Ada", migrated: true },
+            { name: "Ada", migrated: true },
+            { name: "Ada", migrated: true },
+        ]);
+    });
+});
+
+describe("useMnemonicTransaction", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+    });
+
+    function renderCheckout() {
+        const registry = createSchemaRegistry({
+            schemas: [
+                { key: "cart", version: 1, schema: { type: "array", items: { type: "string" } } },
+                { key: "coupon", version: 1, schema: { type: "string", minLength: 4 } },
+            ],
+        });
+        const seen: [string[], string][] = [];
+        const hooks: {
+            cart?: ReturnType<typeof useMnemonicKey<string[]>>;
+            coupon?: ReturnType<typeof useMnemonicKey<string>>;
+            transaction?: ReturnType<typeof useMnemonicTransaction>;
+        } = {};
+        function Checkout() {
+            hooks.cart = useMnemonicKey<string[]>("cart", { defaultValue: [] });
+            hooks.coupon = useMnemonicKey("coupon", { defaultValue: "NONE" });
+            hooks.transaction = useMnemonicTransaction();
+            seen.push([hooks.cart.value, hooks.coupon.value]);
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                <Checkout />
+            </MnemonicProvider>,
+        );
+        return { hooks: hooks as Required<typeof hooks>, seen };
+    }
+
+    it("commits several keys together without intermediate renders", () => {
+        const { hooks, seen } = renderCheckout();
+        seen.length = 0;
+
+        act(() => {
+            hooks.transaction(() => {
+                hooks.cart.set(["book"]);
+                hooks.coupon.set("SAVE10");
+            });
+        });
+
+        expect(seen).toEqual([[["book"], "SAVE10"]]);
+        expect(JSON.parse(storage.store.get("ns.cart")!).payload).toEqual(["book"]);
+        expect(JSON.parse(storage.store.get("ns.coupon")!).payload).toBe("SAVE10");
+    });
+
+    it("sees staged values in updater functions", () => {
+        const { hooks } = renderCheckout();
+
+        act(() => {
+            hooks.transaction(() => {
+                hooks.cart.set(["a"]);
+                hooks.cart.set((items) => [...items, "b"]);
+            });
+        });
+        expect(hooks.cart.value).toEqual(["a", "b"]);
+    });
+
+    it("rolls back every key when a value fails validation", () => {
+        const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+        const { hooks, seen } = renderCheckout();
+        seen.length = 0;
+
+        let thrown: unknown;
+        act(() => {
+            try {
+                hooks.transaction(() => {
+                    hooks.cart.set(["book"]);
+                    hooks.coupon.set("X");
+                });
+            } catch (err) {
+                thrown = err;
+            }
+        });
+
+        expect(thrown).toBeInstanceOf(SchemaError);
+        expect(hooks.cart.value).toEqual([]);
+        expect(hooks.coupon.value).toBe("NONE");
+        expect(hooks.coupon.error).toBeInstanceOf(SchemaError);
+        expect(storage.store.has("ns.cart")).toBe(false);
+        expect(storage.store.has("ns.coupon")).toBe(false);
+        expect(seen.every(([cart]) => cart.length === 0)).toBe(true);
+        errorSpy.mockRestore();
+    });
+
+    it("returns the callback's result", () => {
+        const { hooks } = renderCheckout();
+        let result: number | undefined;
+        act(() => {
+            result = hooks.transaction(() => {
+                hooks.coupon.remove();
+                return 42;
+            });
+        });
+        expect(result).toBe(42);
+    });
+});
+
+describe("useMnemonicKey – writeDelay", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+
+    beforeEach(() => {
+        storage = createMockStorage();
+        vi.useFakeTimers({ now: 0 });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("updates the value immediately and persists after the delay", () => {
+        const { result } = renderHook(storage, "ns", () =>
+            useMnemonicKey("draft", { defaultValue: "", writeDelay: 200 }),
+        );
+        act(() => result.current.set("a"));
+        act(() => result.current.set("ab"));
+        expect(result.current.value).toBe("ab");
+        expect(storage.store.has("ns.draft")).toBe(false);
+
+        act(() => vi.advanceTimersByTime(200));
+        expect(storage.store.get("ns.draft")).toBe(env('"ab"'));
+    });
+
+    it("throttles with writeMode: 'throttle'", () => {
+        const { result } = renderHook(storage, "ns", () =>
+            useMnemonicKey("width", { defaultValue: 0, writeDelay: 100, writeMode: "throttle" }),
+        );
+        act(() => result.current.set(1));
+        expect(storage.store.get("ns.width")).toBe(env("1"));
+        act(() => result.current.set(2));
+        expect(storage.store.get("ns.width")).toBe(env("1"));
+
+        act(() => vi.advanceTimersByTime(100));
+        expect(storage.store.get("ns.width")).toBe(env("2"));
+    });
+
+    it("remove() discards a pending write", () => {
+        const { result } = renderHook(storage, "ns", () =>
+            useMnemonicKey("draft", { defaultValue: "", writeDelay: 200 }),
+        );
+        act(() => result.current.set("a"));
+        act(() => result.current.remove());
+        act(() => vi.advanceTimersByTime(200));
+        expect(storage.store.has("ns.draft")).toBe(false);
+        expect(result.current.value).toBe("");
+    });
+});
+
+describe("useMnemonicKey – expiry", () => {
+    let storage: ReturnType<typeof createMockStorage>;
+    const NOW = Date.UTC(2026, 0, 1);
+
+    beforeEach(() => {
+        storage = createMockStorage();
+        vi.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("records expiresAt from ttl on write", () => {
+        const { result } = renderHook(storage, "ns", () => useMnemonicKey("draft", { defaultValue: "", ttl: 1000 }));
+        act(() => {
+            result.current.set("hello");
+        });
+        expect(JSON.parse(storage.store.get("ns.draft")!)).toEqual({
+            version: 0,
+            payload: JSON.stringify("hello"),
+            expiresAt: NOW + 1000,
+        });
+    });
+
+    it("records a fixed expiresAt and prefers it over ttl", () => {
+        const expiresAt = new Date(NOW + 5000);
+        const { result } = renderHook(storage, "ns", () =>
+            useMnemonicKey("banner", { defaultValue: false, ttl: 1000, expiresAt }),
+        );
+        act(() => {
+            result.current.set(true);
+        });
+        expect(JSON.parse(storage.store.get("ns.banner")!).expiresAt).toBe(NOW + 5000);
+    });
+
+    it("omits expiresAt when no expiry option is set", () => {
+        const { result } = renderHook(storage, "ns", () => useMnemonicKey("count", { defaultValue: 0 }));
+        act(() => {
+            result.current.set(1);
+        });
+        expect(JSON.parse(storage.store.get("ns.count")!)).not.toHaveProperty("expiresAt");
+    });
+
+    it("treats an expired value as missing and removes it", () => {
+        storage.store.set("ns.draft", JSON.stringify({ version: 0, payload: '"old"', expiresAt: NOW - 1 }));
+        const { result } = renderHook(storage, "ns", () => useMnemonicKey("draft", { defaultValue: "empty" }));
+        expect(result.current.value).toBe("empty");
+        expect(result.current.error).toBeUndefined();
+
+        act(() => {
+            vi.advanceTimersByTime(0);
+        });
+        expect(storage.store.has("ns.draft")).toBe(false);
+    });
+
+    it("returns the value until it expires, then falls back to the default", () => {
+        const onChange = vi.fn();
+        const { result } = renderHook(storage, "ns", () =>
+            useMnemonicKey("draft", { defaultValue: "", ttl: 1000, onChange }),
+        );
+        act(() => {
+            result.current.set("hello");
+        });
+        act(() => {
+            vi.advanceTimersByTime(999);
+        });
+        expect(result.current.value).toBe("hello");
+
+        act(() => {
+            vi.advanceTimersByTime(1);
+        });
+        expect(result.current.value).toBe("");
+        expect(storage.store.has("ns.draft")).toBe(false);
+        expect(onChange).toHaveBeenLastCalledWith("", "hello");
+    });
+
+    it("extends the expiry on every write", () => {
+        const { result } = renderHook(storage, "ns", () => useMnemonicKey("draft", { defaultValue: "", ttl: 1000 }));
+        act(() => {
+            result.current.set("a");
+        });
+        act(() => {
+            vi.advanceTimersByTime(800);
+        });
+        act(() => {
+            result.current.set("b");
+        });
+        act(() => {
+            vi.advanceTimersByTime(800);
+        });
+        expect(result.current.value).toBe("b");
+    });
+
+    it("rejects envelopes with a non-numeric expiresAt", () => {
+        storage.store.set("ns.draft", JSON.stringify({ version: 0, payload: '"x"', expiresAt: "tomorrow" }));
+        const { result } = renderHook(storage, "ns", () => useMnemonicKey("draft", { defaultValue: "" }));
+        expect(result.current.error).toBeInstanceOf(SchemaError);
+        expect((result.current.error as SchemaError).code).toBe("INVALID_ENVELOPE");
+    });
+
+    it("keeps expiresAt when a migration rewrites the value", () => {
+        storage.store.set("ns.user", JSON.stringify({ version: 1, payload: { name: "Ada" }, expiresAt: NOW + 1000 }));
+        const registry = {
+            getSchema: (_key: string, version: number) =>
+                version === 1 || version === 2 ? { key: "user", version, schema: {} } : undefined,
+            getLatestSchema: () => ({ key: "user", version: 2, schema: {} }),
+            getMigrationPath: () => [
+                {
+                    key: "user",
+                    fromVersion: 1,
+                    toVersion: 2,
+                    migrate: (v: unknown) => ({ ...(v as object), v2: true }),
+                },
+            ],
+        };
+        function Probe() {
+            useMnemonicKey("user", { defaultValue: {} });
+            return null;
+        }
+        render(
+            <MnemonicProvider namespace="ns" storage={storage} schemaRegistry={registry}>
+                <Probe />
+            </MnemonicProvider>,
+        );
+        expect(JSON.parse(storage.store.get("ns.user")!)).toEqual({
+            version: 2,
+            payload: { name: "Ada", v2: true },
+            expiresAt: NOW + 1000,
+        });
+    });
+});
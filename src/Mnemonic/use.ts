@@ -9,14 +9,88 @@
  * encoding/decoding, and JSON Schema validation.
  */
 
-import { useSyncExternalStore, useMemo, useEffect, useRef, useCallback } from "react";
+import { useSyncExternalStore, useMemo, useEffect, useRef, useCallback, useState } from "react";
 import { useMnemonic } from "./provider";
 import { JSONCodec, CodecError } from "./codecs";
 import { SchemaError, type MnemonicEnvelope } from "./schema";
-import { validateJsonSchema, inferJsonSchema } from "./json-schema";
-import type { JsonSchema } from "./json-schema";
-import type { UseMnemonicKeyOptions, KeySchema, MigrationPath } from "./types";
+import {
+    createSchemaLookup,
+    evolveSchema,
+    readErrorSignature,
+    readOutcome,
+    registerEvolvedSchema,
+    validateAgainstSchema,
+} from "./decode";
+import { isStandardSchema } from "./standard-schema";
+import { resolveMnemonicKey } from "./key-definition";
+import type {
+    UseMnemonicKeyOptions,
+    KeySchema,
+    MnemonicKeyDescriptor,
+    MnemonicRegisteredValue,
+    RegisteredKey,
+    UnregisteredKey,
+} from "./types";
 
+/**
+ * Largest delay `setTimeout` accepts. Expiry timers further out are not
+ * scheduled; the value is still treated as missing when it is next read.
+ */
+const MAX_TIMEOUT_DELAY = 2_147_483_647;
+
+/**
+ * Value returned by {@link useMnemonicKey}.
+ */
+type MnemonicKeyResult<T> = ReturnType<typeof useMnemonicKeyState<T>>["result"];
+
+/**
+ * React hook for persistent, type-safe state management, configured by a
+ * key descriptor from `defineMnemonicKey`.
+ *
+ * @template T - The TypeScript type of the stored value
+ *
+ * @param descriptor - Key and options shared by every hook using the key
+ * @param overrides - Options for this hook only, applied over the descriptor's
+ *
+ * @returns Object with the current value and methods to update it
+ *
+ * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @example
+ * ```tsx
+ * const themeKey = defineMnemonicKey({ key: "theme", defaultValue: "light" as "light" | "dark" });
+ *
+ * const { value, set } = useMnemonicKey(themeKey);
+ * ```
+ *
+ * @see {@link defineMnemonicKey} - Creating descriptors
+ */
+export function useMnemonicKey<T>(
+    descriptor: MnemonicKeyDescriptor<T>,
+    overrides?: Partial<UseMnemonicKeyOptions<T>>,
+): MnemonicKeyResult<T>;
+/**
+ * React hook for persistent, type-safe state management of a key in the
+ * schema registry registered on `MnemonicRegister`.
+ *
+ * The value type is inferred from the key's latest JSON Schema, so
+ * `defaultValue` and `set` are checked against the schema.
+ *
+ * @template K - A key of the registered schema registry
+ *
+ * @param key - The storage key (unprefixed, namespace is applied automatically)
+ * @param options - Configuration options controlling persistence, encoding, and behavior
+ *
+ * @returns Object with the current value and methods to update it
+ *
+ * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @see {@link MnemonicRegister} - Registering a schema registry for inference
+ */
+export function useMnemonicKey<const K>(
+    key: RegisteredKey<K>,
+    options: UseMnemonicKeyOptions<MnemonicRegisteredValue<K>>,
+): MnemonicKeyResult<MnemonicRegisteredValue<K>>;
 /**
  * React hook for persistent, type-safe state management.
  *
@@ -28,6 +102,8 @@ import type { UseMnemonicKeyOptions, KeySchema, MigrationPath } from "./types";
  * internally for efficient, tearing-free state synchronization.
  *
  * @template T - The TypeScript type of the stored value
+ * @template K - The storage key, inferred. Keys of a registered schema
+ *   registry are rejected unless `T` is given explicitly.
  *
  * @param key - The storage key (unprefixed, namespace is applied automatically)
  * @param options - Configuration options controlling persistence, encoding, and behavior
@@ -35,11 +111,48 @@ import type { UseMnemonicKeyOptions, KeySchema, MigrationPath } from "./types";
  * @returns Object with the current value and methods to update it
  *
  * @throws {Error} If used outside of a MnemonicProvider
+ *
+ * @see {@link defineMnemonicKey} - Sharing a key's options across components
+ */
+export function useMnemonicKey<T, K extends string = string>(
+    key: UnregisteredKey<K>,
+    options: UseMnemonicKeyOptions<T>,
+): MnemonicKeyResult<T>;
+export function useMnemonicKey<T>(
+    keyOrDescriptor: string | MnemonicKeyDescriptor<T>,
+    options?: Partial<UseMnemonicKeyOptions<T>>,
+): MnemonicKeyResult<T> {
+    const resolved = resolveMnemonicKey(keyOrDescriptor, options);
+    return useMnemonicKeyState(resolved.key, resolved.options).result;
+}
+
+/**
+ * Implementation of {@link useMnemonicKey}.
+ *
+ * Besides the public hook result, returns schema-aware `decode` and `write`
+ * helpers so hooks built on top of a key (such as `useMnemonicHistory`)
+ * read and write through the same codec, validation, and migration paths.
+ *
+ * @internal
  */
-export function useMnemonicKey<T>(key: string, options: UseMnemonicKeyOptions<T>) {
+export function useMnemonicKeyState<T>(key: string, options: UseMnemonicKeyOptions<T>) {
     const api = useMnemonic();
 
-    const { defaultValue, onMount, onChange, listenCrossTab, codec: codecOpt, schema } = options;
+    const {
+        defaultValue,
+        onMount,
+        onChange,
+        onError,
+        listenCrossTab,
+        suspense,
+        writeDelay = 0,
+        writeMode = "debounce",
+        ttl,
+        expiresAt: expiresAtOpt,
+        codec: codecOpt,
+        schema,
+    } = options;
+    const fixedExpiresAt = expiresAtOpt instanceof Date ? expiresAtOpt.getTime() : expiresAtOpt;
     const codec = codecOpt ?? JSONCodec;
     const schemaMode = api.schemaMode;
     const schemaRegistry = api.schemaRegistry;
@@ -56,280 +169,63 @@ export function useMnemonicKey<T>(key: string, options: UseMnemonicKeyOptions<T>
         [defaultValue],
     );
 
-    const parseEnvelope = useCallback(
-        (rawText: string): { ok: true; envelope: MnemonicEnvelope } | { ok: false; error: SchemaError } => {
-            try {
-                const parsed = JSON.parse(rawText) as MnemonicEnvelope;
-                if (
-                    typeof parsed !== "object" ||
-                    parsed == null ||
-                    !Number.isInteger(parsed.version) ||
-                    parsed.version < 0 ||
-                    !Object.prototype.hasOwnProperty.call(parsed, "payload")
-                ) {
-                    return {
-                        ok: false,
-                        error: new SchemaError("INVALID_ENVELOPE", `Invalid envelope for key "${key}"`),
-                    };
-                }
-                return { ok: true, envelope: parsed };
-            } catch (err) {
-                return {
-                    ok: false,
-                    error: new SchemaError("INVALID_ENVELOPE", `Invalid envelope for key "${key}"`, err),
-                };
-            }
-        },
-        [key],
-    );
-
     /**
-     * Decode a string payload using a codec (for codec-managed / no-schema keys).
+     * Helper to build a read result that falls back to the default value,
+     * keeping the error so it can be surfaced to the caller.
      */
-    const decodeStringPayload = useCallback(
-        <V>(payload: unknown, activeCodec: { decode: (encoded: string) => V }) => {
-            if (typeof payload !== "string") {
-                throw new SchemaError(
-                    "INVALID_ENVELOPE",
-                    `Envelope payload must be a string for codec-managed key "${key}"`,
-                );
-            }
-            try {
-                return activeCodec.decode(payload);
-            } catch (err) {
-                throw err instanceof CodecError ? err : new CodecError(`Codec decode failed for key "${key}"`, err);
-            }
-        },
-        [key],
+    const fallbackFor = useCallback(
+        (error: CodecError | SchemaError): { value: T; error: CodecError | SchemaError } => ({
+            value: getFallback(error),
+            error,
+        }),
+        [getFallback],
     );
 
-    /**
-     * Validate a value against a JSON Schema, throwing SchemaError on failure.
-     */
-    const validateAgainstSchema = useCallback(
-        (value: unknown, jsonSchema: JsonSchema): void => {
-            const errors = validateJsonSchema(value, jsonSchema);
-            if (errors.length > 0) {
-                const message = errors.map((e) => `${e.path || "/"}: ${e.message}`).join("; ");
-                throw new SchemaError("TYPE_MISMATCH", `Schema validation failed for key "${key}": ${message}`);
-            }
-        },
-        [key],
-    );
-
-    const registryCache = useMemo(() => {
-        if (!schemaRegistry || schemaMode === "autoschema") return null;
-        return {
-            latestSchema: undefined as KeySchema | undefined,
-            latestSchemaSet: false,
-            schemaByVersion: new Map<number, KeySchema | undefined>(),
-            migrationPaths: new Map<string, MigrationPath | null>(),
-        };
-    }, [schemaRegistry, schemaMode, key]);
-
-    const getSchemaForVersion = useCallback(
-        (version: number): KeySchema | undefined => {
-            if (!schemaRegistry) return undefined;
-            if (!registryCache) return schemaRegistry.getSchema(key, version);
-            if (registryCache.schemaByVersion.has(version)) {
-                return registryCache.schemaByVersion.get(version);
-            }
-            const s = schemaRegistry.getSchema(key, version);
-            registryCache.schemaByVersion.set(version, s);
-            return s;
-        },
-        [schemaRegistry, registryCache, key],
-    );
-
-    const getLatestSchemaForKey = useCallback((): KeySchema | undefined => {
-        if (!schemaRegistry) return undefined;
-        if (!registryCache) return schemaRegistry.getLatestSchema(key);
-        if (registryCache.latestSchemaSet) return registryCache.latestSchema;
-        const s = schemaRegistry.getLatestSchema(key);
-        registryCache.latestSchema = s;
-        registryCache.latestSchemaSet = true;
-        return s;
-    }, [schemaRegistry, registryCache, key]);
-
-    const getMigrationPathForKey = useCallback(
-        (fromVersion: number, toVersion: number): MigrationPath | null => {
-            if (!schemaRegistry) return null;
-            if (!registryCache) return schemaRegistry.getMigrationPath(key, fromVersion, toVersion) ?? null;
-            const cacheKey = `${fromVersion}->${toVersion}`;
-            if (registryCache.migrationPaths.has(cacheKey)) {
-                return registryCache.migrationPaths.get(cacheKey) ?? null;
-            }
-            const path = schemaRegistry.getMigrationPath(key, fromVersion, toVersion) ?? null;
-            registryCache.migrationPaths.set(cacheKey, path);
-            return path;
-        },
-        [schemaRegistry, registryCache, key],
+    const lookup = useMemo(
+        () => createSchemaLookup(key, schemaRegistry, schemaMode !== "autoschema"),
+        [key, schemaRegistry, schemaMode],
     );
 
+    /**
+     * Decode a raw stored string, applying the default value when the key is
+     * absent or fails to decode. Expired values read as missing and report
+     * their `expiresAt` so the hook can remove them from storage.
+     */
     const decodeForRead = useCallback(
-        (rawText: string | null): { value: T; rewriteRaw?: string; pendingSchema?: KeySchema } => {
-            if (rawText == null) return { value: getFallback() };
-
-            const parsed = parseEnvelope(rawText);
-            if (!parsed.ok) return { value: getFallback(parsed.error) };
-            const envelope = parsed.envelope;
-
-            const schemaForVersion = getSchemaForVersion(envelope.version);
-            const latestSchema = getLatestSchemaForKey();
-
-            // Strict mode always requires schema for the stored version.
-            if (schemaMode === "strict" && !schemaForVersion) {
-                return {
-                    value: getFallback(
-                        new SchemaError("SCHEMA_NOT_FOUND", `No schema for key "${key}" v${envelope.version}`),
-                    ),
-                };
-            }
-
-            // Autoschema only infers when no schema exists yet for this key.
-            if (schemaMode === "autoschema" && !schemaForVersion) {
-                if (latestSchema) {
-                    return {
-                        value: getFallback(
-                            new SchemaError("SCHEMA_NOT_FOUND", `No schema for key "${key}" v${envelope.version}`),
-                        ),
-                    };
-                }
-                if (!schemaRegistry || typeof schemaRegistry.registerSchema !== "function") {
-                    return {
-                        value: getFallback(
-                            new SchemaError(
-                                "MODE_CONFIGURATION_INVALID",
-                                `Autoschema mode requires schema registry registration for key "${key}"`,
-                            ),
-                        ),
-                    };
-                }
-                try {
-                    // Payload may be a codec string or already a JSON value (seeded data).
-                    const decoded =
-                        typeof envelope.payload === "string"
-                            ? decodeStringPayload<T>(envelope.payload, codec)
-                            : (envelope.payload as T);
-                    const inferredJsonSchema = inferJsonSchema(decoded);
-                    const inferred: KeySchema = {
-                        key,
-                        version: 1,
-                        schema: inferredJsonSchema,
-                    };
-                    // Rewrite as a schema-managed envelope (payload is JSON value directly)
-                    const rewriteEnvelope: MnemonicEnvelope = {
-                        version: inferred.version,
-                        payload: decoded,
-                    };
-                    return {
-                        value: decoded,
-                        pendingSchema: inferred,
-                        rewriteRaw: JSON.stringify(rewriteEnvelope),
-                    };
-                } catch (err) {
-                    const typedErr =
-                        err instanceof SchemaError || err instanceof CodecError
-                            ? err
-                            : new SchemaError("TYPE_MISMATCH", `Autoschema inference failed for key "${key}"`, err);
-                    return { value: getFallback(typedErr) };
-                }
-            }
-
-            // No schema found: default mode ignores version and uses hook codec.
-            if (!schemaForVersion) {
-                // If payload is already a non-string JSON value (e.g. seeded data,
-                // or previously schema-managed data whose schema was removed),
-                // return it directly without codec decoding.
-                if (typeof envelope.payload !== "string") {
-                    return { value: envelope.payload as T };
-                }
-                try {
-                    const decoded = decodeStringPayload<T>(envelope.payload, codec);
-                    return { value: decoded };
-                } catch (err) {
-                    const typedErr =
-                        err instanceof SchemaError || err instanceof CodecError
-                            ? err
-                            : new CodecError(`Codec decode failed for key "${key}"`, err);
-                    return { value: getFallback(typedErr) };
-                }
-            }
-
-            // Schema exists for stored version.
-            // Payload is a JSON value directly (no codec decoding needed).
-            let current: unknown;
-            try {
-                current = envelope.payload;
-                validateAgainstSchema(current, schemaForVersion.schema);
-            } catch (err) {
-                const typedErr =
-                    err instanceof SchemaError || err instanceof CodecError
-                        ? err
-                        : new SchemaError("TYPE_MISMATCH", `Schema decode failed for key "${key}"`, err);
-                return { value: getFallback(typedErr) };
-            }
-
-            // No migration needed.
-            if (!latestSchema || envelope.version >= latestSchema.version) {
-                return { value: current as T };
-            }
-
-            const path = getMigrationPathForKey(envelope.version, latestSchema.version);
-            if (!path) {
-                return {
-                    value: getFallback(
-                        new SchemaError(
-                            "MIGRATION_PATH_NOT_FOUND",
-                            `No migration path for key "${key}" from v${envelope.version} to v${latestSchema.version}`,
-                        ),
-                    ),
-                };
-            }
-
-            try {
-                let migrated = current;
-                for (const step of path) {
-                    migrated = step.migrate(migrated);
-                }
-                validateAgainstSchema(migrated, latestSchema.schema);
-                // Rewrite as schema-managed envelope (payload is JSON value)
-                const rewriteEnvelope: MnemonicEnvelope = {
-                    version: latestSchema.version,
-                    payload: migrated,
-                };
-                return {
-                    value: migrated as T,
-                    rewriteRaw: JSON.stringify(rewriteEnvelope),
-                };
-            } catch (err) {
-                const typedErr =
-                    err instanceof SchemaError || err instanceof CodecError
-                        ? err
-                        : new SchemaError("MIGRATION_FAILED", `Migration failed for key "${key}"`, err);
-                return { value: getFallback(typedErr) };
-            }
+        (
+            rawText: string | null,
+        ): {
+            value: T;
+            error?: CodecError | SchemaError;
+            rewriteRaw?: string;
+            pendingSchema?: KeySchema;
+            expiresAt?: number;
+        } => {
+            // The provider shares one decode per raw value among all hooks on the key.
+            const outcome = readOutcome(api.decode(key, rawText, codec), Date.now());
+            if (outcome.ok) return outcome;
+            const expiry = outcome.expiresAt !== undefined ? { expiresAt: outcome.expiresAt } : {};
+            return outcome.error ? { ...fallbackFor(outcome.error), ...expiry } : { value: getFallback(), ...expiry };
         },
-        [
-            codec,
-            decodeStringPayload,
-            getFallback,
-            key,
-            parseEnvelope,
-            schemaMode,
-            schemaRegistry,
-            getSchemaForVersion,
-            getLatestSchemaForKey,
-            getMigrationPathForKey,
-            validateAgainstSchema,
-        ],
+        [api, key, codec, fallbackFor, getFallback],
     );
 
+    /**
+     * Encode a value into a raw envelope. A value that evolves the key's
+     * autoschema also returns the new schema version, which is registered
+     * only once the write is stored. `keepExpiry` replaces the hook's expiry
+     * settings, for restoring a previously stored value.
+     */
     const encodeForWrite = useCallback(
-        (nextValue: T): string => {
+        (nextValue: T, keepExpiry?: { expiresAt?: number }): { raw: string; evolved?: KeySchema } => {
+            const expiresAt = keepExpiry
+                ? keepExpiry.expiresAt
+                : (fixedExpiresAt ?? (ttl !== undefined ? Date.now() + ttl : undefined));
+            const expiry = expiresAt !== undefined ? { expiresAt } : {};
+
             const explicitVersion = schema?.version;
-            const latestSchema = getLatestSchemaForKey();
-            const explicitSchema = explicitVersion !== undefined ? getSchemaForVersion(explicitVersion) : undefined;
+            const latestSchema = lookup.getLatestSchema();
+            const explicitSchema = explicitVersion !== undefined ? lookup.getSchema(explicitVersion) : undefined;
 
             let targetSchema = explicitSchema;
 
@@ -354,8 +250,9 @@ export function useMnemonicKey<T>(key: string, options: UseMnemonicKeyOptions<T>
                 const envelope: MnemonicEnvelope = {
                     version: 0,
                     payload: codec.encode(nextValue),
+                    ...expiry,
                 };
-                return JSON.stringify(envelope);
+                return { raw: JSON.stringify(envelope) };
             }
 
             // Schema exists: validate and apply write-time migration if available.
@@ -373,25 +270,43 @@ export function useMnemonicKey<T>(key: string, options: UseMnemonicKeyOptions<T>
                 }
             }
 
-            validateAgainstSchema(valueToStore, targetSchema.schema);
+            // Standard Schema validators may transform what they read, so they
+            // validate the stored JSON form rather than the decoded value.
+            if (isStandardSchema(targetSchema.schema) && valueToStore !== undefined) {
+                valueToStore = JSON.parse(JSON.stringify(valueToStore));
+            }
+
+            let evolved: KeySchema | undefined;
+            try {
+                validateAgainstSchema(key, valueToStore, targetSchema, schemaRegistry);
+            } catch (err) {
+                // Autoschema evolution turns a rejected write into a new schema version.
+                const autoschemaOptions = schemaMode === "autoschema" ? api.getAutoschemaOptions() : undefined;
+                const evolvable = targetSchema.schema;
+                if (
+                    !(err instanceof SchemaError) ||
+                    autoschemaOptions?.evolution === undefined ||
+                    explicitVersion !== undefined ||
+                    targetSchema !== latestSchema ||
+                    isStandardSchema(evolvable) ||
+                    !schemaRegistry
+                ) {
+                    throw err;
+                }
+                evolved = evolveSchema(key, valueToStore, { ...targetSchema, schema: evolvable }, autoschemaOptions);
+                validateAgainstSchema(key, valueToStore, evolved, schemaRegistry);
+                targetSchema = evolved;
+            }
 
             // Schema-managed envelope: payload is JSON value directly
             const envelope: MnemonicEnvelope = {
                 version: targetSchema.version,
                 payload: valueToStore,
+                ...expiry,
             };
-            return JSON.stringify(envelope);
+            return { raw: JSON.stringify(envelope), ...(evolved ? { evolved } : {}) };
         },
-        [
-            schema?.version,
-            key,
-            schemaMode,
-            codec,
-            schemaRegistry,
-            validateAgainstSchema,
-            getLatestSchemaForKey,
-            getSchemaForVersion,
-        ],
+        [api, schema?.version, fixedExpiresAt, ttl, key, schemaMode, codec, schemaRegistry, lookup],
     );
 
     /**
@@ -404,16 +319,110 @@ export function useMnemonicKey<T>(key: string, options: UseMnemonicKeyOptions<T>
         () => null, // SSR snapshot - no storage in server environment
     );
 
+    /**
+     * Track hydration separately so a key that loads as absent (raw stays
+     * null) still re-renders when it becomes ready.
+     */
+    const hydrated = useSyncExternalStore(
+        (listener) => api.subscribeRaw(key, listener),
+        () => api.isHydrated(key),
+        () => true,
+    );
+
+    if (suspense && !hydrated) {
+        throw api.whenHydrated(key);
+    }
+
     const decoded = useMemo(() => decodeForRead(raw), [decodeForRead, raw]);
     const value = decoded.value;
 
+    /**
+     * Last write failure, tagged with the raw snapshot it was raised against.
+     * Any later change to the stored value supersedes it.
+     */
+    const [writeError, setWriteError] = useState<{
+        error: CodecError | SchemaError | Error;
+        raw: string | null;
+    } | null>(null);
+    const error = writeError && writeError.raw === raw ? writeError.error : decoded.error;
+
+    /**
+     * Latest hook-level error callback. Kept in a ref so an inline `onError`
+     * does not re-trigger error reporting on every render.
+     */
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+
+    /**
+     * Forward an error to the hook-level and provider-level `onError` callbacks.
+     */
+    const reportError = useCallback(
+        (err: CodecError | SchemaError | Error) => {
+            onErrorRef.current?.(err);
+            api.reportError(err, key);
+        },
+        [api, key],
+    );
+
+    /**
+     * Raw value and signature of the last read error reported. Decoding again
+     * (an inline `defaultValue` or codec) yields a new but equal error, which
+     * must not be reported again.
+     */
+    const reportedReadErrorRef = useRef<{ raw: string | null; signature: string } | null>(null);
+
+    // Report read-time decode, validation, and migration failures once per raw value.
+    useEffect(() => {
+        if (!decoded.error) {
+            reportedReadErrorRef.current = null;
+            return;
+        }
+        const signature = readErrorSignature(decoded.error);
+        const last = reportedReadErrorRef.current;
+        if (last && last.raw === raw && last.signature === signature) return;
+        reportedReadErrorRef.current = { raw, signature };
+        onErrorRef.current?.(decoded.error);
+        api.reportReadError(decoded.error, key, raw);
+    }, [api, key, raw, decoded.error]);
+
+    /**
+     * Log and record a failed write so it surfaces through `error` and `onError`.
+     */
+    const handleWriteError = useCallback(
+        (err: unknown) => {
+            if (err instanceof SchemaError) {
+                console.error(`[Mnemonic] Schema error for key "${key}" (${err.code}):`, err.message);
+            } else if (err instanceof CodecError) {
+                console.error(`[Mnemonic] Codec encode error for key "${key}":`, err.message);
+            } else {
+                console.error(`[Mnemonic] Failed to persist key "${key}":`, err);
+            }
+            const typedErr = err instanceof Error ? err : new Error(String(err));
+            setWriteError({ error: typedErr, raw: api.getRawSnapshot(key) });
+            reportError(typedErr);
+        },
+        [api, key, reportError],
+    );
+
     // Persist opportunistic read-time upgrades (migrations, autoschema rewrite).
     useEffect(() => {
-        if (decoded.rewriteRaw && decoded.rewriteRaw !== raw) {
-            api.setRaw(key, decoded.rewriteRaw);
+        if (raw !== null && decoded.rewriteRaw && decoded.rewriteRaw !== raw) {
+            api.applyRewrite(key, raw, decoded.rewriteRaw);
         }
     }, [api, decoded.rewriteRaw, key, raw]);
 
+    /**
+     * Remove the value from storage once it expires. Values that were
+     * already expired when read are removed right away.
+     */
+    useEffect(() => {
+        if (decoded.expiresAt === undefined) return;
+        const delay = decoded.expiresAt - Date.now();
+        if (delay > MAX_TIMEOUT_DELAY) return;
+        const timer = setTimeout(() => api.removeRaw(key), Math.max(0, delay));
+        return () => clearTimeout(timer);
+    }, [api, decoded.expiresAt, key]);
+
     // Register inferred schema for autoschema mode once read succeeds.
     useEffect(() => {
         if (!decoded.pendingSchema || !schemaRegistry?.registerSchema) return;
@@ -432,16 +441,17 @@ export function useMnemonicKey<T>(key: string, options: UseMnemonicKeyOptions<T>
 
     /**
      * Call onMount callback once when the hook first mounts.
-     * Receives the initial value loaded from storage.
+     * Receives the initial value loaded from storage. With an async
+     * backend this waits until the key has hydrated.
      */
     const mounted = useRef(false);
     useEffect(() => {
-        if (mounted.current) return;
+        if (mounted.current || !hydrated) return;
         mounted.current = true;
         onMount?.(value);
         prevRef.current = value;
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+    }, [hydrated]);
 
     /**
      * Call onChange callback whenever the decoded value changes.
@@ -456,90 +466,115 @@ export function useMnemonicKey<T>(key: string, options: UseMnemonicKeyOptions<T>
 
     /**
      * Optional cross-tab synchronization.
-     * Listens for storage events from other tabs and syncs changes
-     * into this tab's store cache.
+     * Opts this key in to the provider's shared storage event listener,
+     * which re-reads the key when another tab changes it.
      */
     useEffect(() => {
         if (!listenCrossTab) return;
-        if (typeof window === "undefined") return;
-
-        const storageKey = api.prefix + key;
+        return api.subscribeCrossTab(key);
+    }, [listenCrossTab, api, key]);
 
-        const handler = (e: StorageEvent) => {
-            // localStorage.clear() in another tab emits `key === null`.
-            if (e.key === null) {
-                api.removeRaw(key);
-                return;
-            }
-            if (e.key !== storageKey) return;
-            // Another tab removed the key:
-            if (e.newValue == null) {
-                api.removeRaw(key);
-                return;
+    /**
+     * Encode and persist a value, recording any failure as a write error.
+     *
+     * @param nextVal - The value to store
+     * @param keepExpiry - Expiry to store instead of the hook's `ttl` or `expiresAt`
+     * @returns True if the value was written
+     */
+    const write = useCallback(
+        (nextVal: T, keepExpiry?: { expiresAt?: number }): boolean => {
+            try {
+                const { raw: encoded, evolved } = encodeForWrite(nextVal, keepExpiry);
+                if (evolved && schemaRegistry) {
+                    // Written immediately through a batch, even outside a
+                    // transaction, so a storage failure throws here and the
+                    // evolved version is only registered once the value is stored.
+                    let registered = true;
+                    api.batch(() => {
+                        api.setRaw(key, encoded);
+                        api.afterCommit(() => {
+                            try {
+                                registerEvolvedSchema(evolved, evolved.version - 1, schemaRegistry);
+                            } catch (err) {
+                                registered = false;
+                                handleWriteError(err);
+                            }
+                        });
+                    });
+                    if (!registered) return false;
+                } else if (writeDelay > 0) {
+                    api.setRaw(key, encoded, { delay: writeDelay, mode: writeMode });
+                } else {
+                    api.setRaw(key, encoded);
+                }
+                setWriteError(null);
+                return true;
+            } catch (err) {
+                handleWriteError(err);
+                // Abort the surrounding transaction so none of its writes land.
+                if (api.inBatch()) throw err;
+                return false;
             }
-            api.setRaw(key, e.newValue);
-        };
+        },
+        [api, key, writeDelay, writeMode, encodeForWrite, handleWriteError, schemaRegistry],
+    );
 
-        window.addEventListener("storage", handler);
-        return () => window.removeEventListener("storage", handler);
-    }, [listenCrossTab, api, key]);
+    /**
+     * Decode a raw stored string to a value, falling back to the default.
+     */
+    const decode = useCallback((rawText: string | null): T => decodeForRead(rawText).value, [decodeForRead]);
+
+    /**
+     * Write a previously stored raw value back, keeping its expiry. A value
+     * that no longer decodes, or has expired, is recorded as an error and
+     * nothing is written.
+     *
+     * @returns True if the value was written
+     */
+    const restore = useCallback(
+        (rawText: string): boolean => {
+            const outcome = readOutcome(api.decode(key, rawText, codec), Date.now());
+            if (!outcome.ok) {
+                handleWriteError(outcome.error ?? new Error(`Stored value for key "${key}" has expired`));
+                return false;
+            }
+            return write(outcome.value, outcome.expiresAt !== undefined ? { expiresAt: outcome.expiresAt } : {});
+        },
+        [api, key, codec, handleWriteError, write],
+    );
 
     /**
      * Update function - supports both direct values and updater functions.
      */
     const set = useMemo(() => {
         return (next: T | ((cur: T) => T)) => {
-            const nextVal =
-                typeof next === "function" ? (next as (c: T) => T)(decodeForRead(api.getRawSnapshot(key)).value) : next;
-            try {
-                const encoded = encodeForWrite(nextVal);
-                api.setRaw(key, encoded);
-            } catch (err) {
-                if (err instanceof SchemaError) {
-                    console.error(`[Mnemonic] Schema error for key "${key}" (${err.code}):`, err.message);
-                    return;
-                }
-                if (err instanceof CodecError) {
-                    console.error(`[Mnemonic] Codec encode error for key "${key}":`, err.message);
-                    return;
-                }
-                console.error(`[Mnemonic] Failed to persist key "${key}":`, err);
-            }
+            const nextVal = typeof next === "function" ? (next as (c: T) => T)(decode(api.getRawSnapshot(key))) : next;
+            write(nextVal);
         };
         // Note: does not depend on `value` to avoid stale closures
-    }, [api, key, decodeForRead, encodeForWrite]);
+    }, [api, key, decode, write]);
 
     /**
      * Reset function - sets the value back to the default and persists it.
      */
     const reset = useMemo(() => {
         return () => {
-            const v = getFallback();
-            try {
-                const encoded = encodeForWrite(v);
-                api.setRaw(key, encoded);
-            } catch (err) {
-                if (err instanceof SchemaError) {
-                    console.error(`[Mnemonic] Schema error for key "${key}" (${err.code}):`, err.message);
-                    return;
-                }
-                if (err instanceof CodecError) {
-                    console.error(`[Mnemonic] Codec encode error for key "${key}":`, err.message);
-                }
-                return;
-            }
+            write(getFallback());
         };
-    }, [api, key, getFallback, encodeForWrite]);
+    }, [getFallback, write]);
 
     /**
      * Remove function - completely removes the key from storage.
      * Future reads will return the default value.
      */
     const remove = useMemo(() => {
-        return () => api.removeRaw(key);
+        return () => {
+            api.removeRaw(key);
+            setWriteError(null);
+        };
     }, [api, key]);
 
-    return useMemo(
+    const result = useMemo(
         () =>
             /** @see {@link UseMnemonicKeyOptions} for configuration details */
             ({
@@ -551,7 +586,13 @@ export function useMnemonicKey<T>(key: string, options: UseMnemonicKeyOptions<T>
                 reset,
                 /** Delete the key from storage entirely. */
                 remove,
+                /** Last read or write error for this key, or `undefined` when the last operation succeeded. */
+                error,
+                /** `"loading"` while the key hydrates from an async backend, otherwise `"ready"`. */
+                status: (hydrated ? "ready" : "loading") as "loading" | "ready",
             }),
-        [value, set, reset, remove],
+        [value, set, reset, remove, error, hydrated],
     );
+
+    return { result, decode, write, restore };
 }
@@ -5,14 +5,41 @@ import { describe, it, expect } from "vitest";
 import {
     MnemonicProvider,
     useMnemonicKey,
+    useMnemonicHistory,
+    useMnemonicSelector,
+    defineMnemonicKey,
+    useMnemonicFlush,
+    useMnemonicTransaction,
     JSONCodec,
     createCodec,
     CodecError,
     SchemaError,
+    createSchemaRegistry,
+    createIdbStorage,
+    withBroadcastSync,
     validateJsonSchema,
     compileSchema,
+    registerJsonSchemaFormat,
+    applyJsonSchemaDefaults,
+    checkSchemaCompatibility,
+} from "./index";
+import type {
+    Codec,
+    MnemonicProviderOptions,
+    AutoschemaOptions,
+    InferJsonSchemaOptions,
+    SchemaCompatibility,
+    SchemaChange,
+    SchemaChangeKind,
+    UseMnemonicKeyOptions,
+    JsonSchema,
+    CompiledValidator,
+    CompileSchemaOptions,
+    JsonSchemaFormatValidator,
+    FromJsonSchema,
+    KeySchema,
+    StandardSchemaV1,
 } from "./index";
-import type { Codec, MnemonicProviderOptions, UseMnemonicKeyOptions, JsonSchema, CompiledValidator } from "./index";
 
 describe("Public API exports", () => {
     it("exports MnemonicProvider", () => {
@@ -25,6 +52,31 @@ describe("Public API exports", () => {
         expect(typeof useMnemonicKey).toBe("function");
     });
 
+    it("exports useMnemonicHistory", () => {
+        expect(useMnemonicHistory).toBeDefined();
+        expect(typeof useMnemonicHistory).toBe("function");
+    });
+
+    it("exports useMnemonicSelector", () => {
+        expect(useMnemonicSelector).toBeDefined();
+        expect(typeof useMnemonicSelector).toBe("function");
+    });
+
+    it("exports defineMnemonicKey", () => {
+        expect(defineMnemonicKey).toBeDefined();
+        expect(typeof defineMnemonicKey).toBe("function");
+    });
+
+    it("exports useMnemonicFlush", () => {
+        expect(useMnemonicFlush).toBeDefined();
+        expect(typeof useMnemonicFlush).toBe("function");
+    });
+
+    it("exports useMnemonicTransaction", () => {
+        expect(useMnemonicTransaction).toBeDefined();
+        expect(typeof useMnemonicTransaction).toBe("function");
+    });
+
     it("exports JSONCodec", () => {
         expect(JSONCodec).toBeDefined();
         expect(typeof JSONCodec.encode).toBe("function");
@@ -48,6 +100,23 @@ describe("Public API exports", () => {
         expect(new SchemaError("TYPE_MISMATCH", "test")).toBeInstanceOf(Error);
     });
 
+    it("exports createSchemaRegistry", () => {
+        expect(createSchemaRegistry).toBeDefined();
+        expect(typeof createSchemaRegistry).toBe("function");
+        const registry = createSchemaRegistry({ schemas: [{ key: "k", version: 1, schema: {} }] });
+        expect(registry.getLatestSchema("k")?.version).toBe(1);
+    });
+
+    it("exports createIdbStorage", () => {
+        expect(createIdbStorage).toBeDefined();
+        expect(typeof createIdbStorage).toBe("function");
+    });
+
+    it("exports withBroadcastSync", () => {
+        expect(withBroadcastSync).toBeDefined();
+        expect(typeof withBroadcastSync).toBe("function");
+    });
+
     it("exports validateJsonSchema", () => {
         expect(validateJsonSchema).toBeDefined();
         expect(typeof validateJsonSchema).toBe("function");
@@ -64,11 +133,51 @@ describe("Public API exports", () => {
         expect(validate("x")).toHaveLength(1);
     });
 
+    it("exports registerJsonSchemaFormat", () => {
+        expect(typeof registerJsonSchemaFormat).toBe("function");
+    });
+
+    it("exports applyJsonSchemaDefaults", () => {
+        expect(applyJsonSchemaDefaults({}, { properties: { n: { default: 1 } } })).toEqual({ n: 1 });
+    });
+
+    it("exports checkSchemaCompatibility", () => {
+        expect(checkSchemaCompatibility({ type: "string" }, { type: ["string", "null"] }).backward).toBe(true);
+    });
+
+    it("type exports are usable (SchemaCompatibility, SchemaChange, SchemaChangeKind)", () => {
+        const kind: SchemaChangeKind = "type-narrowed";
+        const change: SchemaChange = { kind, path: "", keyword: "type", message: 'Type "null" is no longer accepted' };
+        const result: SchemaCompatibility = { backward: false, forward: true, breakingChanges: [change] };
+        expect(result.breakingChanges[0]?.kind).toBe("type-narrowed");
+    });
+
     it("type exports are usable (CompiledValidator)", () => {
         const validator: CompiledValidator = compileSchema({ type: "string" });
         expect(validator("hello")).toEqual([]);
     });
 
+    it("type exports are usable (JsonSchemaFormatValidator)", () => {
+        const isUpper: JsonSchemaFormatValidator = (value) => value === value.toUpperCase();
+        registerJsonSchemaFormat("index-upper", isUpper);
+        expect(validateJsonSchema("abc", { type: "string", format: "index-upper" })).toHaveLength(1);
+    });
+
+    it("type exports are usable (InferJsonSchemaOptions)", () => {
+        const inference: InferJsonSchemaOptions = { required: false, additionalProperties: false, integers: false };
+        expect(inference.integers).toBe(false);
+    });
+
+    it("type exports are usable (AutoschemaOptions)", () => {
+        const opts: AutoschemaOptions = { inference: { additionalProperties: false } };
+        expect(opts.inference?.additionalProperties).toBe(false);
+    });
+
+    it("type exports are usable (CompileSchemaOptions)", () => {
+        const options: CompileSchemaOptions = { resolveSchema: () => ({ type: "string" }) };
+        expect(compileSchema({ $ref: "name" }, options)("hello")).toEqual([]);
+    });
+
     it("type exports are usable (Codec)", () => {
         const myCodec: Codec<number> = {
             encode: (v) => String(v),
@@ -99,4 +208,22 @@ describe("Public API exports", () => {
         };
         expect(schema.type).toBe("object");
     });
+
+    it("type exports are usable (FromJsonSchema)", () => {
+        const schema = { type: "object", properties: { name: { type: "string" } }, required: ["name"] } as const;
+        const user: FromJsonSchema<typeof schema> = { name: "Ada" };
+        expect(user.name).toBe("Ada");
+    });
+
+    it("type exports are usable (StandardSchemaV1)", () => {
+        const positive: StandardSchemaV1<number> = {
+            "~standard": {
+                version: 1,
+                vendor: "test",
+                validate: (v) => (typeof v === "number" && v > 0 ? { value: v } : { issues: [{ message: "bad" }] }),
+            },
+        };
+        const keySchema: KeySchema = { key: "count", version: 1, schema: positive };
+        expect(keySchema.schema).toBe(positive);
+    });
 });
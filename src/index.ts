@@ -1,17 +1,67 @@
 // SPDX-License-Identifier: MIT
 // Copyright Scott Dixon
 
-export { MnemonicProvider, MnemonicProviderProps } from "./Mnemonic/provider";
+export { MnemonicProvider, MnemonicProviderProps, useMnemonicFlush, useMnemonicTransaction } from "./Mnemonic/provider";
 export { useMnemonicKey } from "./Mnemonic/use";
+export { useMnemonicHistory } from "./Mnemonic/history";
+export { useMnemonicSelector } from "./Mnemonic/selector";
+export { defineMnemonicKey } from "./Mnemonic/key-definition";
 export { JSONCodec, createCodec, CodecError } from "./Mnemonic/codecs";
 export { SchemaError } from "./Mnemonic/schema";
-export { validateJsonSchema, compileSchema } from "./Mnemonic/json-schema";
-export type { JsonSchema, JsonSchemaType, JsonSchemaValidationError, CompiledValidator } from "./Mnemonic/json-schema";
+export type { SchemaErrorDetails } from "./Mnemonic/schema";
+export { createSchemaRegistry } from "./Mnemonic/schema-registry";
+export { createIdbStorage } from "./Mnemonic/idb-storage";
+export type { IdbStorage, IdbStorageOptions, IdbFlushStatus } from "./Mnemonic/idb-storage";
+export { withBroadcastSync } from "./Mnemonic/broadcast-sync";
+export type { BroadcastSyncOptions, BroadcastSyncStorage } from "./Mnemonic/broadcast-sync";
+export type {
+    CreateSchemaRegistryOptions,
+    MnemonicSchemaRegistry,
+    SchemaRegistryKey,
+    SchemaRegistryValue,
+} from "./Mnemonic/schema-registry";
+export {
+    validateJsonSchema,
+    compileSchema,
+    registerJsonSchemaFormat,
+    applyJsonSchemaDefaults,
+    checkSchemaCompatibility,
+} from "./Mnemonic/json-schema";
+export type {
+    StandardSchemaV1,
+    StandardSchemaResult,
+    StandardSchemaIssue,
+    InferStandardSchemaOutput,
+} from "./Mnemonic/standard-schema";
+export type {
+    JsonSchema,
+    JsonSchemaType,
+    JsonSchemaValidationError,
+    CompiledValidator,
+    CompileSchemaOptions,
+    JsonSchemaFormatValidator,
+    InferJsonSchemaOptions,
+    SchemaChange,
+    SchemaChangeKind,
+    SchemaCompatibility,
+    FromJsonSchema,
+} from "./Mnemonic/json-schema";
 export type {
     Codec,
     MnemonicProviderOptions,
+    AutoschemaOptions,
     UseMnemonicKeyOptions,
+    UseMnemonicHistoryOptions,
+    UseMnemonicSelectorOptions,
+    MnemonicKeyDefinition,
+    MnemonicKeyDescriptor,
+    MnemonicKeyInput,
+    MnemonicRegister,
+    MnemonicRegisteredKey,
+    MnemonicRegisteredValue,
+    WriteMode,
     StorageLike,
+    AsyncStorageLike,
     SchemaMode,
     KeySchema,
     MigrationRule,
@@ -19,6 +19,12 @@ const sidebars: SidebarsConfig = {
                 "guides/custom-codecs",
                 "guides/custom-storage",
                 "guides/cross-tab-sync",
+                "guides/expiry",
+                "guides/undo-redo",
+                "guides/write-scheduling",
+                "guides/transactions",
+                "guides/selectors",
+                "guides/key-definitions",
                 "guides/devtools",
                 "guides/error-handling",
                 "guides/typescript",
@@ -15,6 +15,8 @@ export function ResizablePanel() {
     } = useMnemonicKey<number>("panel-width", {
         defaultValue: 300,
         listenCrossTab: true,
+        writeDelay: 100,
+        writeMode: "throttle",
     });
 
     const dragging = useRef(false);
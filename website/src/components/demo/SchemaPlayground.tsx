@@ -8,9 +8,17 @@ import {
     JSONCodec,
     CodecError,
     SchemaError,
+    createSchemaRegistry,
     validateJsonSchema,
 } from "react-mnemonic";
-import type { SchemaRegistry, KeySchema, MigrationRule, SchemaMode, JsonSchema } from "react-mnemonic";
+import type {
+    SchemaRegistry,
+    MnemonicSchemaRegistry,
+    KeySchema,
+    MigrationRule,
+    SchemaMode,
+    JsonSchema,
+} from "react-mnemonic";
 
 // ---------------------------------------------------------------------------
 // JSON Schema templates
@@ -34,51 +42,38 @@ const SCHEMA_TEMPLATES = [
 ] as const;
 
 // ---------------------------------------------------------------------------
-// Mutable schema registry
+// Schema registry
 // ---------------------------------------------------------------------------
 
-interface MutableRegistry extends SchemaRegistry {
-    _schemas: Map<string, KeySchema>;
-    _migrations: MigrationRule[];
+/**
+ * The library's registry, plus the entries registered on it so the
+ * playground can list them. `createSchemaRegistry` has no removal, so
+ * removing an entry rebuilds the registry from the remaining ones.
+ */
+interface PlaygroundRegistry extends MnemonicSchemaRegistry {
+    schemas: KeySchema[];
+    migrations: MigrationRule[];
 }
 
-function createMutableRegistry(): MutableRegistry {
-    const schemas = new Map<string, KeySchema>();
-    const migrations: MigrationRule[] = [];
+function createPlaygroundRegistry(
+    initialSchemas: KeySchema[] = [],
+    initialMigrations: MigrationRule[] = [],
+): PlaygroundRegistry {
+    const registry = createSchemaRegistry({ schemas: initialSchemas, migrations: initialMigrations });
+    const schemas = [...initialSchemas];
+    const migrations = [...initialMigrations];
 
     return {
-        _schemas: schemas,
-        _migrations: migrations,
-        getSchema(key, version) {
-            return schemas.get(`${key}:${version}`);
-        },
-        getLatestSchema(key) {
-            const candidates = Array.from(schemas.values()).filter((s) => s.key === key);
-            if (candidates.length === 0) return undefined;
-            return candidates.sort((a, b) => b.version - a.version)[0];
-        },
-        getMigrationPath(key, fromVersion, toVersion) {
-            const byKey = migrations.filter((r) => r.key === key);
-            const path: MigrationRule[] = [];
-            let cur = fromVersion;
-            while (cur < toVersion) {
-                const next = byKey.find((r) => r.fromVersion === cur && r.toVersion > cur);
-                if (!next) return null;
-                path.push(next);
-                cur = next.toVersion;
-            }
-            return path;
-        },
-        getWriteMigration(key, version) {
-            const byKey = migrations.filter((r) => r.key === key);
-            return byKey.find((r) => r.fromVersion === version && r.toVersion === version);
-        },
+        ...registry,
+        schemas,
+        migrations,
         registerSchema(schema) {
-            const id = `${schema.key}:${schema.version}`;
-            if (schemas.has(id)) {
-                throw new Error(`Schema already registered for ${id}`);
-            }
-            schemas.set(id, schema);
+            registry.registerSchema(schema);
+            if (!schemas.some((s) => s.key === schema.key && s.version === schema.version)) schemas.push(schema);
+        },
+        registerMigration(rule) {
+            registry.registerMigration(rule);
+            if (!migrations.includes(rule)) migrations.push(rule);
         },
     };
 }
@@ -110,7 +105,7 @@ type MigrationDisplay = { key: string; from: number; to: number };
 function preflightEncode(
     value: unknown,
     key: string,
-    registry: MutableRegistry,
+    registry: SchemaRegistry,
     schemaMode: SchemaMode,
     schemaVersion?: number,
 ): Error | null {
@@ -140,7 +135,9 @@ function preflightEncode(
         }
     }
 
-    const errors = validateJsonSchema(value, targetSchema.schema);
+    // The playground only registers JSON Schemas, typed in or inferred.
+    const jsonSchema = targetSchema.schema as JsonSchema;
+    const errors = validateJsonSchema(value, jsonSchema);
     if (errors.length > 0) {
         return new SchemaError(
             "TYPE_MISMATCH",
@@ -152,7 +149,7 @@ function preflightEncode(
     if (writeMigration) {
         try {
             const migrated = writeMigration.migrate(value);
-            const migratedErrors = validateJsonSchema(migrated, targetSchema.schema);
+            const migratedErrors = validateJsonSchema(migrated, jsonSchema);
             if (migratedErrors.length > 0) {
                 return new SchemaError(
                     "TYPE_MISMATCH",
@@ -206,7 +203,7 @@ function PlaygroundWorkbench({
     writeValue: string;
     onWriteValueChange: (v: string) => void;
     onResult: (decoded: unknown, error: Error | null) => void;
-    registry: MutableRegistry;
+    registry: SchemaRegistry;
     schemaMode: SchemaMode;
     schemaVersion: number | undefined;
     readTrigger: number;
@@ -302,7 +299,7 @@ function PlaygroundWorkbench({
 // ---------------------------------------------------------------------------
 
 export function SchemaPlayground() {
-    const [registry] = useState(() => createMutableRegistry());
+    const [registry, setRegistry] = useState(() => createPlaygroundRegistry());
     const [schemaMode, setSchemaMode] = useState<SchemaMode>("default");
     const [schemas, setSchemas] = useState<SchemaDisplay[]>([]);
     const [migrations, setMigrations] = useState<MigrationDisplay[]>([]);
@@ -347,8 +344,9 @@ export function SchemaPlayground() {
         try {
             const parsedSchema = JSON.parse(sSchemaText) as JsonSchema;
             const schema: KeySchema = { key: sKey, version: sVersion, schema: parsedSchema };
-            registry.registerSchema?.(schema);
-            setSchemas((prev) => [...prev, { key: sKey, version: sVersion, schema: parsedSchema }]);
+            const exists = registry.getSchema(sKey, sVersion) !== undefined;
+            registry.registerSchema(schema);
+            if (!exists) setSchemas((prev) => [...prev, { key: sKey, version: sVersion, schema: parsedSchema }]);
             addLog(`Registered schema ${sKey} v${sVersion}`, "success");
             setSSchemaError(null);
         } catch (err) {
@@ -383,7 +381,12 @@ export function SchemaPlayground() {
 
     const handleRemoveSchema = (key: string, version: number) => {
         const id = `${key}:${version}`;
-        registry._schemas.delete(id);
+        setRegistry(
+            createPlaygroundRegistry(
+                registry.schemas.filter((s) => !(s.key === key && s.version === version)),
+                registry.migrations,
+            ),
+        );
         setSchemas((prev) => prev.filter((s) => !(s.key === key && s.version === version)));
         addLog(`Removed schema ${id}`, "info");
     };
@@ -401,7 +404,7 @@ export function SchemaPlayground() {
                 toVersion: mTo,
                 migrate: migrateFn,
             };
-            registry._migrations.push(rule);
+            registry.registerMigration(rule);
             const label = mFrom === mTo ? `write-time normalizer v${mFrom}` : `v${mFrom} → v${mTo}`;
             setMigrations((prev) => [...prev, { key: mKey, from: mFrom, to: mTo }]);
             addLog(`Added migration ${mKey} ${label}`, "success");
@@ -413,10 +416,15 @@ export function SchemaPlayground() {
     const handleRemoveMigration = (index: number) => {
         const removed = migrations[index];
         if (!removed) return;
-        const regIdx = registry._migrations.findIndex(
+        const rule = registry.migrations.find(
             (r) => r.key === removed.key && r.fromVersion === removed.from && r.toVersion === removed.to,
         );
-        if (regIdx !== -1) registry._migrations.splice(regIdx, 1);
+        setRegistry(
+            createPlaygroundRegistry(
+                registry.schemas,
+                registry.migrations.filter((r) => r !== rule),
+            ),
+        );
         setMigrations((prev) => prev.filter((_, i) => i !== index));
         addLog(`Removed migration ${removed.key} v${removed.from} → v${removed.to}`, "info");
     };
@@ -458,8 +466,7 @@ export function SchemaPlayground() {
             if (k && k.startsWith(`${NAMESPACE}.`)) toRemove.push(k);
         }
         toRemove.forEach((k) => localStorage.removeItem(k));
-        registry._schemas.clear();
-        registry._migrations.length = 0;
+        setRegistry(createPlaygroundRegistry());
         setSchemas([]);
         setMigrations([]);
         setDecoded(undefined);
@@ -477,9 +484,9 @@ export function SchemaPlayground() {
             setSchemas((prev) => {
                 const prevIds = new Set(prev.map((s) => `${s.key}:${s.version}`));
                 const added: SchemaDisplay[] = [];
-                for (const [id, ks] of registry._schemas) {
-                    if (!prevIds.has(id)) {
-                        added.push({ key: ks.key, version: ks.version, schema: ks.schema });
+                for (const ks of registry.schemas) {
+                    if (!prevIds.has(`${ks.key}:${ks.version}`)) {
+                        added.push({ key: ks.key, version: ks.version, schema: ks.schema as JsonSchema });
                     }
                 }
                 return added.length > 0 ? [...prev, ...added] : prev;
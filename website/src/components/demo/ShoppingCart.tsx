@@ -2,9 +2,15 @@
 // Copyright Scott Dixon
 
 import { useState, useEffect } from "react";
-import { MnemonicProvider, useMnemonicKey, JSONCodec } from "react-mnemonic";
+import {
+    MnemonicProvider,
+    useMnemonicKey,
+    useMnemonicSelector,
+    defineMnemonicKey,
+    JSONCodec,
+    createIdbStorage,
+} from "react-mnemonic";
 import type { StorageLike } from "react-mnemonic";
-import { createIdbStorage } from "./idb-storage";
 
 interface CartItem {
     id: string;
@@ -20,15 +26,24 @@ const catalog = [
     { id: "thingamajig", name: "Thingamajig", price: 39.99 },
 ];
 
+const cartItemsKey = defineMnemonicKey<CartItem[]>({
+    key: "items",
+    defaultValue: [],
+    codec: JSONCodec,
+});
+
+function CartBadge() {
+    // Re-renders only when the item count changes, not on every cart edit.
+    const count = useMnemonicSelector(cartItemsKey, (items) => items.reduce((n, i) => n + i.qty, 0));
+    return (
+        <p className="demo-muted" style={{ textAlign: "right", marginBottom: 8 }}>
+            {count} {count === 1 ? "item" : "items"} in cart
+        </p>
+    );
+}
+
 function CartContents() {
-    const {
-        value: items,
-        set,
-        remove,
-    } = useMnemonicKey<CartItem[]>("items", {
-        defaultValue: [],
-        codec: JSONCodec,
-    });
+    const { value: items, set, remove } = useMnemonicKey(cartItemsKey);
 
     const addItem = (product: (typeof catalog)[number]) => {
         set((prev) => {
@@ -146,7 +161,7 @@ export function ShoppingCart() {
     const [error, setError] = useState<string | null>(null);
 
     useEffect(() => {
-        createIdbStorage("react-mnemonic-demo", "cart")
+        createIdbStorage({ dbName: "react-mnemonic-demo", storeName: "cart" })
             .then(setStorage)
             .catch((err) => setError(String(err)));
     }, []);
@@ -169,6 +184,7 @@ export function ShoppingCart() {
 
     return (
         <MnemonicProvider namespace="cart" storage={storage}>
+            <CartBadge />
             <CartContents />
         </MnemonicProvider>
     );
@@ -35,8 +35,8 @@ function DemoContent() {
             <section className="demo-section">
                 <h2>Shopping Cart</h2>
                 <p>
-                    Uses a custom <code>StorageLike</code> adapter backed by IndexedDB via <code>idb-keyval</code>,
-                    running in its own <code>MnemonicProvider</code>.
+                    Uses the built-in <code>createIdbStorage</code> adapter backed by IndexedDB, running in its own{" "}
+                    <code>MnemonicProvider</code>.
                 </p>
                 <ShoppingCart />
             </section>